@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DiaryEntry, FileItem, ItemKind } from '../shared/types';
+import { redact } from '../shared/logger';
+import { decryptFile, decryptText } from './encryption';
+import type { TaskContext } from './workerTasks';
+
+/**
+ * Everything the export needs from the database; titles and contents are still encrypted
+ */
+export interface AiExportInput {
+  exportDir: string;
+  userId: string;
+  diaryEntries: DiaryEntry[];
+  mediaItems: FileItem[];
+  fileItems: FileItem[];
+  tags: Record<ItemKind, Map<string, string[]>>;
+}
+
+export interface AiExportResult {
+  count: number;
+  // Errors are redacted in the worker: their messages carry export and blob paths
+  failed: Array<{ kind: 'diary' | 'media' | 'file'; id: string; error: unknown }>;
+}
+
+const OBJECT_SCHEMA = {
+  "$schema": "http://json-schema.org/draft-07/schema#",
+  "type": "object",
+  "properties": {
+    "uuid": { "type": "string" },
+    "type": { "enum": ["diary", "media", "file"] },
+    "subtype": { "type": "string" },
+    "date": { "type": "string", "format": "date" },
+    "title": { "type": "string" },
+    "description": { "type": "string" },
+    "file_path": { "type": "string" },
+    "text_path": { "type": "string" },
+    "summary": { "type": "string" },
+    "tags": { "type": "array", "items": { "type": "string" } },
+    "hash": {
+      "type": "object",
+      "properties": {
+        "algo": { "type": "string" },
+        "value": { "type": "string" }
+      }
+    },
+    "created_at": { "type": "string" },
+    "updated_at": { "type": "string" }
+  },
+  "required": ["uuid", "type", "date", "created_at"]
+};
+
+/**
+ * SHA-256 of a file, read as a stream
+ */
+async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+const isoDate = (date: string) => new Date(date).toISOString().split('T')[0];
+
+/**
+ * Write the decrypted export for AI tools into exportDir.
+ * Runs in a worker; on cancellation the partly written folder is removed, since it holds plaintext.
+ */
+export async function writeAiExport(input: AiExportInput, dataKey: Buffer, context: TaskContext): Promise<AiExportResult> {
+  const { exportDir, diaryEntries, mediaItems, fileItems, tags } = input;
+  const total = diaryEntries.length + mediaItems.length + fileItems.length;
+  const objectsJsonl: string[] = [];
+  const failed: AiExportResult['failed'] = [];
+  let done = 0;
+
+  const itemDone = (current: string) => {
+    done++;
+    context.progress({ done, total, current });
+  };
+
+  // Расшифровываем сразу в папку экспорта, без временной копии рядом с зашифрованными файлами
+  const exportBlob = async (item: FileItem, kind: 'media' | 'file', typeDir: string): Promise<{ title: string; exported: boolean }> => {
+    const metadata = typeof item.metadata === 'string' ? JSON.parse(item.metadata) : item.metadata;
+    const decryptedTitle = decryptText(metadata.title, dataKey);
+
+    // Расширение берём из зашифрованного исходного имени (у старых записей — из пути без .enc)
+    const originalName = metadata.fileName
+      ? decryptText(metadata.fileName, dataKey)
+      : item.path.replace('.enc', '');
+    const fileName = `${item.id}${path.extname(originalName)}`;
+    const section = kind === 'media' ? 'media' : 'files';
+    const targetPath = path.join(exportDir, section, typeDir, fileName);
+
+    if (fs.existsSync(item.path)) {
+      await decryptFile(item.path, targetPath, dataKey, { signal: context.signal });
+
+      objectsJsonl.push(JSON.stringify({
+        uuid: item.id,
+        type: kind,
+        subtype: item.type,
+        date: isoDate(item.createdAt),
+        title: decryptedTitle,
+        file_path: `${section}/${typeDir}/${fileName}`,
+        hash: { algo: 'sha256', value: await sha256File(targetPath) },
+        created_at: item.createdAt,
+        updated_at: item.createdAt,
+        tags: tags.file.get(item.id) || []
+      }));
+      return { title: decryptedTitle, exported: true };
+    }
+    return { title: decryptedTitle, exported: false };
+  };
+
+  try {
+    // Создаём структуру папок
+    const dirs = [
+      exportDir,
+      path.join(exportDir, 'diary', 'text'),
+      path.join(exportDir, 'diary', 'audio'),
+      path.join(exportDir, 'media', 'photo'),
+      path.join(exportDir, 'media', 'video'),
+      path.join(exportDir, 'media', 'audio'),
+      path.join(exportDir, 'files', 'pdf'),
+      path.join(exportDir, 'files', 'docx'),
+      path.join(exportDir, 'files', 'spreadsheet'),
+      path.join(exportDir, 'files', 'other'),
+      path.join(exportDir, 'schema')
+    ];
+    for (const dir of dirs) {
+      await fs.promises.mkdir(dir, { recursive: true });
+    }
+
+    let totalCount = 0;
+
+    // Экспорт дневников
+    for (const entry of diaryEntries) {
+      context.signal.throwIfAborted();
+      let title = '';
+      try {
+        title = decryptText(entry.title, dataKey);
+        const decryptedContent = decryptText(entry.content, dataKey);
+
+        const dateStr = isoDate(entry.createdAt);
+        const textFileName = `${dateStr}_${entry.id}.json`;
+
+        // Сохраняем текст дневника
+        await fs.promises.writeFile(path.join(exportDir, 'diary', 'text', textFileName), JSON.stringify({
+          uuid: entry.id,
+          date: dateStr,
+          title,
+          content: decryptedContent,
+          created_at: entry.createdAt,
+          updated_at: entry.updatedAt
+        }, null, 2), 'utf-8');
+
+        // Добавляем в objects.jsonl
+        const summary = decryptedContent.substring(0, 100) + (decryptedContent.length > 100 ? '...' : '');
+        objectsJsonl.push(JSON.stringify({
+          uuid: entry.id,
+          type: 'diary',
+          subtype: 'text',
+          date: dateStr,
+          text_path: `diary/text/${textFileName}`,
+          title,
+          summary,
+          tags: tags.diary.get(entry.id) || [],
+          created_at: entry.createdAt,
+          updated_at: entry.updatedAt
+        }));
+
+        totalCount++;
+      } catch (error) {
+        failed.push({ kind: 'diary', id: entry.id, error: redact(error) });
+      }
+      itemDone(title);
+    }
+
+    // Экспорт медиа
+    for (const item of mediaItems) {
+      context.signal.throwIfAborted();
+      let title = '';
+      try {
+        const mediaTypeDir = item.type === 'photo' ? 'photo' : item.type === 'video' ? 'video' : 'audio';
+        const result = await exportBlob(item, 'media', mediaTypeDir);
+        title = result.title;
+        if (result.exported) {
+          totalCount++;
+        }
+      } catch (error) {
+        if (context.signal.aborted) throw error;
+        failed.push({ kind: 'media', id: item.id, error: redact(error) });
+      }
+      itemDone(title);
+    }
+
+    // Экспорт файлов
+    for (const item of fileItems) {
+      context.signal.throwIfAborted();
+      let title = '';
+      try {
+        // Определяем папку по типу файла
+        let fileTypeDir = 'other';
+        if (item.type === 'pdf') fileTypeDir = 'pdf';
+        else if (item.type === 'docx' || item.type === 'txt') fileTypeDir = 'docx';
+        else if (item.type === 'spreadsheet') fileTypeDir = 'spreadsheet';
+
+        const result = await exportBlob(item, 'file', fileTypeDir);
+        title = result.title;
+        if (result.exported) {
+          totalCount++;
+        }
+      } catch (error) {
+        if (context.signal.aborted) throw error;
+        failed.push({ kind: 'file', id: item.id, error: redact(error) });
+      }
+      itemDone(title);
+    }
+
+    await fs.promises.writeFile(path.join(exportDir, 'objects.jsonl'), objectsJsonl.join('\n'), 'utf-8');
+
+    const manifest = {
+      version: '1.0',
+      export_date: new Date().toISOString(),
+      user_id: input.userId,
+      total_records: totalCount,
+      record_types: {
+        diary: diaryEntries.length,
+        media: mediaItems.length,
+        files: fileItems.length
+      },
+      description: 'Экспорт данных Anamneon для анализа нейросетями'
+    };
+    await fs.promises.writeFile(path.join(exportDir, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+    await fs.promises.writeFile(
+      path.join(exportDir, 'schema', 'object.schema.json'),
+      JSON.stringify(OBJECT_SCHEMA, null, 2),
+      'utf-8'
+    );
+
+    return { count: totalCount, failed };
+  } catch (error) {
+    if (context.signal.aborted) {
+      await fs.promises.rm(exportDir, { recursive: true, force: true });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,76 @@
+import { Database } from '../storage/database';
+import { AuditEntry, AuditEvent } from '../shared/types';
+import { getLogger } from './logger';
+import {
+  generateSealingKeyPair,
+  encryptForPublicKey,
+  openSealingPrivateKey,
+  decryptWithPrivateKey
+} from './encryption';
+
+const log = getLogger('audit');
+
+/**
+ * Append an entry to the audit log. A failure to write it is logged
+ * but never blocks the action being audited.
+ *
+ * Details are encrypted for the user's audit public key, so entries can be
+ * written while the vault is locked (e.g. failed logins) but only read after unlocking.
+ * Until the user has a key pair, and for entries without a user, they stay plaintext;
+ * the latter never contain more than the source and reason of a failed login.
+ */
+export async function recordAudit(db: Database, userId: string | null, event: AuditEvent, details: Record<string, unknown> = {}) {
+  try {
+    let stored = JSON.stringify(details);
+    if (userId) {
+      const { publicKey } = await db.getAuditKeys(userId);
+      if (publicKey) {
+        stored = encryptForPublicKey(stored, publicKey);
+      }
+    }
+    await db.addAuditEntry(userId, event, stored);
+  } catch (error) {
+    log.error('Error writing audit entry', { event, error });
+  }
+}
+
+/**
+ * Create the user's audit key pair on first unlock and encrypt entries written before it existed
+ */
+export async function prepareAuditLog(db: Database, userId: string, dataKey: Buffer) {
+  let { publicKey } = await db.getAuditKeys(userId);
+  if (!publicKey) {
+    const keyPair = generateSealingKeyPair(dataKey);
+    await db.setAuditKeys(userId, keyPair.publicKey, keyPair.encryptedPrivateKey);
+    ({ publicKey } = await db.getAuditKeys(userId));
+  }
+
+  for (const entry of await db.getPlaintextAuditEntries(userId)) {
+    await db.sealAuditEntry(entry.id, userId, encryptForPublicKey(entry.details, publicKey!));
+  }
+}
+
+export async function listAuditEntries(
+  db: Database,
+  userId: string,
+  dataKey: Buffer,
+  filter: { events?: AuditEvent[]; from?: string; to?: string; limit: number }
+): Promise<AuditEntry[]> {
+  const { privateKey: encryptedPrivateKey } = await db.getAuditKeys(userId);
+  const privateKey = encryptedPrivateKey ? openSealingPrivateKey(encryptedPrivateKey, dataKey) : null;
+
+  const rows = await db.getAuditEntries(userId, filter);
+  return rows.map(row => {
+    let details: Record<string, unknown> = {};
+    try {
+      if (row.details?.startsWith('{')) {
+        details = JSON.parse(row.details);
+      } else if (row.details && privateKey) {
+        details = JSON.parse(decryptWithPrivateKey(row.details, privateKey));
+      }
+    } catch (error) {
+      log.error('Error decrypting audit entry', { id: row.id, error });
+    }
+    return { id: row.id, event: row.event as AuditEvent, details, createdAt: row.createdAt };
+  });
+}
@@ -0,0 +1,94 @@
+import { BrowserWindow, powerMonitor } from 'electron';
+import { clearUserEncryptionKey } from './encryption';
+import { revokeViewerUrls } from './fileViewer';
+import { dropSearchIndex } from './search';
+import { cancelUserTasks } from './backgroundTasks';
+import { sendEvent } from './ipc';
+import { LockReason } from '../shared/types';
+import { getLogger } from './logger';
+
+const log = getLogger('autoLock');
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+// Idle timeout in minutes for every unlocked user (0 = never lock on idle)
+const unlockedUsers = new Map<string, number>();
+let idleTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start watching idle time and OS power events.
+ * Must be called after the app is ready.
+ */
+export function startAutoLock() {
+  powerMonitor.on('suspend', () => lockAllUsers('suspend'));
+  powerMonitor.on('lock-screen', () => lockAllUsers('lock-screen'));
+
+  idleTimer = setInterval(() => {
+    const idleSeconds = powerMonitor.getSystemIdleTime();
+    for (const [userId, minutes] of unlockedUsers) {
+      if (minutes > 0 && idleSeconds >= minutes * 60) {
+        lockUser(userId, 'idle');
+      }
+    }
+  }, IDLE_CHECK_INTERVAL_MS);
+}
+
+export function stopAutoLock() {
+  if (idleTimer) {
+    clearInterval(idleTimer);
+    idleTimer = null;
+  }
+}
+
+/**
+ * Register a user whose data key has just been set
+ */
+export function trackUnlockedUser(userId: string, timeoutMinutes: number) {
+  unlockedUsers.set(userId, timeoutMinutes);
+}
+
+/**
+ * Change the idle timeout of an unlocked user
+ */
+export function setAutoLockTimeout(userId: string, timeoutMinutes: number) {
+  if (unlockedUsers.has(userId)) {
+    unlockedUsers.set(userId, timeoutMinutes);
+  }
+}
+
+/**
+ * Forget a user on logout without notifying the renderer
+ */
+export function untrackUser(userId: string) {
+  unlockedUsers.delete(userId);
+  clearUserEncryptionKey(userId);
+  revokeViewerUrls(userId);
+  dropSearchIndex(userId);
+  cancelUserTasks(userId);
+}
+
+/**
+ * Wipe the user's data key and tell the renderer to show the unlock screen
+ */
+export function lockUser(userId: string, reason: LockReason) {
+  if (!unlockedUsers.has(userId)) return;
+
+  log.info('Locking vault', { userId, reason });
+  unlockedUsers.delete(userId);
+  clearUserEncryptionKey(userId);
+  revokeViewerUrls(userId);
+  dropSearchIndex(userId);
+  cancelUserTasks(userId);
+
+  for (const win of BrowserWindow.getAllWindows()) {
+    sendEvent(win.webContents, 'vault:locked', { userId, reason });
+  }
+}
+
+export function lockAllUsers(reason: LockReason) {
+  for (const userId of Array.from(unlockedUsers.keys())) {
+    lockUser(userId, reason);
+  }
+}
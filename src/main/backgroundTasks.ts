@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { WebContents } from 'electron';
+import { ForbiddenError } from '../shared/errors';
+import { TaskKind } from '../shared/types';
+import { sendEvent } from './ipc';
+import type { RunTaskOptions } from './workerPool';
+
+interface BackgroundTask {
+  userId: string;
+  controller: AbortController;
+}
+
+// Long operations the renderer shows a progress bar for and can cancel
+const tasks = new Map<string, BackgroundTask>();
+
+/**
+ * Run a cancellable operation, reporting its progress to the renderer as 'task:progress' events.
+ * The last event has finished: true, whether the operation succeeded, failed or was cancelled.
+ */
+export async function runWithProgress<T>(
+  webContents: WebContents,
+  userId: string,
+  kind: TaskKind,
+  run: (options: Required<RunTaskOptions>) => Promise<T>
+): Promise<T> {
+  const taskId = crypto.randomUUID();
+  const controller = new AbortController();
+  tasks.set(taskId, { userId, controller });
+
+  let last = { done: 0, total: 0 };
+  const send = (update: { done: number; total: number; current?: string }, finished: boolean) => {
+    if (!webContents.isDestroyed()) {
+      sendEvent(webContents, 'task:progress', { taskId, kind, ...update, finished });
+    }
+  };
+
+  send(last, false);
+  try {
+    return await run({
+      signal: controller.signal,
+      onProgress: update => {
+        last = update;
+        send(update, false);
+      }
+    });
+  } finally {
+    tasks.delete(taskId);
+    send(last, true);
+  }
+}
+
+export function cancelTask(userId: string, taskId: string) {
+  const task = tasks.get(taskId);
+  if (!task) return; // Already finished
+  if (task.userId !== userId) {
+    throw new ForbiddenError();
+  }
+  task.controller.abort();
+}
+
+/**
+ * Stop everything the user started when the vault is locked; the workers hold copies of the data key
+ */
+export function cancelUserTasks(userId: string) {
+  for (const task of tasks.values()) {
+    if (task.userId === userId) {
+      task.controller.abort();
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Self-describing header written in front of every ciphertext.
+ *
+ * Layout:
+ *   magic "ANM" (3) | version (1) | cipher id (1) | kdf id (1) | kdf params | iv length (1) | iv
+ *   [| log2 chunk size (1)]   only for STREAM_FORMAT_VERSION
+ *
+ * KDF params:
+ *   pbkdf2: digest id (1) | iterations (uint32 BE) | salt length (1) | salt
+ *   scrypt: log2 N (1) | r (1) | p (1) | salt length (1) | salt
+ *   hkdf:   digest id (1) | salt length (1) | salt
+ *   x25519: digest id (1) | key length (1) | ephemeral public key
+ *           (ECDH with the recipient's key, then HKDF; see encryptForPublicKey)
+ *
+ * The encoded header is also passed to GCM as additional authenticated data,
+ * so the parameters can't be altered without failing decryption.
+ */
+
+const MAGIC = Buffer.from('ANM', 'ascii');
+
+export const FORMAT_VERSION = 3;
+
+/**
+ * Chunked file format: the body is a sequence of independently authenticated
+ * chunks and the iv field holds the nonce prefix (STREAM construction).
+ */
+export const STREAM_FORMAT_VERSION = 4;
+
+const CIPHER_IDS = { 'aes-256-gcm': 1 } as const;
+const KDF_IDS = { pbkdf2: 1, scrypt: 2, hkdf: 3, x25519: 4 } as const;
+const DIGEST_IDS = { sha256: 1, sha512: 2 } as const;
+
+export type CipherName = keyof typeof CIPHER_IDS;
+export type DigestName = keyof typeof DIGEST_IDS;
+
+export type KdfParams =
+  | { id: 'pbkdf2'; digest: DigestName; iterations: number; salt: Buffer }
+  | { id: 'scrypt'; log2N: number; r: number; p: number; salt: Buffer }
+  | { id: 'hkdf'; digest: DigestName; salt: Buffer }
+  | { id: 'x25519'; digest: DigestName; publicKey: Buffer };
+
+export interface CipherHeader {
+  version: number;
+  cipher: CipherName;
+  kdf: KdfParams;
+  iv: Buffer;
+  chunkSize?: number;
+}
+
+function nameById<T extends Record<string, number>>(ids: T, id: number, what: string): keyof T {
+  const name = (Object.keys(ids) as Array<keyof T>).find(key => ids[key] === id);
+  if (name === undefined) {
+    throw new Error(`Unsupported ${what}: ${id}`);
+  }
+  return name;
+}
+
+/**
+ * Check whether a buffer starts with the header magic
+ */
+export function hasCipherHeader(data: Buffer): boolean {
+  return data.length > MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Serialize a header
+ */
+export function encodeHeader(header: CipherHeader): Buffer {
+  const parts: Buffer[] = [
+    MAGIC,
+    Buffer.from([header.version, CIPHER_IDS[header.cipher], KDF_IDS[header.kdf.id]])
+  ];
+
+  const { kdf } = header;
+  switch (kdf.id) {
+    case 'pbkdf2': {
+      const iterations = Buffer.alloc(4);
+      iterations.writeUInt32BE(kdf.iterations);
+      parts.push(Buffer.from([DIGEST_IDS[kdf.digest]]), iterations, Buffer.from([kdf.salt.length]), kdf.salt);
+      break;
+    }
+    case 'scrypt':
+      parts.push(Buffer.from([kdf.log2N, kdf.r, kdf.p, kdf.salt.length]), kdf.salt);
+      break;
+    case 'hkdf':
+      parts.push(Buffer.from([DIGEST_IDS[kdf.digest], kdf.salt.length]), kdf.salt);
+      break;
+    case 'x25519':
+      parts.push(Buffer.from([DIGEST_IDS[kdf.digest], kdf.publicKey.length]), kdf.publicKey);
+      break;
+  }
+
+  parts.push(Buffer.from([header.iv.length]), header.iv);
+  if (header.version === STREAM_FORMAT_VERSION) {
+    if (!header.chunkSize || (header.chunkSize & (header.chunkSize - 1)) !== 0) {
+      throw new Error('Stream header requires a power of two chunk size');
+    }
+    parts.push(Buffer.from([Math.log2(header.chunkSize)]));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parse a header from the start of a buffer.
+ * Returns the header and its encoded length.
+ */
+export function decodeHeader(data: Buffer): { header: CipherHeader; length: number } {
+  if (!hasCipherHeader(data)) {
+    throw new Error('Invalid encrypted data: missing header');
+  }
+
+  let offset = MAGIC.length;
+  const readByte = (): number => {
+    if (offset >= data.length) throw new Error('Invalid encrypted data: truncated header');
+    return data[offset++];
+  };
+  const readBytes = (length: number): Buffer => {
+    if (offset + length > data.length) throw new Error('Invalid encrypted data: truncated header');
+    const bytes = data.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  const version = readByte();
+  if (version !== FORMAT_VERSION && version !== STREAM_FORMAT_VERSION) {
+    throw new Error(`Unsupported encrypted data version: ${version}`);
+  }
+  const cipher = nameById(CIPHER_IDS, readByte(), 'cipher');
+  const kdfId = nameById(KDF_IDS, readByte(), 'KDF');
+
+  let kdf: KdfParams;
+  switch (kdfId) {
+    case 'pbkdf2': {
+      const digest = nameById(DIGEST_IDS, readByte(), 'digest');
+      const iterations = readBytes(4).readUInt32BE();
+      kdf = { id: 'pbkdf2', digest, iterations, salt: readBytes(readByte()) };
+      break;
+    }
+    case 'scrypt': {
+      const log2N = readByte();
+      const r = readByte();
+      const p = readByte();
+      kdf = { id: 'scrypt', log2N, r, p, salt: readBytes(readByte()) };
+      break;
+    }
+    case 'hkdf': {
+      const digest = nameById(DIGEST_IDS, readByte(), 'digest');
+      kdf = { id: 'hkdf', digest, salt: readBytes(readByte()) };
+      break;
+    }
+    case 'x25519': {
+      const digest = nameById(DIGEST_IDS, readByte(), 'digest');
+      kdf = { id: 'x25519', digest, publicKey: readBytes(readByte()) };
+      break;
+    }
+  }
+
+  const iv = readBytes(readByte());
+  const header: CipherHeader = { version, cipher, kdf, iv };
+  if (version === STREAM_FORMAT_VERSION) {
+    const chunkSizeLog2 = readByte();
+    if (chunkSizeLog2 < 10 || chunkSizeLog2 > 24) {
+      throw new Error(`Unsupported chunk size: 2^${chunkSizeLog2}`);
+    }
+    header.chunkSize = 2 ** chunkSizeLog2;
+  }
+  return { header, length: offset };
+}
@@ -0,0 +1,45 @@
+import { parentPort } from 'worker_threads';
+import { TaskProgressUpdate, WorkerRequest, WorkerResponse, workerTasks } from './workerTasks';
+
+// Worker thread entry point, started by workerPool
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const running = new Map<number, AbortController>();
+
+function post(response: WorkerResponse) {
+  parentPort!.postMessage(response);
+}
+
+async function run(id: number, task: keyof typeof workerTasks, input: unknown) {
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  // Byte progress of a large file would flood the main process; the last update always goes through
+  let lastSent = 0;
+  const progress = (update: TaskProgressUpdate) => {
+    const now = Date.now();
+    if (update.done < update.total && now - lastSent < PROGRESS_INTERVAL_MS) return;
+    lastSent = now;
+    post({ id, progress: update });
+  };
+
+  try {
+    const execute = workerTasks[task] as (input: unknown, context: unknown) => unknown;
+    const result = await execute(input, { signal: controller.signal, progress });
+    post({ id, result });
+  } catch (error) {
+    const { name, message } = error instanceof Error ? error : new Error(String(error));
+    post({ id, error: { name, message } });
+  } finally {
+    running.delete(id);
+  }
+}
+
+parentPort!.on('message', (request: WorkerRequest) => {
+  if ('cancel' in request) {
+    running.get(request.id)?.abort();
+    return;
+  }
+  void run(request.id, request.task, request.input);
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import { Database } from '../storage/database';
+import { generateDataKey } from './encryption';
+import { runTask } from './workerPool';
+import { getLogger } from './logger';
+
+const log = getLogger('dataKeyMigration');
+
+/**
+ * One-time migration of a user whose data was encrypted directly with the password.
+ * Generates a data-encryption key, re-encrypts every diary entry, file title and
+ * .enc file with it and stores the key wrapped by the password.
+ * Each field takes a PBKDF2 run to decrypt, so the work is done in workers.
+ * Returns the new data-encryption key.
+ */
+export async function migrateToDataKey(db: Database, userId: string, password: string): Promise<Buffer> {
+  log.info('Migrating user to envelope encryption', { userId });
+  const dataKey = generateDataKey();
+
+  const entries = await db.getDiaryEntries(userId);
+  const fileItems = await db.getFileItems(userId);
+  const pendingFiles: Array<{ tempPath: string; path: string }> = [];
+
+  try {
+    // Files are re-encrypted next to the originals and swapped in only after the database commit
+    for (const item of fileItems) {
+      if (!fs.existsSync(item.path)) continue;
+      const tempPath = `${item.path}.migrating`;
+      try {
+        await runTask('reencryptFile', { sourcePath: item.path, targetPath: tempPath, password, key: dataKey });
+        pendingFiles.push({ tempPath, path: item.path });
+      } catch (error) {
+        log.error('Error re-encrypting file', { id: item.id, error });
+        if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+      }
+    }
+
+    // All text fields go to the worker in one batch, in this order, and come back in the same order
+    const metadataOf = (item: typeof fileItems[number]): any => item.metadata || {};
+    const values = [
+      ...entries.flatMap(entry => [entry.title, entry.content]),
+      ...fileItems.flatMap(item => (metadataOf(item).title ? [item.name, metadataOf(item).title] : [item.name]))
+    ];
+    const reencrypted = await runTask('reencryptPasswordFields', { values, password, key: dataKey });
+    let next = 0;
+    const take = () => reencrypted[next++];
+
+    const diaryEntries = entries.map(entry => ({ id: entry.id, title: take(), content: take() }));
+    const updatedItems = fileItems.map(item => {
+      const metadata = metadataOf(item);
+      const name = take();
+      return {
+        id: item.id,
+        name,
+        metadata: metadata.title ? { ...metadata, title: take() } : metadata
+      };
+    });
+
+    const wrappedKey = await runTask('wrapDataKey', { key: dataKey, password });
+    await db.replaceEncryptedUserData(userId, wrappedKey, diaryEntries, updatedItems);
+  } catch (error) {
+    for (const file of pendingFiles) {
+      if (fs.existsSync(file.tempPath)) fs.unlinkSync(file.tempPath);
+    }
+    throw error;
+  }
+
+  for (const file of pendingFiles) {
+    fs.renameSync(file.tempPath, file.path);
+  }
+
+  log.info('Envelope encryption migration completed', { userId });
+  return dataKey;
+}
+
+/**
+ * Re-encrypt text still stored in the legacy PBKDF2 or v2 formats after unlock.
+ * Reading a legacy field runs a full PBKDF2, so waiting for each record to be edited would
+ * keep every list slow; the work is done once, in a worker.
+ */
+export async function upgradeLegacyText(db: Database, userId: string, dataKey: Buffer): Promise<void> {
+  const rows = await db.getLegacyEncryptedRows(userId);
+  if (rows.diaryEntries.length === 0 && rows.diaryRevisions.length === 0 && rows.files.length === 0) return;
+
+  const upgraded = await runTask('upgradeLegacyText', { rows, key: dataKey });
+  const replaced = await db.replaceLegacyEncryptedRows(userId, rows, upgraded);
+  if (replaced > 0) {
+    log.info('Legacy encrypted text upgraded', { userId, rows: replaced });
+  }
+}
@@ -1,15 +1,35 @@
 import crypto from 'crypto';
 import fs from 'fs';
+import { Readable } from 'stream';
+import {
+  CipherHeader,
+  KdfParams,
+  FORMAT_VERSION,
+  STREAM_FORMAT_VERSION,
+  encodeHeader,
+  decodeHeader,
+  hasCipherHeader
+} from './cipherHeader';
 
 const ALGORITHM = 'aes-256-gcm';
 const KEY_LENGTH = 32; // 256 bits
-const IV_LENGTH = 16; // 128 bits
-const SALT_LENGTH = 64;
+const IV_LENGTH = 16; // 128 bits, legacy formats only
+const SALT_LENGTH = 64; // legacy formats only
 const TAG_LENGTH = 16;
 const ITERATIONS = 100000; // Increased from 1000
+const GCM_IV_LENGTH = 12; // 96 bits, recommended for GCM
+const TEXT_FORMAT_V2 = 'v2:';
+const TEXT_SALT_LENGTH = 16; // Per-record HKDF salt of the text format
 
 /**
- * Derive an encryption key from password using PBKDF2
+ * KDF used for everything derived from a password (wrapped keys, password hashes).
+ * Raising these values upgrades existing users on their next login.
+ */
+const PASSWORD_KDF = { id: 'scrypt', log2N: 17, r: 8, p: 1, saltLength: 16 } as const;
+const SCRYPT_MAXMEM = 256 * 1024 * 1024;
+
+/**
+ * Derive an encryption key from password using legacy PBKDF2 parameters
  */
 export function deriveKey(password: string, salt: Buffer): Buffer {
   return crypto.pbkdf2Sync(password, salt, ITERATIONS, KEY_LENGTH, 'sha512');
@@ -22,47 +42,148 @@ export function generateSalt(): Buffer {
   return crypto.randomBytes(SALT_LENGTH);
 }
 
+/**
+ * Fresh KDF parameters for a new password-derived key
+ */
+function newPasswordKdf(): Extract<KdfParams, { id: 'scrypt' }> {
+  return {
+    id: PASSWORD_KDF.id,
+    log2N: PASSWORD_KDF.log2N,
+    r: PASSWORD_KDF.r,
+    p: PASSWORD_KDF.p,
+    salt: crypto.randomBytes(PASSWORD_KDF.saltLength)
+  };
+}
+
+/**
+ * Check whether KDF parameters match the current password KDF
+ */
+function isCurrentPasswordKdf(kdf: KdfParams): boolean {
+  return kdf.id === PASSWORD_KDF.id
+    && kdf.log2N === PASSWORD_KDF.log2N
+    && kdf.r === PASSWORD_KDF.r
+    && kdf.p === PASSWORD_KDF.p;
+}
+
+/**
+ * Derive a key from a password with the KDF described by a header
+ */
+function derivePasswordKey(password: string, kdf: KdfParams, length: number = KEY_LENGTH): Buffer {
+  switch (kdf.id) {
+    case 'pbkdf2':
+      return crypto.pbkdf2Sync(password, kdf.salt, kdf.iterations, length, kdf.digest);
+    case 'scrypt':
+      return crypto.scryptSync(password, kdf.salt, length, {
+        N: 2 ** kdf.log2N,
+        r: kdf.r,
+        p: kdf.p,
+        maxmem: SCRYPT_MAXMEM
+      });
+    case 'hkdf':
+    case 'x25519':
+      throw new Error(`${kdf.id} can not be used with a password`);
+  }
+}
+
 /**
  * Hash password for storage (not for encryption)
+ * Format: scrypt$log2N$r$p$salt$hash
  */
 export function hashPassword(password: string): string {
-  const salt = crypto.randomBytes(16).toString('hex');
-  const hash = crypto.pbkdf2Sync(password, salt, ITERATIONS, 64, 'sha512').toString('hex');
-  return `${salt}:${hash}`;
+  const kdf = newPasswordKdf();
+  const hash = derivePasswordKey(password, kdf, 64).toString('hex');
+  return ['scrypt', kdf.log2N, kdf.r, kdf.p, kdf.salt.toString('hex'), hash].join('$');
+}
+
+// Hex digests are compared in constant time so response timing says nothing about the hash
+function hashesEqual(expectedHex: string, actual: Buffer): boolean {
+  const expected = Buffer.from(expectedHex || '', 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
 }
 
 /**
- * Verify password against stored hash
+ * Verify password against stored hash (scrypt or legacy PBKDF2 salt:hash)
  */
 export function verifyPassword(password: string, hashedPassword: string): boolean {
+  if (hashedPassword.startsWith('scrypt$')) {
+    const [, log2N, r, p, salt, hash] = hashedPassword.split('$');
+    const kdf: KdfParams = {
+      id: 'scrypt',
+      log2N: Number(log2N),
+      r: Number(r),
+      p: Number(p),
+      salt: Buffer.from(salt, 'hex')
+    };
+    return hashesEqual(hash, derivePasswordKey(password, kdf, 64));
+  }
+
   const [salt, hash] = hashedPassword.split(':');
-  const verifyHash = crypto.pbkdf2Sync(password, salt, ITERATIONS, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
+  return hashesEqual(hash, crypto.pbkdf2Sync(password, salt, ITERATIONS, 64, 'sha512'));
 }
 
 /**
- * Encrypt text data
+ * Check whether a password hash was created with outdated KDF parameters
  */
-export function encryptText(text: string, password: string): string {
-  const salt = generateSalt();
-  const key = deriveKey(password, salt);
-  const iv = crypto.randomBytes(IV_LENGTH);
-  
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-  
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  const authTag = cipher.getAuthTag();
-  
-  // Format: salt:iv:authTag:encryptedData
-  return `${salt.toString('hex')}:${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+export function passwordHashNeedsUpgrade(hashedPassword: string): boolean {
+  if (!hashedPassword.startsWith('scrypt$')) {
+    return true;
+  }
+  const [, log2N, r, p] = hashedPassword.split('$');
+  return Number(log2N) !== PASSWORD_KDF.log2N || Number(r) !== PASSWORD_KDF.r || Number(p) !== PASSWORD_KDF.p;
+}
+
+/**
+ * Encrypt a buffer into header + authTag + ciphertext
+ */
+function seal(plaintext: Buffer, key: Buffer, kdf: KdfParams): Buffer {
+  const header: CipherHeader = {
+    version: FORMAT_VERSION,
+    cipher: ALGORITHM,
+    kdf,
+    iv: crypto.randomBytes(GCM_IV_LENGTH)
+  };
+  const encodedHeader = encodeHeader(header);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, header.iv);
+  cipher.setAAD(encodedHeader);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([encodedHeader, cipher.getAuthTag(), encrypted]);
 }
 
 /**
- * Decrypt text data
+ * Decrypt a buffer produced by seal, resolving the key from the header KDF
  */
-export function decryptText(encryptedData: string, password: string): string {
+function open(sealed: Buffer, resolveKey: (kdf: KdfParams) => Buffer): Buffer {
+  const { header, length } = decodeHeader(sealed);
+  if (sealed.length < length + TAG_LENGTH) {
+    throw new Error('Invalid encrypted data format');
+  }
+
+  const decipher = crypto.createDecipheriv(header.cipher, resolveKey(header.kdf), header.iv);
+  decipher.setAAD(sealed.subarray(0, length));
+  decipher.setAuthTag(sealed.subarray(length, length + TAG_LENGTH));
+
+  return Buffer.concat([decipher.update(sealed.subarray(length + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Encrypt text with a password using the current password KDF.
+ * Runs the KDF on every call, so it is only used for wrapping keys.
+ */
+export function encryptWithPassword(text: string, password: string): string {
+  const kdf = newPasswordKdf();
+  return seal(Buffer.from(text, 'utf8'), derivePasswordKey(password, kdf), kdf).toString('base64');
+}
+
+/**
+ * Decrypt text encrypted with encryptWithPassword, including the legacy salt:iv:authTag:data format
+ */
+export function decryptWithPassword(encryptedData: string, password: string): string {
+  if (!encryptedData.includes(':')) {
+    return open(Buffer.from(encryptedData, 'base64'), kdf => derivePasswordKey(password, kdf)).toString('utf8');
+  }
+
   const parts = encryptedData.split(':');
   if (parts.length !== 4) {
     throw new Error('Invalid encrypted data format');
@@ -85,93 +206,633 @@ export function decryptText(encryptedData: string, password: string): string {
 }
 
 /**
- * Encrypt a file
+ * Secret used by the legacy PBKDF2 formats when the data key took the place of the password
  */
-export async function encryptFile(inputPath: string, outputPath: string, password: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const salt = generateSalt();
-    const key = deriveKey(password, salt);
-    const iv = crypto.randomBytes(IV_LENGTH);
-    
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-    
-    const input = fs.createReadStream(inputPath);
-    const output = fs.createWriteStream(outputPath);
-    
-    // Write salt and IV first
-    output.write(salt);
-    output.write(iv);
-    
-    input.on('error', reject);
-    output.on('error', reject);
-    cipher.on('error', reject);
-    
-    input.pipe(cipher).pipe(output, { end: false });
-    
-    input.on('end', () => {
-      const authTag = cipher.getAuthTag();
-      output.write(authTag);
-      output.end();
-    });
-    
-    output.on('finish', resolve);
+function legacySecret(dataKey: Buffer): string {
+  return dataKey.toString('hex');
+}
+
+/**
+ * Derive a purpose-specific sub-key from the data key with HKDF.
+ * Sub-keys without a salt (text written before per-record salts, and the v2 format)
+ * are cached for as long as the data key stays in the session; salted ones are per record.
+ */
+const subKeyCache = new WeakMap<Buffer, Map<string, Buffer>>();
+
+function deriveSubKey(dataKey: Buffer, purpose: string, salt: Buffer = Buffer.alloc(0)): Buffer {
+  if (salt.length > 0) {
+    return Buffer.from(crypto.hkdfSync('sha256', dataKey, salt, `anamneon:${purpose}`, KEY_LENGTH));
+  }
+
+  let keys = subKeyCache.get(dataKey);
+  if (!keys) {
+    keys = new Map();
+    subKeyCache.set(dataKey, keys);
+  }
+  let subKey = keys.get(purpose);
+  if (!subKey) {
+    subKey = Buffer.from(crypto.hkdfSync('sha256', dataKey, Buffer.alloc(0), `anamneon:${purpose}`, KEY_LENGTH));
+    keys.set(purpose, subKey);
+  }
+  return subKey;
+}
+
+/**
+ * Resolve the key for data encrypted with a sub-key of the data key
+ */
+function dataKeyResolver(dataKey: Buffer, purpose: string): (kdf: KdfParams) => Buffer {
+  return kdf => {
+    if (kdf.id !== 'hkdf' || kdf.digest !== 'sha256') {
+      throw new Error(`Unexpected KDF for ${purpose} data: ${kdf.id}`);
+    }
+    return deriveSubKey(dataKey, purpose, kdf.salt);
+  };
+}
+
+/**
+ * Encrypt text data with a sub-key of the session data key, derived with HKDF from a random
+ * per-record salt kept in the header. HKDF is cheap, unlike the PBKDF2 it replaced.
+ * Format: base64(header + authTag + encryptedData)
+ */
+export function encryptText(text: string, dataKey: Buffer): string {
+  const kdf: KdfParams = { id: 'hkdf', digest: 'sha256', salt: crypto.randomBytes(TEXT_SALT_LENGTH) };
+  const key = deriveSubKey(dataKey, 'text', kdf.salt);
+  try {
+    return seal(Buffer.from(text, 'utf8'), key, kdf).toString('base64');
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Decrypt text data, accepting the headered, v2 and legacy salt:iv:authTag:data formats
+ */
+export function decryptText(encryptedData: string, dataKey: Buffer): string {
+  if (encryptedData.startsWith(TEXT_FORMAT_V2)) {
+    return decryptTextV2(encryptedData, dataKey);
+  }
+  if (encryptedData.includes(':')) {
+    return decryptWithPassword(encryptedData, legacySecret(dataKey));
+  }
+  return open(Buffer.from(encryptedData, 'base64'), dataKeyResolver(dataKey, 'text')).toString('utf8');
+}
+
+/**
+ * Whether text is in the legacy PBKDF2 or v2 format. Base64 of the current format never contains ':'.
+ */
+export function textNeedsUpgrade(encryptedData: string): boolean {
+  return encryptedData.includes(':');
+}
+
+/**
+ * Decrypt the header-less v2:base64(iv + authTag + encryptedData) format
+ */
+function decryptTextV2(encryptedData: string, dataKey: Buffer): string {
+  const raw = Buffer.from(encryptedData.slice(TEXT_FORMAT_V2.length), 'base64');
+  if (raw.length < GCM_IV_LENGTH + TAG_LENGTH) {
+    throw new Error('Invalid encrypted data format');
+  }
+
+  const iv = raw.subarray(0, GCM_IV_LENGTH);
+  const authTag = raw.subarray(GCM_IV_LENGTH, GCM_IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, deriveSubKey(dataKey, 'text'), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([
+    decipher.update(raw.subarray(GCM_IV_LENGTH + TAG_LENGTH)),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+/**
+ * Key pair for data written while the vault may be locked, such as audit entries.
+ * The public key is stored in clear; the private key is encrypted with the data key.
+ */
+export function generateSealingKeyPair(dataKey: Buffer): { publicKey: string; encryptedPrivateKey: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519');
+  return {
+    publicKey: rawPublicKey(publicKey).toString('base64'),
+    encryptedPrivateKey: encryptText(privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64'), dataKey)
+  };
+}
+
+function rawPublicKey(key: crypto.KeyObject): Buffer {
+  return Buffer.from(key.export({ format: 'jwk' }).x!, 'base64url');
+}
+
+function publicKeyFromRaw(raw: Buffer): crypto.KeyObject {
+  return crypto.createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: raw.toString('base64url') }, format: 'jwk' });
+}
+
+function sealingKey(privateKey: crypto.KeyObject, publicKey: crypto.KeyObject, ephemeralKey: Buffer): Buffer {
+  const shared = crypto.diffieHellman({ privateKey, publicKey });
+  return Buffer.from(crypto.hkdfSync('sha256', shared, ephemeralKey, 'anamneon:sealed', KEY_LENGTH));
+}
+
+/**
+ * Encrypt text so that only the holder of the matching private key can read it.
+ * A fresh ephemeral key is used for every message and written to the header.
+ */
+export function encryptForPublicKey(text: string, publicKey: string): string {
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const ephemeralKey = rawPublicKey(ephemeral.publicKey);
+  const key = sealingKey(ephemeral.privateKey, publicKeyFromRaw(Buffer.from(publicKey, 'base64')), ephemeralKey);
+  const kdf: KdfParams = { id: 'x25519', digest: 'sha256', publicKey: ephemeralKey };
+  return seal(Buffer.from(text, 'utf8'), key, kdf).toString('base64');
+}
+
+/**
+ * Decrypt the private key of a sealing key pair; keep it only as long as it is needed
+ */
+export function openSealingPrivateKey(encryptedPrivateKey: string, dataKey: Buffer): crypto.KeyObject {
+  return crypto.createPrivateKey({
+    key: Buffer.from(decryptText(encryptedPrivateKey, dataKey), 'base64'),
+    format: 'der',
+    type: 'pkcs8'
   });
 }
 
 /**
- * Decrypt a file
+ * Decrypt text encrypted with encryptForPublicKey
  */
-export async function decryptFile(inputPath: string, outputPath: string, password: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    try {
-      // Read the entire file first to properly handle auth tag
-      const encryptedData = fs.readFileSync(inputPath);
-      
-      if (encryptedData.length < SALT_LENGTH + IV_LENGTH + TAG_LENGTH) {
-        reject(new Error('Invalid encrypted file: too small'));
-        return;
+export function decryptWithPrivateKey(encryptedData: string, privateKey: crypto.KeyObject): string {
+  return open(Buffer.from(encryptedData, 'base64'), kdf => {
+    if (kdf.id !== 'x25519' || kdf.digest !== 'sha256') {
+      throw new Error(`Unexpected KDF for sealed data: ${kdf.id}`);
+    }
+    return sealingKey(privateKey, publicKeyFromRaw(kdf.publicKey), kdf.publicKey);
+  }).toString('utf8');
+}
+
+/**
+ * Keyed hash of a value, for equality lookups on data that is stored encrypted.
+ * Equal values give equal hashes for the same data key, so it reveals repeats but not content.
+ */
+export function blindIndex(value: string, dataKey: Buffer, purpose: string): string {
+  return crypto.createHmac('sha256', deriveSubKey(dataKey, `index:${purpose}`)).update(value, 'utf8').digest('hex');
+}
+
+export interface FileProgressOptions {
+  onProgress?: (processedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal; // Checked between chunks; a partial output file is removed
+}
+
+/**
+ * Inclusive plaintext byte range, as in an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+const STREAM_CHUNK_SIZE = 64 * 1024; // plaintext bytes per chunk
+const STREAM_NONCE_PREFIX_LENGTH = 7;
+const MAX_HEADER_LENGTH = 1024;
+const LEGACY_READ_SIZE = 64 * 1024;
+
+/**
+ * Header for a new file: each file gets its own HKDF salt and therefore its own key
+ */
+function newStreamHeader(): CipherHeader {
+  return {
+    version: STREAM_FORMAT_VERSION,
+    cipher: ALGORITHM,
+    kdf: { id: 'hkdf', digest: 'sha256', salt: crypto.randomBytes(16) },
+    iv: crypto.randomBytes(STREAM_NONCE_PREFIX_LENGTH),
+    chunkSize: STREAM_CHUNK_SIZE
+  };
+}
+
+/**
+ * Chunk nonce: prefix (7) | chunk index (uint32 BE) | last chunk flag (1).
+ * Reordering, dropping or truncating chunks makes authentication fail.
+ */
+function streamNonce(prefix: Buffer, index: number, last: boolean): Buffer {
+  const nonce = Buffer.alloc(GCM_IV_LENGTH);
+  prefix.copy(nonce, 0);
+  nonce.writeUInt32BE(index, STREAM_NONCE_PREFIX_LENGTH);
+  nonce[GCM_IV_LENGTH - 1] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Split a byte source into chunkSize pieces. The last piece is always shorter
+ * than chunkSize (possibly empty), which marks the end of the stream.
+ */
+async function* rechunk(source: AsyncIterable<Buffer>, chunkSize: number): AsyncGenerator<Buffer> {
+  let pending: Buffer = Buffer.alloc(0);
+  for await (const piece of source) {
+    pending = pending.length > 0 ? Buffer.concat([pending, piece]) : piece;
+    while (pending.length >= chunkSize) {
+      yield pending.subarray(0, chunkSize);
+      pending = pending.subarray(chunkSize);
+    }
+  }
+  yield pending;
+}
+
+/**
+ * Encrypt a byte source into the chunked format at outputPath
+ */
+async function writeEncryptedStream(
+  source: AsyncIterable<Buffer>,
+  outputPath: string,
+  dataKey: Buffer,
+  totalBytes: number,
+  options: FileProgressOptions = {}
+): Promise<void> {
+  const header = newStreamHeader();
+  const encodedHeader = encodeHeader(header);
+  const key = dataKeyResolver(dataKey, 'file')(header.kdf);
+  const chunkSize = header.chunkSize!;
+
+  const output = await fs.promises.open(outputPath, 'w');
+  try {
+    await output.write(encodedHeader);
+
+    let index = 0;
+    let processed = 0;
+    let previous: Buffer | null = null;
+    // One chunk of look-ahead: a chunk is final when nothing follows it
+    for await (const chunk of rechunk(source, chunkSize)) {
+      options.signal?.throwIfAborted();
+      if (previous) {
+        await output.write(sealChunk(key, header.iv, encodedHeader, index++, false, previous));
+        processed += previous.length;
+        options.onProgress?.(processed, totalBytes);
+      }
+      previous = Buffer.from(chunk);
+    }
+    await output.write(sealChunk(key, header.iv, encodedHeader, index, true, previous!));
+    processed += previous!.length;
+    options.onProgress?.(processed, totalBytes);
+  } catch (error) {
+    await output.close();
+    await fs.promises.rm(outputPath, { force: true });
+    throw error;
+  }
+  await output.close();
+}
+
+function sealChunk(key: Buffer, noncePrefix: Buffer, aad: Buffer, index: number, last: boolean, plaintext: Buffer): Buffer {
+  const cipher = crypto.createCipheriv(ALGORITHM, key, streamNonce(noncePrefix, index, last));
+  cipher.setAAD(aad);
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+function openChunk(key: Buffer, noncePrefix: Buffer, aad: Buffer, index: number, last: boolean, sealed: Buffer): Buffer {
+  if (sealed.length < TAG_LENGTH) {
+    throw new Error('Invalid encrypted file: truncated chunk');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, streamNonce(noncePrefix, index, last));
+  decipher.setAAD(aad);
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Read-only view of an encrypted file in any supported format
+ */
+interface EncryptedFileReader {
+  /** Plaintext size in bytes */
+  size: number;
+  /** Plaintext bytes of the whole file or of a range */
+  read(range?: ByteRange): AsyncGenerator<Buffer>;
+  close(): Promise<void>;
+}
+
+async function readExactly(handle: fs.promises.FileHandle, length: number, position: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error('Invalid encrypted file: unexpected end of file');
+  }
+  return buffer;
+}
+
+/**
+ * Open an encrypted file. Chunked files are read chunk by chunk in constant memory;
+ * the older single-shot formats are streamed and authenticated once the end is reached.
+ */
+async function openEncryptedFile(
+  inputPath: string,
+  resolveKey: (kdf: KdfParams) => Buffer,
+  legacyPassword: string
+): Promise<EncryptedFileReader> {
+  const handle = await fs.promises.open(inputPath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const start = await readExactly(handle, Math.min(fileSize, MAX_HEADER_LENGTH), 0);
+
+    if (hasCipherHeader(start)) {
+      const { header, length: headerLength } = decodeHeader(start);
+      const encodedHeader = start.subarray(0, headerLength);
+      const key = resolveKey(header.kdf);
+
+      if (header.version === STREAM_FORMAT_VERSION) {
+        return chunkedReader(handle, header, Buffer.from(encodedHeader), headerLength, fileSize, key);
+      }
+
+      // Single-shot format: header + encryptedData + authTag
+      return singleShotReader(handle, {
+        key,
+        iv: header.iv,
+        aad: Buffer.from(encodedHeader),
+        dataStart: headerLength,
+        dataEnd: fileSize - TAG_LENGTH
+      });
+    }
+
+    // Legacy format: salt + iv + encryptedData + authTag
+    if (fileSize < SALT_LENGTH + IV_LENGTH + TAG_LENGTH) {
+      throw new Error('Invalid encrypted file: too small');
+    }
+    const salt = start.subarray(0, SALT_LENGTH);
+    return singleShotReader(handle, {
+      key: deriveKey(legacyPassword, salt),
+      iv: Buffer.from(start.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH)),
+      dataStart: SALT_LENGTH + IV_LENGTH,
+      dataEnd: fileSize - TAG_LENGTH
+    });
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+}
+
+function chunkedReader(
+  handle: fs.promises.FileHandle,
+  header: CipherHeader,
+  encodedHeader: Buffer,
+  headerLength: number,
+  fileSize: number,
+  key: Buffer
+): EncryptedFileReader {
+  const chunkSize = header.chunkSize!;
+  const sealedChunkSize = chunkSize + TAG_LENGTH;
+  const bodyLength = fileSize - headerLength;
+  const chunkCount = Math.ceil(bodyLength / sealedChunkSize);
+  if (chunkCount === 0) {
+    throw new Error('Invalid encrypted file: no chunks');
+  }
+  const size = bodyLength - chunkCount * TAG_LENGTH;
+
+  return {
+    size,
+    async *read(range?: ByteRange) {
+      const start = range ? range.start : 0;
+      const end = range ? Math.min(range.end, size - 1) : size - 1;
+      // Even an empty file has a final chunk that has to be authenticated
+      const firstChunk = Math.min(Math.floor(start / chunkSize), chunkCount - 1);
+      const lastChunk = end >= start ? Math.floor(end / chunkSize) : firstChunk;
+
+      for (let index = firstChunk; index <= lastChunk; index++) {
+        const position = headerLength + index * sealedChunkSize;
+        const length = Math.min(sealedChunkSize, fileSize - position);
+        const sealed = await readExactly(handle, length, position);
+        const plaintext = openChunk(key, header.iv, encodedHeader, index, index === chunkCount - 1, sealed);
+
+        const chunkStart = index * chunkSize;
+        const from = Math.max(start - chunkStart, 0);
+        const to = Math.min(end - chunkStart + 1, plaintext.length);
+        if (to > from) {
+          yield plaintext.subarray(from, to);
+        }
       }
-      
-      const salt = encryptedData.subarray(0, SALT_LENGTH);
-      const iv = encryptedData.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-      const authTag = encryptedData.subarray(encryptedData.length - TAG_LENGTH);
-      const ciphertext = encryptedData.subarray(SALT_LENGTH + IV_LENGTH, encryptedData.length - TAG_LENGTH);
-      
-      const key = deriveKey(password, salt);
-      const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    },
+    close: () => handle.close()
+  };
+}
+
+function singleShotReader(
+  handle: fs.promises.FileHandle,
+  params: { key: Buffer; iv: Buffer; aad?: Buffer; dataStart: number; dataEnd: number }
+): EncryptedFileReader {
+  const size = params.dataEnd - params.dataStart;
+  if (size < 0) {
+    throw new Error('Invalid encrypted file: too small');
+  }
+
+  return {
+    size,
+    async *read(range?: ByteRange) {
+      const authTag = await readExactly(handle, TAG_LENGTH, params.dataEnd);
+      const decipher = crypto.createDecipheriv(ALGORITHM, params.key, params.iv);
+      if (params.aad) decipher.setAAD(params.aad);
       decipher.setAuthTag(authTag);
-      
-      const decrypted = Buffer.concat([
-        decipher.update(ciphertext),
-        decipher.final()
-      ]);
-      
-      fs.writeFileSync(outputPath, decrypted);
-      resolve();
+
+      // The whole file has to be decrypted from the start; the tag is only checked at the end
+      const start = range ? range.start : 0;
+      const end = range ? Math.min(range.end, size - 1) : size - 1;
+      let offset = 0;
+      for (let position = params.dataStart; position < params.dataEnd; position += LEGACY_READ_SIZE) {
+        const length = Math.min(LEGACY_READ_SIZE, params.dataEnd - position);
+        const plaintext = decipher.update(await readExactly(handle, length, position));
+        const from = Math.max(start - offset, 0);
+        const to = Math.min(end - offset + 1, plaintext.length);
+        if (to > from) {
+          yield plaintext.subarray(from, to);
+        }
+        offset += plaintext.length;
+      }
+      decipher.final();
+    },
+    close: () => handle.close()
+  };
+}
+
+function openWithDataKey(inputPath: string, dataKey: Buffer): Promise<EncryptedFileReader> {
+  return openEncryptedFile(inputPath, dataKeyResolver(dataKey, 'file'), legacySecret(dataKey));
+}
+
+/**
+ * Encrypt a file
+ * Format: header + chunks of (encryptedData + authTag)
+ */
+export async function encryptFile(inputPath: string, outputPath: string, dataKey: Buffer, options: FileProgressOptions = {}): Promise<void> {
+  const { size } = await fs.promises.stat(inputPath);
+  const input = fs.createReadStream(inputPath, { highWaterMark: STREAM_CHUNK_SIZE });
+  try {
+    await writeEncryptedStream(input, outputPath, dataKey, size, options);
+  } finally {
+    input.destroy();
+  }
+}
+
+/**
+ * Encrypt an in-memory buffer straight to a file, so the plaintext never touches the disk
+ */
+export async function encryptBufferToFile(data: Buffer, outputPath: string, dataKey: Buffer): Promise<void> {
+  async function* source() {
+    yield data;
+  }
+  await writeEncryptedStream(source(), outputPath, dataKey, data.length);
+}
+
+/**
+ * Decrypt a small file into memory
+ */
+export async function decryptFileToBuffer(inputPath: string, dataKey: Buffer): Promise<Buffer> {
+  const reader = await openWithDataKey(inputPath, dataKey);
+  try {
+    const parts: Buffer[] = [];
+    for await (const plaintext of reader.read()) {
+      parts.push(plaintext);
+    }
+    return Buffer.concat(parts);
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Authenticate every chunk of a file without keeping the plaintext.
+ * Throws if the file can't be decrypted with the data key or was modified.
+ */
+export async function verifyFile(inputPath: string, dataKey: Buffer, options: FileProgressOptions = {}): Promise<void> {
+  const reader = await openWithDataKey(inputPath, dataKey);
+  try {
+    for await (const plaintext of reader.read()) {
+      plaintext.fill(0);
+      options.signal?.throwIfAborted();
+    }
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Decrypt a file in constant memory.
+ * A partially written output is removed if any chunk fails authentication.
+ */
+export async function decryptFile(inputPath: string, outputPath: string, dataKey: Buffer, options: FileProgressOptions = {}): Promise<void> {
+  const reader = await openWithDataKey(inputPath, dataKey);
+  try {
+    const output = await fs.promises.open(outputPath, 'w');
+    try {
+      let processed = 0;
+      for await (const plaintext of reader.read()) {
+        options.signal?.throwIfAborted();
+        await output.write(plaintext);
+        processed += plaintext.length;
+        options.onProgress?.(processed, reader.size);
+      }
     } catch (error) {
-      reject(error);
+      await output.close();
+      await fs.promises.rm(outputPath, { force: true });
+      throw error;
     }
-  });
+    await output.close();
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Plaintext size of an encrypted file, read from its layout without decrypting
+ */
+export async function getDecryptedSize(inputPath: string, dataKey: Buffer): Promise<number> {
+  const reader = await openWithDataKey(inputPath, dataKey);
+  await reader.close();
+  return reader.size;
+}
+
+/**
+ * Stream decrypted bytes of a file, optionally limited to a byte range.
+ * Returns the stream and the full plaintext size of the file.
+ */
+export async function createDecryptedStream(inputPath: string, dataKey: Buffer, range?: ByteRange): Promise<{ stream: Readable; size: number }> {
+  const reader = await openWithDataKey(inputPath, dataKey);
+
+  async function* generate() {
+    try {
+      yield* reader.read(range);
+    } finally {
+      await reader.close();
+    }
+  }
+
+  return { stream: Readable.from(generate()), size: reader.size };
+}
+
+/**
+ * Re-encrypt a password-encrypted file with the data key without writing plaintext to disk
+ */
+export async function reencryptFile(inputPath: string, outputPath: string, password: string, dataKey: Buffer): Promise<void> {
+  const reader = await openEncryptedFile(inputPath, kdf => derivePasswordKey(password, kdf), password);
+  try {
+    await writeEncryptedStream(reader.read(), outputPath, dataKey, reader.size);
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * Generate a random data-encryption key for a user.
+ * All diary entries and files are encrypted with this key, never with the password itself.
+ */
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Wrap the data-encryption key with a password-derived key for storage in the users table
+ */
+export function wrapDataKey(dataKey: Buffer, password: string): string {
+  return encryptWithPassword(dataKey.toString('hex'), password);
+}
+
+/**
+ * Unwrap a stored data-encryption key. Throws if the password is wrong.
+ */
+export function unwrapDataKey(wrappedKey: string, password: string): Buffer {
+  return Buffer.from(decryptWithPassword(wrappedKey, password), 'hex');
+}
+
+/**
+ * Check whether a wrapped key uses a legacy format or outdated KDF parameters
+ */
+export function wrappedKeyNeedsUpgrade(wrappedKey: string): boolean {
+  if (wrappedKey.includes(':')) {
+    return true;
+  }
+  const { header } = decodeHeader(Buffer.from(wrappedKey, 'base64'));
+  return !isCurrentPasswordKdf(header.kdf);
 }
 
 /**
  * Get user encryption key from session
- * In production, this should be stored securely in memory per session
+ * Holds the unwrapped data-encryption key of every logged in user
  */
-const userKeys = new Map<string, string>();
+const userKeys = new Map<string, Buffer>();
 
-export function setUserEncryptionKey(userId: string, password: string): void {
-  userKeys.set(userId, password);
+function wipeKey(dataKey: Buffer): void {
+  subKeyCache.get(dataKey)?.forEach(subKey => subKey.fill(0));
+  subKeyCache.delete(dataKey);
+  dataKey.fill(0);
 }
 
-export function getUserEncryptionKey(userId: string): string | undefined {
+export function setUserEncryptionKey(userId: string, dataKey: Buffer): void {
+  const previous = userKeys.get(userId);
+  if (previous && previous !== dataKey) {
+    wipeKey(previous);
+  }
+  userKeys.set(userId, dataKey);
+}
+
+export function getUserEncryptionKey(userId: string): Buffer | undefined {
   return userKeys.get(userId);
 }
 
 export function clearUserEncryptionKey(userId: string): void {
+  const dataKey = userKeys.get(userId);
+  if (dataKey) {
+    wipeKey(dataKey);
+  }
   userKeys.delete(userId);
 }
 
 export function clearAllEncryptionKeys(): void {
+  userKeys.forEach(wipeKey);
   userKeys.clear();
 }
@@ -1,50 +1,132 @@
 import { dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
 import { app } from 'electron';
+import { Database } from '../storage/database';
+import { CancelledError, ValidationError } from '../shared/errors';
+import { FileItem } from '../shared/types';
+import { encryptText, decryptText } from './encryption';
+import { runTask } from './workerPool';
+import { runWithProgress } from './backgroundTasks';
+import { getLogger } from './logger';
 
-// Create a new directory structure
-const createMediaDirectory = async () => {
-  const mediaPath = path.join(app.getPath('userData'), 'media');
+const log = getLogger('fileHandlers');
+
+const fileExists = async (filePath: string) => {
   try {
-    await fs.access(mediaPath);
+    await fs.access(filePath);
+    return true;
   } catch {
+    return false;
+  }
+};
+
+// Create a new directory structure
+export const createMediaDirectory = async (userId: string) => {
+  const mediaPath = path.join(app.getPath('userData'), 'media', userId);
+  if (!(await fileExists(mediaPath))) {
     await fs.mkdir(mediaPath, { recursive: true });
   }
   return mediaPath;
 };
 
-// Handle file uploads
-export const handleFileUpload = async (mainWindow: Electron.BrowserWindow, fileTypes: string[]) => {
+// Blobs are named by a random UUID so nothing about the original file is visible on disk
+export const newBlobPath = (mediaDir: string) => path.join(mediaDir, `${crypto.randomUUID()}.enc`);
+
+// Handle file uploads: encrypt straight from the source, no plaintext copy is written.
+// Encryption runs in a worker with a progress bar; a cancelled upload leaves no blob behind.
+// fileTypes maps the allowed extensions to the stored item type, e.g. xlsx to spreadsheet.
+export const handleFileUpload = async (
+  mainWindow: Electron.BrowserWindow,
+  fileTypes: Record<string, FileItem['type']>,
+  userId: string,
+  dataKey: Buffer
+) => {
   try {
     const result = await dialog.showOpenDialog(mainWindow, {
       properties: ['openFile'],
       filters: [
-        { name: 'Allowed Files', extensions: fileTypes }
+        { name: 'Allowed Files', extensions: Object.keys(fileTypes) }
       ]
     });
 
     if (!result.canceled && result.filePaths.length > 0) {
       const sourcePath = result.filePaths[0];
-      const mediaDir = await createMediaDirectory();
+      const mediaDir = await createMediaDirectory(userId);
       const fileName = path.basename(sourcePath);
-      const targetPath = path.join(mediaDir, fileName);
-
-      // Use the filename without extension as the title
+      const extension = path.extname(fileName).slice(1).toLowerCase();
+      if (!Object.prototype.hasOwnProperty.call(fileTypes, extension)) {
+        throw new ValidationError('Неподдерживаемый тип файла');
+      }
+      const targetPath = newBlobPath(mediaDir);
 
-      await fs.copyFile(sourcePath, targetPath);
+      await runWithProgress(mainWindow.webContents, userId, 'upload', options =>
+        runTask('encryptFile', { sourcePath, targetPath, key: dataKey }, options)
+      );
       return {
         path: targetPath,
         name: fileName,
-        type: path.extname(fileName).slice(1),
+        type: fileTypes[extension],
         metadata: {
+          // Use the filename without extension as the title
           title: path.basename(fileName, path.extname(fileName))
         }
       };
     }
     return null;
   } catch (error) {
-    console.error('Error during file upload:', error);
+    if (!(error instanceof CancelledError)) {
+      log.error('Error during file upload', { error });
+    }
     return null;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Encrypt the sensitive metadata fields: title and the original file name
+ */
+export const encryptFileMetadata = (metadata: any, dataKey: Buffer) => ({
+  ...metadata,
+  title: encryptText(metadata.title, dataKey),
+  ...(metadata.fileName ? { fileName: encryptText(metadata.fileName, dataKey) } : {})
+});
+
+export const decryptFileMetadata = (metadata: any, dataKey: Buffer) => ({
+  ...metadata,
+  title: decryptText(metadata.title, dataKey),
+  ...(metadata.fileName ? { fileName: decryptText(metadata.fileName, dataKey) } : {})
+});
+
+/**
+ * Move blobs stored by older versions (media/<originalName>.enc) into the per-user
+ * directory under random names and keep the original name only in encrypted metadata
+ */
+export const migrateFileBlobs = async (db: Database, userId: string, dataKey: Buffer) => {
+  const mediaDir = await createMediaDirectory(userId);
+
+  for (const item of await db.getFileItems(userId)) {
+    if (path.dirname(item.path) === mediaDir && !item.name) continue;
+
+    const metadata: any = item.metadata || {};
+    const fileName = metadata.fileName
+      ? decryptText(metadata.fileName, dataKey)
+      : path.basename(item.path).replace(/\.enc$/, '');
+    const updatedMetadata = { ...metadata, fileName: encryptText(fileName, dataKey) };
+
+    let blobPath = item.path;
+    if (path.dirname(item.path) !== mediaDir && (await fileExists(item.path))) {
+      blobPath = newBlobPath(mediaDir);
+      await fs.rename(item.path, blobPath);
+    }
+
+    try {
+      await db.updateFileStorage(item.id, userId, blobPath, '', updatedMetadata);
+    } catch (error) {
+      if (blobPath !== item.path) {
+        await fs.rename(blobPath, item.path);
+      }
+      throw error;
+    }
+  }
+};
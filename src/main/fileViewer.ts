@@ -0,0 +1,197 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { app, protocol, shell } from 'electron';
+import { createDecryptedStream, getDecryptedSize, getUserEncryptionKey } from './encryption';
+import { runTask } from './workerPool';
+import { ViewerKind } from '../shared/types';
+import { getLogger } from './logger';
+
+const log = getLogger('fileViewer');
+
+export const FILE_PROTOCOL = 'anamneon-file';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.txt': 'text/plain; charset=utf-8'
+};
+
+export function mimeTypeFor(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+export function viewerKindFor(mimeType: string): ViewerKind | null {
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('text/plain')) return 'text';
+  const [group] = mimeType.split('/');
+  return group === 'image' || group === 'audio' || group === 'video' ? group : null;
+}
+
+// A viewer left open without any request for this long loses its URL
+const VIEWER_IDLE_MS = 30 * 60 * 1000;
+
+interface ViewerTarget {
+  userId: string;
+  fileId: string;
+  blobPath: string;
+  mimeType: string;
+  lastUsed: number;
+}
+
+// Viewer URLs carry a random token instead of a file id or path.
+// Tokens are revoked when the viewer closes, when the file is deleted, on lock and after VIEWER_IDLE_MS.
+const viewerTokens = new Map<string, ViewerTarget>();
+
+function removeIdleTokens(now: number) {
+  for (const [token, target] of viewerTokens) {
+    if (now - target.lastUsed > VIEWER_IDLE_MS) {
+      viewerTokens.delete(token);
+    }
+  }
+}
+
+function useToken(token: string): ViewerTarget | undefined {
+  const now = Date.now();
+  removeIdleTokens(now);
+  const target = viewerTokens.get(token);
+  if (target) {
+    target.lastUsed = now;
+  }
+  return target;
+}
+
+/**
+ * Must be called before the app is ready
+ */
+export function registerFileProtocolScheme() {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: FILE_PROTOCOL, privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true } }
+  ]);
+}
+
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  // "bytes=-N" asks for the last N bytes
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end ? { start, end } : null;
+}
+
+/**
+ * Serve decrypted bytes straight from the encrypted blob; nothing is written to disk.
+ * Range requests are supported so audio and video can seek.
+ */
+export function registerFileProtocol() {
+  protocol.registerStreamProtocol(FILE_PROTOCOL, async (request, callback) => {
+    try {
+      const token = new URL(request.url).pathname.slice(1);
+      const target = useToken(token);
+      const dataKey = target && getUserEncryptionKey(target.userId);
+      if (!target || !dataKey) {
+        callback({ statusCode: 403 });
+        return;
+      }
+
+      const size = await getDecryptedSize(target.blobPath, dataKey);
+      const range = parseRange(request.headers['Range'] || request.headers['range'], size);
+      const { stream } = await createDecryptedStream(target.blobPath, dataKey, range || undefined);
+
+      const headers: Record<string, string> = {
+        'Content-Type': target.mimeType,
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': 'no-store'
+      };
+      if (range) {
+        headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`;
+        headers['Content-Length'] = String(range.end - range.start + 1);
+      } else {
+        headers['Content-Length'] = String(size);
+      }
+
+      callback({ statusCode: range ? 206 : 200, headers, data: stream });
+    } catch (error) {
+      log.error('Error serving decrypted file', { error });
+      callback({ statusCode: 500 });
+    }
+  });
+}
+
+export function createViewerUrl(userId: string, fileId: string, blobPath: string, mimeType: string): string {
+  const now = Date.now();
+  removeIdleTokens(now);
+  const token = crypto.randomBytes(32).toString('hex');
+  viewerTokens.set(token, { userId, fileId, blobPath, mimeType, lastUsed: now });
+  return `${FILE_PROTOCOL}://view/${token}`;
+}
+
+/**
+ * Called when the viewer closes; URLs of other users are left alone
+ */
+export function revokeViewerUrl(userId: string, url: string) {
+  const prefix = `${FILE_PROTOCOL}://view/`;
+  if (!url.startsWith(prefix)) return;
+  const token = url.slice(prefix.length);
+  if (viewerTokens.get(token)?.userId === userId) {
+    viewerTokens.delete(token);
+  }
+}
+
+/**
+ * Called when a file is trashed, purged or moved out of the vault
+ */
+export function revokeFileViewerUrls(userId: string, fileId: string) {
+  for (const [token, target] of viewerTokens) {
+    if (target.userId === userId && target.fileId === fileId) {
+      viewerTokens.delete(token);
+    }
+  }
+}
+
+export function revokeViewerUrls(userId: string) {
+  for (const [token, target] of viewerTokens) {
+    if (target.userId === userId) {
+      viewerTokens.delete(token);
+    }
+  }
+}
+
+// Plaintext copies made by "open externally" live only here and are removed on quit and on the next start
+function externalFilesDir(): string {
+  return path.join(app.getPath('temp'), 'anamneon-open');
+}
+
+/**
+ * Decrypt a file for an external application. This is an explicit opt-in:
+ * the plaintext copy stays on disk until the app quits.
+ */
+export async function openExternally(blobPath: string, originalName: string, dataKey: Buffer): Promise<void> {
+  const dir = externalFilesDir();
+  await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+  const tempPath = path.join(dir, `${crypto.randomUUID()}_${path.basename(originalName)}`);
+
+  await runTask('decryptFile', { sourcePath: blobPath, targetPath: tempPath, key: dataKey });
+  const error = await shell.openPath(tempPath);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+export function removeExternalFiles() {
+  try {
+    fs.rmSync(externalFilesDir(), { recursive: true, force: true });
+  } catch (error) {
+    log.error('Error removing decrypted copies', { error });
+  }
+}
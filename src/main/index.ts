@@ -1,19 +1,82 @@
-import { app, BrowserWindow, session, ipcMain } from 'electron';
+import { app, BrowserWindow, session, IpcMainInvokeEvent } from 'electron';
 import * as path from 'path';
-import { setupSecureIPC } from './security';
-import { Database } from '../storage/database';
-import { handleFileUpload } from './fileHandlers';
+import { handle, assertAllChannelsHandled } from './ipc';
+import { getLogger, initLogging, writeForeignRecord, getLogLevel, setLogLevel } from './logger';
+import { Database, ItemPageQuery } from '../storage/database';
+import { AppError, CancelledError, ForbiddenError, ThrottledError, ValidationError } from '../shared/errors';
+import { DiaryEntry, FileItem, ItemPage, ItemQuery } from '../shared/types';
+import {
+  handleFileUpload,
+  encryptFileMetadata,
+  decryptFileMetadata,
+  migrateFileBlobs
+} from './fileHandlers';
 import {
-  hashPassword,
-  verifyPassword,
   encryptText,
   decryptText,
-  encryptFile,
-  decryptFile,
   setUserEncryptionKey,
   getUserEncryptionKey,
-  clearUserEncryptionKey
+  clearAllEncryptionKeys,
+  generateDataKey,
+  wrappedKeyNeedsUpgrade,
+  passwordHashNeedsUpgrade
 } from './encryption';
+import { migrateToDataKey, upgradeLegacyText } from './dataKeyMigration';
+import { generateRecoveryCode, normalizeRecoveryCode } from './recoveryCode';
+import { saveProfilePhoto, loadProfilePhoto, migrateProfilePhoto } from './profilePhoto';
+import {
+  createSession,
+  verifySession,
+  refreshSession,
+  getSessionUser,
+  revokeSession,
+  revokeUserSessions,
+  endWindowSessions
+} from './sessions';
+import { recordAudit, prepareAuditLog, listAuditEntries } from './audit';
+import {
+  assertPasswordAttemptAllowed,
+  recordPasswordFailure,
+  recordPasswordSuccess,
+  serializeAttempts
+} from './loginThrottle';
+import {
+  isTwoFactorEnabled,
+  getTwoFactorStatus,
+  beginEnrolment,
+  confirmEnrolment,
+  verifySecondFactor,
+  disableTwoFactor
+} from './twoFactor';
+import { findTagId, listTags, loadItemTags, setItemTags } from './tags';
+import { getTrashRetentionDays, purgeTrashedItem, emptyTrash, purgeExpiredTrash } from './trash';
+import { checkIntegrity, quarantineItem, relinkFile, purgeOrphans } from './integrity';
+import { buildSearchIndex, invalidateSearchIndex, searchItems } from './search';
+import { runTask, terminateWorkers } from './workerPool';
+import { cancelTask, runWithProgress } from './backgroundTasks';
+import {
+  FILE_PROTOCOL,
+  registerFileProtocolScheme,
+  registerFileProtocol,
+  createViewerUrl,
+  revokeViewerUrl,
+  revokeFileViewerUrls,
+  mimeTypeFor,
+  viewerKindFor,
+  openExternally,
+  removeExternalFiles
+} from './fileViewer';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  startAutoLock,
+  stopAutoLock,
+  trackUnlockedUser,
+  untrackUser,
+  lockUser,
+  setAutoLockTimeout
+} from './autoLock';
+
+const log = getLogger('main');
 
 function createWindow() {
   const win = new BrowserWindow({
@@ -24,17 +87,16 @@ function createWindow() {
       contextIsolation: true,
       sandbox: true,
       webSecurity: true,
-      preload: path.join(__dirname, 'preload.js')
+      plugins: true, // Встроенный просмотрщик PDF
+      preload: path.join(__dirname, 'preload.bundle.js')
     }
   });
 
   const htmlPath = path.join(__dirname, '..', 'index.html');
-  console.log('Loading HTML from:', htmlPath);
-  
+  log.debug('Loading HTML', { htmlPath });
+
   win.loadFile(htmlPath).catch(err => {
-    console.error('Failed to load HTML file:', err);
-    console.error('Current directory:', __dirname);
-    console.error('Attempted path:', htmlPath);
+    log.error('Failed to load HTML file', { error: err, dirname: __dirname, htmlPath });
   });
 
   // Очищаем localStorage перед закрытием окна
@@ -48,948 +110,1057 @@ function createWindow() {
 
 const db = new Database();
 
-// Set up IPC handlers for database operations
-async function setupIPCHandlers() {
-  let mainWindow: BrowserWindow | null = null;
+registerFileProtocolScheme();
 
-  ipcMain.handle('auth:login', async (_, { email, password }) => {
-    try {
-      const user = await db.getUserByEmail(email);
-      if (!user) {
-        return { success: false, error: 'Пользователь не найден' };
-      }
+async function getAutoLockMinutes(userId: string): Promise<number> {
+  const value = await db.getUserSetting(userId, 'autoLockMinutes');
+  return value !== undefined ? Number(value) : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+/**
+ * Keep the data key for this session and start the idle timer
+ */
+async function unlockSession(userId: string, dataKey: Buffer) {
+  setUserEncryptionKey(userId, dataKey);
+  trackUnlockedUser(userId, await getAutoLockMinutes(userId));
+
+  try {
+    await prepareAuditLog(db, userId, dataKey);
+  } catch (error) {
+    log.error('Error preparing audit log', { error });
+  }
+
+  try {
+    await purgeExpiredTrash(db, userId);
+  } catch (error) {
+    log.error('Error purging expired trash', { error });
+  }
 
-      if (!verifyPassword(password, user.password_hash)) {
-        return { success: false, error: 'Неверный пароль' };
+  try {
+    await migrateProfilePhoto(userId, dataKey);
+  } catch (error) {
+    log.error('Error encrypting profile photo', { error });
+  }
+
+  try {
+    await migrateFileBlobs(db, userId, dataKey);
+  } catch (error) {
+    log.error('Error migrating file blobs', { error });
+  }
+
+  // Both run in the background; the index is built from the upgraded rows and the first search waits for it
+  upgradeLegacyText(db, userId, dataKey)
+    .catch(error => log.error('Error upgrading legacy encrypted text', { error }))
+    .finally(() => {
+      // Not if the vault was locked in the meantime; the key is wiped by then
+      if (getUserEncryptionKey(userId) === dataKey) {
+        buildSearchIndex(db, userId, dataKey);
       }
+    });
+}
 
-      // Store encryption key for this session
-      setUserEncryptionKey(user.id, password);
+/**
+ * The user is always taken from the session of the calling window,
+ * never from ids sent by the renderer
+ */
+function requireSessionUser(event: IpcMainInvokeEvent): string {
+  const userId = getSessionUser(event.sender);
+  if (!userId) {
+    throw new ForbiddenError();
+  }
+  return userId;
+}
 
-      return { success: true, token: user.id };
-    } catch (error) {
-      console.error('Login error:', error);
-      return { success: false, error: 'Ошибка при входе в систему' };
+function requireDataKey(userId: string): Buffer {
+  const dataKey = getUserEncryptionKey(userId);
+  if (!dataKey) {
+    throw new AppError('LOCKED', 'Хранилище заблокировано');
+  }
+  return dataKey;
+}
+
+function requireWindow(event: IpcMainInvokeEvent): BrowserWindow {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!win) {
+    throw new AppError('NOT_FOUND', 'No window found');
+  }
+  return win;
+}
+
+/**
+ * Linked files must belong to the same user as the entry.
+ * Returns the files to link: none for a standalone entry, at least one for a linked one.
+ */
+async function checkLinkedFiles(userId: string, entryMode: 'standalone' | 'linked', linkedFileIds: string[]): Promise<string[]> {
+  if (entryMode === 'standalone') {
+    return [];
+  }
+  if (linkedFileIds.length === 0) {
+    throw new ValidationError('Для связанной записи нужно выбрать хотя бы один файл');
+  }
+  for (const fileId of linkedFileIds) {
+    if (!(await db.getFileItem(fileId, userId))) {
+      throw new ForbiddenError();
     }
-  });
+  }
+  return linkedFileIds;
+}
 
-  ipcMain.handle('auth:register', async (_, { email, password, name }) => {
-    try {
-      const existingUser = await db.getUserByEmail(email);
-      if (existingUser) {
-        return { success: false, error: 'Пользователь с таким email уже существует' };
-      }
+/**
+ * Resolve the tag name of a query to the tag id; null when no tag has that name, so nothing matches
+ */
+async function toPageQuery(userId: string, dataKey: Buffer, { tag, ...query }: ItemQuery<string>): Promise<ItemPageQuery | null> {
+  if (!tag) {
+    return query;
+  }
+  const tagId = await findTagId(db, userId, dataKey, tag);
+  return tagId ? { ...query, tagId } : null;
+}
 
-      const passwordHash = hashPassword(password);
-      const userId = await db.createUser(email, passwordHash, name);
+function emptyPage<T>(): ItemPage<T> {
+  return { items: [], nextCursor: null, total: 0, linkedTitles: {} };
+}
 
-      // Store encryption key for this session
-      setUserEncryptionKey(userId, password);
+// The password KDFs take a noticeable time, so they run in a worker instead of blocking the main process
+const hashPassword = (password: string) => runTask('hashPassword', { password });
 
-      return { success: true, token: userId };
-    } catch (error) {
-      console.error('Registration error:', error);
-      return { success: false, error: 'Ошибка при регистрации' };
+const wrapDataKey = (dataKey: Buffer, password: string) => runTask('wrapDataKey', { key: dataKey, password });
+
+async function unwrapDataKey(wrappedKey: string, password: string): Promise<Buffer> {
+  const key = await runTask('unwrapDataKey', { wrappedKey, password });
+  const dataKey = Buffer.from(key);
+  key.fill(0);
+  return dataKey;
+}
+
+/**
+ * Verify the account password with lockout after repeated failures.
+ * Used for login and for unlocking, so the lock screen can't be used to guess the password.
+ * The failure counter is left to the caller to reset, since a second factor may still follow.
+ * Callers run it inside serializeAttempts together with that reset.
+ */
+async function checkPassword(user: { id: string; password_hash: string }, password: string, source: string) {
+  await assertPasswordAttemptAllowed(db, user.id, source);
+
+  if (!(await runTask('verifyPassword', { password, hash: user.password_hash }))) {
+    const lockedUntil = await recordPasswordFailure(db, user.id, source);
+    if (lockedUntil) {
+      throw new ThrottledError(lockedUntil);
     }
-  });
+    throw new AppError('INVALID_CREDENTIALS', 'Неверный пароль');
+  }
+}
 
-  ipcMain.handle('diary:save', async (_, entry) => {
-    try {
-      console.log('Entry received:', entry);
-      
-      const userPassword = getUserEncryptionKey(entry.userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for encryption');
-      }
+/**
+ * Require the TOTP or backup code after a correct password or recovery code.
+ * Wrong codes count towards the same lockout as wrong passwords.
+ */
+async function checkSecondFactor(userId: string, dataKey: Buffer, code: string | undefined, source: string) {
+  if (!(await isTwoFactorEnabled(db, userId))) return;
+
+  if (!code) {
+    throw new AppError('TWO_FACTOR_REQUIRED', 'Введите код из приложения-аутентификатора');
+  }
 
-      // Encrypt title and content
-      const encryptedTitle = encryptText(entry.title, userPassword);
-      const encryptedContent = encryptText(entry.content, userPassword);
+  if (!(await verifySecondFactor(db, userId, dataKey, code))) {
+    const lockedUntil = await recordPasswordFailure(db, userId, source, 'wrong-code');
+    if (lockedUntil) {
+      throw new ThrottledError(lockedUntil);
+    }
+    throw new AppError('INVALID_CREDENTIALS', 'Неверный код');
+  }
+}
 
-      const encryptedEntry = {
+function decryptDiaryEntries(entries: DiaryEntry[], dataKey: Buffer): DiaryEntry[] {
+  return entries.map(entry => {
+    try {
+      return {
         ...entry,
-        title: encryptedTitle,
-        content: encryptedContent
+        title: decryptText(entry.title, dataKey),
+        content: decryptText(entry.content, dataKey)
       };
-
-      return await db.saveDiaryEntry(encryptedEntry);
     } catch (error) {
-      console.error('Error saving diary entry:', error);
-      throw error;
+      log.error('Error decrypting entry', { id: entry.id, error });
+      return {
+        ...entry,
+        title: '[Ошибка расшифровки]',
+        content: '[Не удалось расшифровать содержимое]'
+      };
     }
   });
+}
 
-  ipcMain.handle('diary:getAll', async (_, { userId }) => {
+function decryptFileItems(items: FileItem[], dataKey: Buffer): FileItem[] {
+  return items.map(item => {
     try {
-      console.log('Getting diary entries for user:', userId);
-      const entries = await db.getDiaryEntries(userId);
-      
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for decryption');
-      }
-
-      // Decrypt all entries
-      const decryptedEntries = entries.map(entry => {
-        try {
-          return {
-            ...entry,
-            title: decryptText(entry.title, userPassword),
-            content: decryptText(entry.content, userPassword)
-          };
-        } catch (error) {
-          console.error('Error decrypting entry:', entry.id, error);
-          return {
-            ...entry,
-            title: '[Ошибка расшифровки]',
-            content: '[Не удалось расшифровать содержимое]'
-          };
-        }
-      });
-
-      return decryptedEntries;
+      const metadata = typeof item.metadata === 'string'
+        ? JSON.parse(item.metadata)
+        : item.metadata;
+
+      const decryptedMetadata = decryptFileMetadata(metadata, dataKey);
+      return {
+        ...item,
+        name: decryptedMetadata.fileName || item.name,
+        metadata: decryptedMetadata
+      };
     } catch (error) {
-      console.error('Error getting diary entries:', error);
-      throw error;
+      log.error('Error decrypting file item', { id: item.id, error });
+      const originalMetadata: any = typeof item.metadata === 'string'
+        ? JSON.parse(item.metadata)
+        : item.metadata;
+      return {
+        ...item,
+        metadata: {
+          title: '[Ошибка расшифровки]',
+          uploadedAt: originalMetadata?.uploadedAt
+        }
+      };
     }
   });
+}
 
-  ipcMain.handle('media:upload', async (event, { type, userId }: { type: 'photo' | 'video' | 'audio', userId: string }) => {
-    try {
-      const user = await db.getUserById(userId);
-      if (!user) throw new Error('Unauthorized');
+// Set up IPC handlers for database operations
+async function setupIPCHandlers() {
+  handle('auth:login', async (event, { email, password, code }) => {
+    const user = await db.getUserByEmail(email);
+    if (!user) {
+      await recordAudit(db, null, 'login-failed', { source: 'login', reason: 'unknown-account' });
+      throw new AppError('NOT_FOUND', 'Пользователь не найден');
+    }
 
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) throw new Error('User not authenticated for encryption');
+    const dataKey = await serializeAttempts(user.id, async () => {
+      await checkPassword(user, password, 'login');
 
-      const fileTypes: Record<'photo' | 'video' | 'audio', string[]> = {
-        photo: ['jpg', 'jpeg', 'png', 'gif'],
-        video: ['mp4', 'mov', 'avi'],
-        audio: ['mp3', 'wav', 'm4a']
-      };
+      // Unwrap the data-encryption key, migrating password-encrypted data on first login
+      const key = user.encrypted_key
+        ? await unwrapDataKey(user.encrypted_key, password)
+        : await migrateToDataKey(db, user.id, password);
 
-      mainWindow = BrowserWindow.fromWebContents(event.sender);
-      if (!mainWindow) return null;
+      await checkSecondFactor(user.id, key, code, 'login');
+      await recordPasswordSuccess(db, user.id);
+      return key;
+    });
 
-      const result = await handleFileUpload(mainWindow, fileTypes[type]);
-      if (!result) return null;
+    // Re-wrap with the current KDF parameters while the password is at hand
+    if (passwordHashNeedsUpgrade(user.password_hash) || (user.encrypted_key && wrappedKeyNeedsUpgrade(user.encrypted_key))) {
+      await db.updateUserCredentials(user.id, await hashPassword(password), await wrapDataKey(dataKey, password));
+    }
 
-      // Encrypt the file
-      const encryptedPath = result.path + '.enc';
-      await encryptFile(result.path, encryptedPath, userPassword);
-      
-      // Delete original unencrypted file
-      const fs = require('fs');
-      fs.unlinkSync(result.path);
+    // Store encryption key for this session
+    await unlockSession(user.id, dataKey);
+    await recordAudit(db, user.id, 'login', { source: 'login' });
 
-      const now = new Date();
-      const title = result.metadata?.title || result.name;
-      const encryptedTitle = encryptText(title, userPassword);
-      
-      const mediaItem = {
-        name: encryptedTitle,
-        type,
-        path: encryptedPath,
-        createdAt: now.toISOString(),
-        userId: user.id,
-        metadata: {
-          title: encryptedTitle,
-          uploadedAt: now.toISOString()
-        }
-      };
-      
-      const id = await db.saveMediaItem(mediaItem);
-      
-      return { 
-        id, 
-        ...mediaItem,
-        name: title,
-        metadata: {
-          title: title,
-          uploadedAt: now.toISOString()
-        }
-      };
-    } catch (error) {
-      console.error('Error in media:upload handler:', error);
-      throw error;
+    const session = createSession(user.id, event.sender);
+    return { userId: user.id, token: session.token, expiresAt: session.expiresAt };
+  });
+
+  handle('auth:register', async (event, { email, password, name }) => {
+    const existingUser = await db.getUserByEmail(email);
+    if (existingUser) {
+      throw new AppError('CONFLICT', 'Пользователь с таким email уже существует');
     }
+
+    const dataKey = generateDataKey();
+    const recoveryCode = generateRecoveryCode();
+    const [passwordHash, encryptedKey, recoveryKey] = await Promise.all([
+      hashPassword(password),
+      wrapDataKey(dataKey, password),
+      wrapDataKey(dataKey, recoveryCode)
+    ]);
+    const userId = await db.createUser(email, passwordHash, name, encryptedKey, recoveryKey);
+
+    // Store encryption key for this session
+    await unlockSession(userId, dataKey);
+    await recordAudit(db, userId, 'login', { source: 'register' });
+
+    const session = createSession(userId, event.sender);
+    return { userId, token: session.token, expiresAt: session.expiresAt, recoveryCode };
   });
 
-  ipcMain.handle('media:getAll', async (_, { userId }) => {
-    try {
-      const items = await db.getMediaItems(userId);
-      
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for decryption');
-      }
+  handle('auth:recover', async (event, { email, recoveryCode, newPassword, code }) => {
+    const user = await db.getUserByEmail(email);
+    if (!user) {
+      await recordAudit(db, null, 'login-failed', { source: 'recover', reason: 'unknown-account' });
+      throw new AppError('NOT_FOUND', 'Пользователь не найден');
+    }
+    if (!user.recovery_key) {
+      throw new AppError('NOT_FOUND', 'Для этой учётной записи не создан код восстановления');
+    }
 
-      // Decrypt metadata
-      const decryptedItems = items.map(item => {
-        try {
-          const metadata = typeof item.metadata === 'string' 
-            ? JSON.parse(item.metadata) 
-            : item.metadata;
-          
-          return {
-            ...item,
-            metadata: {
-              ...metadata,
-              title: decryptText(metadata.title, userPassword)
-            }
-          };
-        } catch (error) {
-          console.error('Error decrypting media item:', item.id, error);
-          const originalMetadata = typeof item.metadata === 'string' 
-            ? JSON.parse(item.metadata) 
-            : item.metadata;
-          return {
-            ...item,
-            metadata: {
-              title: '[Ошибка расшифровки]',
-              uploadedAt: originalMetadata?.uploadedAt
-            }
-          };
+    // Wrong codes count towards the password lockout, so the recovery form can't be used to guess
+    const dataKey = await serializeAttempts(user.id, async () => {
+      await assertPasswordAttemptAllowed(db, user.id, 'recover');
+
+      let key: Buffer;
+      try {
+        key = await unwrapDataKey(user.recovery_key, normalizeRecoveryCode(recoveryCode));
+      } catch {
+        const lockedUntil = await recordPasswordFailure(db, user.id, 'recover', 'wrong-recovery-code');
+        if (lockedUntil) {
+          throw new ThrottledError(lockedUntil);
         }
-      });
+        throw new AppError('INVALID_CREDENTIALS', 'Неверный код восстановления');
+      }
 
-      return decryptedItems;
-    } catch (error) {
-      console.error('Error getting media items:', error);
-      throw error;
-    }
+      // The recovery code replaces the password, not the second factor
+      await checkSecondFactor(user.id, key, code, 'recover');
+      await recordPasswordSuccess(db, user.id);
+      return key;
+    });
+
+    // The used code is replaced, so a code that was written down can't be used twice
+    const newRecoveryCode = generateRecoveryCode();
+    const [passwordHash, encryptedKey, recoveryKey] = await Promise.all([
+      hashPassword(newPassword),
+      wrapDataKey(dataKey, newPassword),
+      wrapDataKey(dataKey, newRecoveryCode)
+    ]);
+    await db.updateUserCredentials(user.id, passwordHash, encryptedKey, recoveryKey);
+
+    await unlockSession(user.id, dataKey);
+    await recordAudit(db, user.id, 'login', { source: 'recover' });
+
+    // Sessions opened with the old password end here
+    revokeUserSessions(user.id);
+    const session = createSession(user.id, event.sender);
+    return {
+      userId: user.id,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      recoveryCode: newRecoveryCode
+    };
   });
 
-  ipcMain.handle('file:upload', async (event, { userId }) => {
-    try {
-      console.log('File upload started for user:', userId);
-      
-      const user = await db.getUserById(userId);
-      if (!user) throw new Error('Unauthorized');
+  handle('auth:regenerateRecoveryCode', async (event) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
 
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) throw new Error('User not authenticated for encryption');
+    const recoveryCode = generateRecoveryCode();
+    await db.updateUserRecoveryKey(userId, await wrapDataKey(dataKey, recoveryCode));
+    return { recoveryCode };
+  });
 
-      mainWindow = BrowserWindow.fromWebContents(event.sender);
-      if (!mainWindow) return null;
+  handle('diary:save', async (event, entry) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const linkedFileIds = await checkLinkedFiles(userId, entry.entryMode, entry.linkedFileIds);
+
+    // Encrypt title and content
+    const encryptedEntry = {
+      ...entry,
+      linkedFileIds,
+      userId,
+      title: encryptText(entry.title, dataKey),
+      content: encryptText(entry.content, dataKey)
+    };
+
+    const saved = await db.saveDiaryEntry(encryptedEntry);
+    invalidateSearchIndex(userId);
+    return saved;
+  });
 
-      const result = await handleFileUpload(mainWindow, ['pdf', 'txt', 'docx', 'xlsx']);
-      if (!result) return null;
+  handle('diary:getAll', async (event) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const tags = await loadItemTags(db, userId, dataKey);
+    return decryptDiaryEntries(await db.getDiaryEntries(userId), dataKey)
+      .map(entry => ({ ...entry, tags: tags.diary.get(entry.id) || [] }));
+  });
 
-      // Encrypt the file
-      const encryptedPath = result.path + '.enc';
-      await encryptFile(result.path, encryptedPath, userPassword);
-      
-      // Delete original unencrypted file
-      const fs = require('fs');
-      fs.unlinkSync(result.path);
-
-      const encryptedTitle = encryptText(result.metadata?.title || result.name, userPassword);
-
-      const fileItem = {
-        name: result.name,
-        path: encryptedPath,
-        type: result.type as any,
-        createdAt: new Date().toISOString(),
-        userId: user.id,
-        metadata: {
-          title: encryptedTitle,
-          uploadedAt: new Date().toISOString()
-        }
-      };
-      
-      const id = await db.saveFileItem(fileItem);
-      
-      return { 
-        ...fileItem, 
-        id,
-        metadata: {
-          title: result.metadata?.title || result.name,
-          uploadedAt: new Date().toISOString()
-        }
-      };
-    } catch (error) {
-      console.error('Error in file:upload handler:', error);
-      throw error;
-    }
+  // Only the requested page is decrypted, plus the titles of items linked to it
+  handle('diary:query', async (event, query) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const pageQuery = await toPageQuery(userId, dataKey, query);
+    if (!pageQuery) return emptyPage<DiaryEntry>();
+
+    const page = await db.queryDiaryEntries(userId, pageQuery);
+    const tags = await loadItemTags(db, userId, dataKey);
+    const linkedIds = Array.from(new Set(page.items.flatMap(entry => entry.linkedFileIds)));
+    const linked = linkedIds.length > 0
+      ? (await db.queryFileItems(userId, { ids: linkedIds, limit: linkedIds.length })).items
+      : [];
+
+    return {
+      ...page,
+      items: decryptDiaryEntries(page.items, dataKey).map(entry => ({ ...entry, tags: tags.diary.get(entry.id) || [] })),
+      linkedTitles: Object.fromEntries(decryptFileItems(linked, dataKey).map(item => [item.id, item.metadata?.title || item.name]))
+    };
   });
 
-  ipcMain.handle('file:getAll', async (_, { userId }) => {
-    try {
-      const items = await db.getFileItems(userId);
-      
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for decryption');
-      }
+  handle('media:upload', async (event, { type }) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+
+    const extensions: Record<'photo' | 'video' | 'audio', string[]> = {
+      photo: ['jpg', 'jpeg', 'png', 'gif'],
+      video: ['mp4', 'mov', 'avi'],
+      audio: ['mp3', 'wav', 'm4a']
+    };
+    const fileTypes = Object.fromEntries(extensions[type].map(extension => [extension, type]));
+
+    const result = await handleFileUpload(requireWindow(event), fileTypes, userId, dataKey);
+    if (!result) return null;
+
+    const now = new Date();
+    const metadata = {
+      title: result.metadata?.title || result.name,
+      fileName: result.name,
+      uploadedAt: now.toISOString()
+    };
+
+    // The original name is stored only inside encrypted metadata
+    const mediaItem = {
+      name: '',
+      type,
+      path: result.path,
+      createdAt: now.toISOString(),
+      userId,
+      metadata: encryptFileMetadata(metadata, dataKey)
+    };
+
+    const id = await db.saveMediaItem(mediaItem);
+    invalidateSearchIndex(userId);
+
+    return {
+      id,
+      ...mediaItem,
+      name: result.name,
+      metadata
+    };
+  });
 
-      // Decrypt metadata
-      const decryptedItems = items.map(item => {
-        try {
-          const metadata = typeof item.metadata === 'string' 
-            ? JSON.parse(item.metadata) 
-            : item.metadata;
-          
-          return {
-            ...item,
-            metadata: {
-              ...metadata,
-              title: decryptText(metadata.title, userPassword)
-            }
-          };
-        } catch (error) {
-          console.error('Error decrypting file item:', item.id, error);
-          const originalMetadata = typeof item.metadata === 'string' 
-            ? JSON.parse(item.metadata) 
-            : item.metadata;
-          return {
-            ...item,
-            metadata: {
-              title: '[Ошибка расшифровки]',
-              uploadedAt: originalMetadata?.uploadedAt
-            }
-          };
-        }
-      });
+  handle('media:getAll', async (event) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const tags = await loadItemTags(db, userId, dataKey);
+    return decryptFileItems(await db.getMediaItems(userId), dataKey)
+      .map(item => ({ ...item, tags: tags.file.get(item.id) || [] }));
+  });
 
-      return decryptedItems;
-    } catch (error) {
-      console.error('Error getting file items:', error);
-      throw error;
+  handle('file:upload', async (event) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+
+    const result = await handleFileUpload(
+      requireWindow(event),
+      { pdf: 'pdf', txt: 'txt', docx: 'docx', xlsx: 'spreadsheet' },
+      userId,
+      dataKey
+    );
+    if (!result) return null;
+
+    const metadata = {
+      title: result.metadata?.title || result.name,
+      fileName: result.name,
+      uploadedAt: new Date().toISOString()
+    };
+
+    // The original name is stored only inside encrypted metadata
+    const fileItem = {
+      name: '',
+      path: result.path,
+      type: result.type,
+      createdAt: new Date().toISOString(),
+      userId,
+      metadata: encryptFileMetadata(metadata, dataKey)
+    };
+
+    const id = await db.saveFileItem(fileItem);
+    invalidateSearchIndex(userId);
+
+    return {
+      ...fileItem,
+      id,
+      name: result.name,
+      metadata
+    };
+  });
+
+  handle('file:getAll', async (event) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const tags = await loadItemTags(db, userId, dataKey);
+    return decryptFileItems(await db.getFileItems(userId), dataKey)
+      .map(item => ({ ...item, tags: tags.file.get(item.id) || [] }));
+  });
+
+  handle('file:query', async (event, query) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const pageQuery = await toPageQuery(userId, dataKey, query);
+    if (!pageQuery) return emptyPage<FileItem>();
+
+    const page = await db.queryFileItems(userId, pageQuery);
+    const tags = await loadItemTags(db, userId, dataKey);
+    const linkedIds = Array.from(new Set(page.items.flatMap(item => item.linkedEntryIds || [])));
+    const linked = linkedIds.length > 0
+      ? (await db.queryDiaryEntries(userId, { ids: linkedIds, limit: linkedIds.length })).items
+      : [];
+
+    return {
+      ...page,
+      items: decryptFileItems(page.items, dataKey).map(item => ({ ...item, tags: tags.file.get(item.id) || [] })),
+      linkedTitles: Object.fromEntries(decryptDiaryEntries(linked, dataKey).map(entry => [entry.id, entry.title]))
+    };
+  });
+
+  handle('diary:update', async (event, { id, entry }) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const linkedFileIds = await checkLinkedFiles(userId, entry.entryMode, entry.linkedFileIds);
+
+    const current = await db.getDiaryEntry(id, userId);
+    if (!current) {
+      throw new ForbiddenError();
     }
+    // Only a change of wording is kept as a revision, not of the date or link
+    const [previous] = decryptDiaryEntries([current], dataKey);
+    const wordingChanged = previous.title !== entry.title || previous.content !== entry.content;
+
+    // Encrypt title and content
+    const encryptedEntry = {
+      title: encryptText(entry.title, dataKey),
+      content: encryptText(entry.content, dataKey),
+      entryMode: entry.entryMode,
+      linkedFileIds,
+      createdAt: entry.customDate
+    };
+
+    await db.updateDiaryEntry(id, userId, encryptedEntry, wordingChanged);
+    invalidateSearchIndex(userId);
   });
 
-  ipcMain.handle('diary:update', async (_, { id, entry, userId }) => {
-    try {
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for encryption');
+  handle('diary:getRevisions', async (event, { id }) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    const revisions = await db.getDiaryRevisions(id, userId);
+
+    return revisions.map(revision => {
+      try {
+        return {
+          ...revision,
+          title: decryptText(revision.title, dataKey),
+          content: decryptText(revision.content, dataKey)
+        };
+      } catch (error) {
+        log.error('Error decrypting revision', { id: revision.id, error });
+        return {
+          ...revision,
+          title: '[Ошибка расшифровки]',
+          content: '[Не удалось расшифровать содержимое]'
+        };
       }
+    });
+  });
 
-      // Encrypt title and content
-      const encryptedEntry = {
-        title: encryptText(entry.title, userPassword),
-        content: encryptText(entry.content, userPassword),
-        entryMode: entry.entryMode,
-        linkedItemType: entry.linkedItemType,
-        linkedItemId: entry.linkedItemId,
-        createdAt: entry.customDate
-      };
+  handle('diary:delete', async (event, { id }) => {
+    const userId = requireSessionUser(event);
+    await db.trashDiaryEntry(id, userId);
+    invalidateSearchIndex(userId);
+    await recordAudit(db, userId, 'deleted', { kind: 'diary', id });
+  });
 
-      await db.updateDiaryEntry(id, encryptedEntry);
-    } catch (error) {
-      console.error('Error updating diary entry:', error);
-      throw error;
-    }
+  handle('media:delete', async (event, { id }) => {
+    const userId = requireSessionUser(event);
+    await db.trashMediaItem(id, userId);
+    revokeFileViewerUrls(userId, id);
+    invalidateSearchIndex(userId);
+    await recordAudit(db, userId, 'deleted', { kind: 'media', id });
   });
 
-  ipcMain.handle('diary:delete', async (_, { id }) => {
-    try {
-      await db.deleteDiaryEntry(id);
-    } catch (error) {
-      console.error('Error deleting diary entry:', error);
-      throw error;
-    }
+  handle('file:delete', async (event, { id }) => {
+    const userId = requireSessionUser(event);
+    await db.trashFileItem(id, userId);
+    revokeFileViewerUrls(userId, id);
+    invalidateSearchIndex(userId);
+    await recordAudit(db, userId, 'deleted', { kind: 'file', id });
   });
 
-  ipcMain.handle('media:delete', async (_, { id }) => {
-    try {
-      await db.deleteMediaItem(id);
-    } catch (error) {
-      console.error('Error deleting media item:', error);
-      throw error;
+  // Look up a file by its blob path and decrypt the original name
+  async function resolveUserFile(userId: string, encryptedPath: string) {
+    const dataKey = requireDataKey(userId);
+
+    const item = await db.getFileItemByPath(userId, encryptedPath);
+    if (!item) {
+      throw new ForbiddenError();
     }
+
+    // Blob names are random, the extension comes from the encrypted metadata
+    const originalName = item.metadata?.fileName
+      ? decryptText(item.metadata.fileName, dataKey)
+      : path.basename(encryptedPath).replace('.enc', '');
+    return { item, originalName, dataKey };
+  }
+
+  handle('file:view', async (event, { path: encryptedPath }) => {
+    const userId = requireSessionUser(event);
+    const { item, originalName } = await resolveUserFile(userId, encryptedPath);
+    const mimeType = mimeTypeFor(originalName);
+    const kind = viewerKindFor(mimeType);
+    await recordAudit(db, userId, 'file-viewed', { id: item.id, name: originalName });
+
+    return {
+      name: originalName,
+      kind,
+      url: kind ? createViewerUrl(userId, item.id, item.path, mimeType) : null
+    };
   });
 
-  ipcMain.handle('file:delete', async (_, { id }) => {
-    try {
-      await db.deleteFileItem(id);
-    } catch (error) {
-      console.error('Error deleting file item:', error);
-      throw error;
-    }
+  handle('file:closeView', async (event, { url }) => {
+    revokeViewerUrl(requireSessionUser(event), url);
   });
 
-  ipcMain.handle('file:open', async (_, { path: encryptedPath, userId }) => {
-    try {
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for decryption');
-      }
+  // Explicit opt-in: writes a decrypted copy that is removed when the app quits
+  handle('file:open', async (event, { path: encryptedPath }) => {
+    const userId = requireSessionUser(event);
+    const { item, originalName, dataKey } = await resolveUserFile(userId, encryptedPath);
+    await openExternally(item.path, originalName, dataKey);
+    await recordAudit(db, userId, 'file-opened', { id: item.id, name: originalName });
+  });
 
-      // Create temporary decrypted file
-      const path = require('path');
-      const os = require('os');
-      const fs = require('fs');
-      
-      const tempDir = os.tmpdir();
-      const originalName = path.basename(encryptedPath).replace('.enc', '');
-      const tempPath = path.join(tempDir, `anamneon_${Date.now()}_${originalName}`);
-
-      // Decrypt file to temp location
-      await decryptFile(encryptedPath, tempPath, userPassword);
-
-      // Open decrypted file
-      const { shell } = require('electron');
-      await shell.openPath(tempPath);
-
-      // Schedule cleanup after 5 minutes
-      setTimeout(() => {
-        try {
-          if (fs.existsSync(tempPath)) {
-            fs.unlinkSync(tempPath);
-          }
-        } catch (err) {
-          console.error('Error cleaning up temp file:', err);
-        }
-      }, 5 * 60 * 1000);
+  handle('media:updateMetadata', async (event, { id, metadata }) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    await db.updateMediaItem(id, userId, encryptFileMetadata(metadata, dataKey));
+    invalidateSearchIndex(userId);
+  });
 
-      return true;
-    } catch (error) {
-      console.error('Error opening file:', error);
-      throw error;
-    }
+  handle('media:updateDate', async (event, { id, date }) => {
+    await db.updateMediaItemDate(id, requireSessionUser(event), date);
   });
 
-  ipcMain.handle('media:updateMetadata', async (_, { id, metadata, userId }) => {
-    try {
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for encryption');
-      }
+  handle('file:updateDate', async (event, { id, date }) => {
+    await db.updateFileItemDate(id, requireSessionUser(event), date);
+  });
 
-      const encryptedMetadata = {
-        ...metadata,
-        title: encryptText(metadata.title, userPassword)
-      };
+  handle('file:updateMetadata', async (event, { id, metadata }) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    await db.updateFileItem(id, userId, encryptFileMetadata(metadata, dataKey));
+    invalidateSearchIndex(userId);
+  });
 
-      await db.updateMediaItem(id, encryptedMetadata);
-      return true;
-    } catch (error) {
-      console.error('Error updating media metadata:', error);
-      throw error;
-    }
+  handle('auth:verifyToken', async (event, { token }) => {
+    return verifySession(token, event.sender);
   });
 
-  ipcMain.handle('media:updateDate', async (_, { id, date }) => {
-    try {
-      await db.updateMediaItemDate(id, date);
-      return true;
-    } catch (error) {
-      console.error('Error updating media date:', error);
-      throw error;
+  handle('auth:refreshToken', async (event, { token }) => {
+    const session = refreshSession(token, event.sender);
+    if (!session) {
+      throw new ForbiddenError('Сессия истекла');
     }
+    return { token: session.token, expiresAt: session.expiresAt };
   });
 
-  ipcMain.handle('file:updateDate', async (_, { id, date }) => {
-    try {
-      await db.updateFileItemDate(id, date);
-      return true;
-    } catch (error) {
-      console.error('Error updating file date:', error);
-      throw error;
+  handle('auth:getUser', async (event) => {
+    const userId = getSessionUser(event.sender);
+    const user = userId ? await db.getUserById(userId) : null;
+    if (!user) {
+      return null;
     }
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name || 'Пользователь'
+    };
   });
 
-  ipcMain.handle('file:updateMetadata', async (_, { id, metadata, userId }) => {
-    try {
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for encryption');
-      }
+  handle('auth:updateUser', async (event, { updates }) => {
+    const userId = requireSessionUser(event);
+
+    const { password, ...profile } = updates;
+    if (password) {
+      // Only the wrapping changes: the data key and everything encrypted with it stay the same
+      const dataKey = requireDataKey(userId);
+      await db.updateUser(userId, {
+        ...profile,
+        passwordHash: await hashPassword(password),
+        encryptedKey: await wrapDataKey(dataKey, password)
+      });
+    } else {
+      await db.updateUser(userId, profile);
+    }
+  });
 
-      const encryptedMetadata = {
-        ...metadata,
-        title: encryptText(metadata.title, userPassword)
-      };
+  handle('auth:logout', async (event, { token }) => {
+    // Clear encryption key for this user and end the session.
+    // The user comes from the window, so an expired or missing token still wipes the key.
+    const userId = endWindowSessions(event.sender);
+    if (userId) {
+      untrackUser(userId);
+      await recordAudit(db, userId, 'logout');
+    }
+    if (token) {
+      revokeSession(token);
+    }
 
-      await db.updateFileItem(id, encryptedMetadata);
-      return true;
-    } catch (error) {
-      console.error('Error updating file metadata:', error);
-      throw error;
+    const windows = BrowserWindow.getAllWindows();
+    for (const win of windows) {
+      await win.webContents.executeJavaScript('localStorage.clear();', true);
     }
   });
 
-  ipcMain.handle('auth:verifyToken', async (_, { token }) => {
-    try {
-      const user = await db.getUserById(token);
-      return user ? user.id : null;
-    } catch (error) {
-      console.error('Error verifying token:', error);
-      return null;
+  // Two-factor authentication handlers
+  handle('twoFactor:status', async (event) => {
+    const userId = requireSessionUser(event);
+    return getTwoFactorStatus(db, userId, requireDataKey(userId));
+  });
+
+  handle('twoFactor:beginSetup', async (event) => {
+    const user = await db.getUserById(requireSessionUser(event));
+    if (!user) {
+      throw new AppError('NOT_FOUND', 'Пользователь не найден');
     }
+    return beginEnrolment(user.id, user.email);
   });
 
-  ipcMain.handle('auth:getUser', async (_, { userId }) => {
-    try {
-      const user = await db.getUserById(userId);
-      if (user) {
-        return {
-          id: user.id,
-          email: user.email,
-          name: user.name || 'Пользователь'
-        };
-      }
-      return null;
-    } catch (error) {
-      console.error('Error getting user:', error);
-      return null;
+  handle('twoFactor:confirmSetup', async (event, { code }) => {
+    const userId = requireSessionUser(event);
+    return { backupCodes: await confirmEnrolment(db, userId, requireDataKey(userId), code) };
+  });
+
+  handle('twoFactor:disable', async (event, { password }) => {
+    const user = await db.getUserById(requireSessionUser(event));
+    if (!user) {
+      throw new AppError('NOT_FOUND', 'Пользователь не найден');
     }
+
+    await serializeAttempts(user.id, async () => {
+      await checkPassword(user, password, 'disable-2fa');
+      await recordPasswordSuccess(db, user.id);
+    });
+    await disableTwoFactor(db, user.id);
   });
 
-  ipcMain.handle('auth:updateUser', async (_, { userId, updates }) => {
-    try {
-      const user = await db.getUserById(userId);
-      if (!user) {
-        return { success: false, error: 'User not found' };
-      }
+  handle('audit:list', async (event, filter) => {
+    const userId = requireSessionUser(event);
+    return listAuditEntries(db, userId, requireDataKey(userId), filter);
+  });
+
+  // Vault lock handlers
+  handle('vault:lock', async (event) => {
+    lockUser(requireSessionUser(event), 'manual');
+  });
 
-      await db.updateUser(userId, updates);
-      return { success: true };
-    } catch (error: any) {
-      console.error('Error updating user:', error);
-      return { success: false, error: error?.message || 'Unknown error' };
+  handle('vault:unlock', async (event, { password }) => {
+    const user = await db.getUserById(requireSessionUser(event));
+    if (!user || !user.encrypted_key) {
+      throw new AppError('NOT_FOUND', 'Пользователь не найден');
     }
+
+    await serializeAttempts(user.id, async () => {
+      await checkPassword(user, password, 'unlock');
+      await recordPasswordSuccess(db, user.id);
+    });
+
+    await unlockSession(user.id, await unwrapDataKey(user.encrypted_key, password));
+    await recordAudit(db, user.id, 'login', { source: 'unlock' });
   });
 
-  ipcMain.handle('auth:logout', async (_, { userId }) => {
-    try {
-      // Clear encryption key for this user
-      if (userId) {
-        clearUserEncryptionKey(userId);
-      }
+  handle('vault:getAutoLockTimeout', async (event) => {
+    return getAutoLockMinutes(requireSessionUser(event));
+  });
 
-      const windows = BrowserWindow.getAllWindows();
-      for (const win of windows) {
-        await win.webContents.executeJavaScript('localStorage.clear();', true);
-      }
-      return { success: true };
-    } catch (error) {
-      console.error('Error during logout:', error);
-      return { success: false, error: 'Ошибка при выходе из системы' };
+  handle('vault:setAutoLockTimeout', async (event, { minutes }) => {
+    const userId = requireSessionUser(event);
+    await db.setUserSetting(userId, 'autoLockMinutes', String(minutes));
+    setAutoLockTimeout(userId, minutes);
+  });
+
+  // Integrity check handlers
+  handle('integrity:check', async (event) => {
+    const userId = requireSessionUser(event);
+    const report = await checkIntegrity(db, userId, requireDataKey(userId));
+    log.info('Integrity check finished', { issues: report.issues.length });
+    return report;
+  });
+
+  handle('integrity:quarantine', async (event, { kind, id }) => {
+    const userId = requireSessionUser(event);
+    const quarantinePath = await quarantineItem(db, userId, kind, id);
+    if (kind === 'file') {
+      revokeFileViewerUrls(userId, id);
     }
+    invalidateSearchIndex(userId);
+    await recordAudit(db, userId, 'deleted', { kind, id, quarantinePath });
+    return { path: quarantinePath };
+  });
+
+  handle('integrity:relink', async (event, { fileId, blobPath }) => {
+    const userId = requireSessionUser(event);
+    await relinkFile(db, userId, requireDataKey(userId), fileId, blobPath);
+    invalidateSearchIndex(userId);
+  });
+
+  handle('integrity:purgeOrphans', async (event, { paths }) => {
+    const userId = requireSessionUser(event);
+    const removed = await purgeOrphans(db, userId, requireDataKey(userId), paths);
+    await recordAudit(db, userId, 'deleted', { kind: 'orphan-blobs', count: removed });
+    return { removed };
   });
 
   // Profile photo handlers
-  ipcMain.handle('profile:savePhoto', async (_, { userId, photoData }) => {
-    try {
-      const fs = require('fs');
-      const path = require('path');
-      const userDataPath = app.getPath('userData');
-      const profilePhotosDir = path.join(userDataPath, 'profile_photos');
-      
-      // Create directory if it doesn't exist
-      if (!fs.existsSync(profilePhotosDir)) {
-        fs.mkdirSync(profilePhotosDir, { recursive: true });
-      }
-      
-      const photoPath = path.join(profilePhotosDir, `${userId}.jpg`);
-      
-      // Remove data:image/jpeg;base64, prefix if present
-      const base64Data = photoData.replace(/^data:image\/\w+;base64,/, '');
-      fs.writeFileSync(photoPath, base64Data, 'base64');
-      
-      console.log('Profile photo saved to:', photoPath);
-      return { success: true };
-    } catch (error) {
-      console.error('Error saving profile photo:', error);
-      return { success: false, error: 'Ошибка при сохранении фото' };
+  handle('profile:savePhoto', async (event, { photoData }) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+
+    // Remove data:image/jpeg;base64, prefix if present
+    const base64Data = photoData.replace(/^data:image\/\w+;base64,/, '');
+    await saveProfilePhoto(userId, Buffer.from(base64Data, 'base64'), dataKey);
+  });
+
+  handle('profile:loadPhoto', async (event) => {
+    const userId = requireSessionUser(event);
+    const dataKey = getUserEncryptionKey(userId);
+    if (!dataKey) {
+      return null;
     }
+
+    const photo = await loadProfilePhoto(userId, dataKey);
+    return photo ? `data:image/jpeg;base64,${photo.toString('base64')}` : null;
   });
 
-  ipcMain.handle('profile:loadPhoto', async (_, { userId }) => {
+  // Logging; the preload script has no file access and sends its records here
+  handle('log:write', async (_, { level, scope, message, data }) => {
+    let parsed: Record<string, unknown> | undefined;
     try {
-      const fs = require('fs');
-      const path = require('path');
-      const userDataPath = app.getPath('userData');
-      const photoPath = path.join(userDataPath, 'profile_photos', `${userId}.jpg`);
-      
-      if (fs.existsSync(photoPath)) {
-        const photoData = fs.readFileSync(photoPath, 'base64');
-        const dataUrl = `data:image/jpeg;base64,${photoData}`;
-        console.log('Profile photo loaded from:', photoPath);
-        return { success: true, photoData: dataUrl };
-      }
-      
-      return { success: false };
-    } catch (error) {
-      console.error('Error loading profile photo:', error);
-      return { success: false };
+      parsed = data ? JSON.parse(data) : undefined;
+    } catch {
+      parsed = { data: '[unparsable]' };
     }
+    writeForeignRecord({ level, scope: `renderer:${scope}`, message, data: parsed });
   });
 
-  ipcMain.handle('dialog:showConfirm', async (event, { title, message, buttons }) => {
-    try {
-      const { dialog } = require('electron');
-      const mainWindow = BrowserWindow.fromWebContents(event.sender);
-      if (!mainWindow) return buttons[1]; // Return "No" if no window
-
-      const { response } = await dialog.showMessageBox(mainWindow, {
-        type: 'warning',
-        title: title,
-        message: message,
-        buttons: buttons,
-        defaultId: 1,
-        cancelId: 1,
-      });
-      return buttons[response];
-    } catch (error) {
-      console.error('Error showing confirm dialog:', error);
-      return buttons[1]; // Return "No" on error
+  handle('log:getLevel', async (event) => {
+    requireSessionUser(event);
+    return getLogLevel();
+  });
+
+  handle('log:setLevel', async (event, { level }) => {
+    requireSessionUser(event);
+    setLogLevel(level);
+  });
+
+  handle('dialog:showConfirm', async (event, { title, message, buttons }) => {
+    const { dialog } = require('electron');
+    const mainWindow = BrowserWindow.fromWebContents(event.sender);
+    if (!mainWindow) return buttons[1]; // Return "No" if no window
+
+    const { response } = await dialog.showMessageBox(mainWindow, {
+      type: 'warning',
+      title: title,
+      message: message,
+      buttons: buttons,
+      defaultId: 1,
+      cancelId: 1,
+    });
+    return buttons[response];
+  });
+
+  // Tag handlers
+  handle('tag:list', async (event) => {
+    const userId = requireSessionUser(event);
+    return listTags(db, userId, requireDataKey(userId));
+  });
+
+  handle('tag:set', async (event, { kind, id, names }) => {
+    const userId = requireSessionUser(event);
+    await setItemTags(db, userId, requireDataKey(userId), kind, id, names);
+    invalidateSearchIndex(userId);
+  });
+
+  // Search handlers
+  handle('search:query', async (event, { query, limit }) => {
+    const userId = requireSessionUser(event);
+    return searchItems(db, userId, requireDataKey(userId), query, limit);
+  });
+
+  // Trash handlers
+  handle('trash:list', async (event) => {
+    const userId = requireSessionUser(event);
+    const dataKey = requireDataKey(userId);
+    return {
+      diaryEntries: decryptDiaryEntries(await db.getTrashedDiaryEntries(userId), dataKey),
+      files: decryptFileItems(await db.getTrashedFileItems(userId), dataKey),
+      retentionDays: await getTrashRetentionDays(db, userId)
+    };
+  });
+
+  handle('trash:restore', async (event, { kind, id }) => {
+    const userId = requireSessionUser(event);
+    if (kind === 'diary') {
+      await db.restoreDiaryEntry(id, userId);
+    } else {
+      await db.restoreFileItem(id, userId);
     }
+    invalidateSearchIndex(userId);
+    await recordAudit(db, userId, 'restored', { kind, id });
   });
 
-  ipcMain.handle('database:backup', async (event) => {
-    try {
-      const { dialog } = require('electron');
-      const fs = require('fs');
-      
-      const mainWindow = BrowserWindow.fromWebContents(event.sender);
-      if (!mainWindow) return { success: false, error: 'No window found' };
-
-      const { filePath } = await dialog.showSaveDialog(mainWindow, {
-        title: 'Сохранить бэкап базы данных',
-        defaultPath: `anamneon-backup-${new Date().toISOString().split('T')[0]}.anm`,
-        filters: [
-          { name: 'Anamneon Backup', extensions: ['anm'] }
-        ]
-      });
+  handle('trash:delete', async (event, { kind, id }) => {
+    await purgeTrashedItem(db, requireSessionUser(event), kind, id);
+  });
 
-      if (!filePath) {
-        return { success: false, cancelled: true };
-      }
+  handle('trash:empty', async (event) => {
+    return { removed: await emptyTrash(db, requireSessionUser(event)) };
+  });
 
-      // Copy database file
-      const dbPath = db.getDatabasePath();
-      fs.copyFileSync(dbPath, filePath);
+  handle('trash:setRetention', async (event, { days }) => {
+    const userId = requireSessionUser(event);
+    await db.setUserSetting(userId, 'trashRetentionDays', String(days));
+    await purgeExpiredTrash(db, userId);
+  });
+
+  handle('database:backup', async (event) => {
+    const userId = requireSessionUser(event);
+    const { dialog } = require('electron');
+    const fs = require('fs');
+
+    const { filePath } = await dialog.showSaveDialog(requireWindow(event), {
+      title: 'Сохранить бэкап базы данных',
+      defaultPath: `anamneon-backup-${new Date().toISOString().split('T')[0]}.anm`,
+      filters: [
+        { name: 'Anamneon Backup', extensions: ['anm'] }
+      ]
+    });
 
-      return { success: true, filePath };
-    } catch (error: any) {
-      console.error('Error creating backup:', error);
-      return { success: false, error: error?.message || 'Unknown error' };
+    if (!filePath) {
+      return { cancelled: true };
     }
+
+    // Copy database file
+    const dbPath = db.getDatabasePath();
+    fs.copyFileSync(dbPath, filePath);
+    await recordAudit(db, userId, 'backup', { filePath });
+
+    return { cancelled: false, filePath };
   });
 
-  ipcMain.handle('database:restore', async (event) => {
-    try {
-      const { dialog } = require('electron');
-      const fs = require('fs');
-      
-      const mainWindow = BrowserWindow.fromWebContents(event.sender);
-      if (!mainWindow) return { success: false, error: 'No window found' };
-
-      const { filePaths } = await dialog.showOpenDialog(mainWindow, {
-        title: 'Выберите файл бэкапа',
-        filters: [
-          { name: 'Anamneon Backup', extensions: ['anm'] }
-        ],
-        properties: ['openFile']
-      });
+  handle('database:restore', async (event) => {
+    const userId = requireSessionUser(event);
+    const { dialog } = require('electron');
+    const fs = require('fs');
+
+    const mainWindow = requireWindow(event);
+    const { filePaths } = await dialog.showOpenDialog(mainWindow, {
+      title: 'Выберите файл бэкапа',
+      filters: [
+        { name: 'Anamneon Backup', extensions: ['anm'] }
+      ],
+      properties: ['openFile']
+    });
 
-      if (!filePaths || filePaths.length === 0) {
-        return { success: false, cancelled: true };
-      }
+    if (!filePaths || filePaths.length === 0) {
+      return { cancelled: true };
+    }
 
-      const backupPath = filePaths[0];
-      
-      // Show confirmation dialog
-      const { response } = await dialog.showMessageBox(mainWindow, {
-        type: 'warning',
-        title: 'Подтверждение восстановления',
-        message: 'Вы уверены, что хотите восстановить бэкап? Текущие данные будут потеряны!',
-        buttons: ['Да', 'Нет'],
-        defaultId: 1,
-        cancelId: 1,
-      });
+    const backupPath = filePaths[0];
 
-      if (response !== 0) {
-        return { success: false, cancelled: true };
-      }
+    // Show confirmation dialog
+    const { response } = await dialog.showMessageBox(mainWindow, {
+      type: 'warning',
+      title: 'Подтверждение восстановления',
+      message: 'Вы уверены, что хотите восстановить бэкап? Текущие данные будут потеряны!',
+      buttons: ['Да', 'Нет'],
+      defaultId: 1,
+      cancelId: 1,
+    });
 
-      // Close database connection
-      await db.close();
+    if (response !== 0) {
+      return { cancelled: true };
+    }
 
-      // Replace database file
-      const dbPath = db.getDatabasePath();
-      fs.copyFileSync(backupPath, dbPath);
+    // Close database connection
+    await db.close();
 
-      // Reinitialize database
-      await db.initialize();
+    // Replace database file, keeping the current one until the backup has been migrated
+    const dbPath = db.getDatabasePath();
+    const previousPath = `${dbPath}.before-restore`;
+    fs.copyFileSync(dbPath, previousPath);
+    fs.copyFileSync(backupPath, dbPath);
 
-      return { success: true };
-    } catch (error: any) {
-      console.error('Error restoring backup:', error);
-      return { success: false, error: error?.message || 'Unknown error' };
+    // Reinitialize database; this migrates an older backup to the current schema
+    try {
+      await db.initialize();
+    } catch (error) {
+      log.error('Error opening restored backup, keeping the current database', { error });
+      await db.close().catch(() => {});
+      fs.copyFileSync(previousPath, dbPath);
+      await db.initialize();
+      throw new AppError('INVALID_REQUEST', 'Не удалось открыть файл бэкапа');
+    } finally {
+      fs.rmSync(previousPath, { force: true });
     }
+    invalidateSearchIndex(userId);
+    // Written to the restored log, which is the one kept from now on
+    await recordAudit(db, userId, 'restore', { backupPath });
+
+    return { cancelled: false };
   });
 
-  ipcMain.handle('database:exportForAI', async (event, { userId }) => {
+  handle('database:exportForAI', async (event) => {
     try {
+      const userId = requireSessionUser(event);
+      const dataKey = requireDataKey(userId);
       const { dialog } = require('electron');
-      const fs = require('fs');
       const path = require('path');
-      const crypto = require('crypto');
       
-      const mainWindow = BrowserWindow.fromWebContents(event.sender);
-      if (!mainWindow) return { success: false, error: 'No window found' };
-
       // Выбор папки для экспорта
-      const { filePaths } = await dialog.showOpenDialog(mainWindow, {
+      const { filePaths } = await dialog.showOpenDialog(requireWindow(event), {
         title: 'Выберите папку для экспорта',
         properties: ['openDirectory', 'createDirectory']
       });
 
       if (!filePaths || filePaths.length === 0) {
-        return { success: false, cancelled: true };
+        return { cancelled: true };
       }
 
       const baseDir = filePaths[0];
       const exportDir = path.join(baseDir, `AnamneonExport_v1_${new Date().toISOString().split('T')[0]}`);
-      
-      // Создаём структуру папок
-      const dirs = [
-        exportDir,
-        path.join(exportDir, 'diary', 'text'),
-        path.join(exportDir, 'diary', 'audio'),
-        path.join(exportDir, 'media', 'photo'),
-        path.join(exportDir, 'media', 'video'),
-        path.join(exportDir, 'files', 'pdf'),
-        path.join(exportDir, 'files', 'docx'),
-        path.join(exportDir, 'files', 'spreadsheet'),
-        path.join(exportDir, 'schema')
-      ];
-
-      for (const dir of dirs) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-
-      const userPassword = getUserEncryptionKey(userId);
-      if (!userPassword) {
-        throw new Error('User not authenticated for decryption');
-      }
 
-      // Получаем все данные
-      const diaryEntries = await db.getDiaryEntries(userId);
-      const mediaItems = await db.getMediaItems(userId);
-      const fileItems = await db.getFileItems(userId);
-
-      const objectsJsonl: string[] = [];
-      let totalCount = 0;
-
-      // Экспорт дневников
-      for (const entry of diaryEntries) {
-        try {
-          const decryptedTitle = decryptText(entry.title, userPassword);
-          const decryptedContent = decryptText(entry.content, userPassword);
-          
-          const dateStr = new Date(entry.createdAt).toISOString().split('T')[0];
-          const textFileName = `${dateStr}_${entry.id}.json`;
-          const textPath = path.join(exportDir, 'diary', 'text', textFileName);
-          
-          // Сохраняем текст дневника
-          fs.writeFileSync(textPath, JSON.stringify({
-            uuid: entry.id,
-            date: dateStr,
-            title: decryptedTitle,
-            content: decryptedContent,
-            created_at: entry.createdAt,
-            updated_at: entry.updatedAt
-          }, null, 2), 'utf-8');
-
-          // Добавляем в objects.jsonl
-          const summary = decryptedContent.substring(0, 100) + (decryptedContent.length > 100 ? '...' : '');
-          objectsJsonl.push(JSON.stringify({
-            uuid: entry.id,
-            type: 'diary',
-            subtype: 'text',
-            date: dateStr,
-            text_path: `diary/text/${textFileName}`,
-            title: decryptedTitle,
-            summary: summary,
-            tags: [],
-            created_at: entry.createdAt,
-            updated_at: entry.updatedAt
-          }));
-          
-          totalCount++;
-        } catch (error) {
-          console.error('Error exporting diary entry:', entry.id, error);
-        }
-      }
+      // Получаем все данные; расшифровка и запись файлов идут в воркере
+      const input = {
+        exportDir,
+        userId,
+        diaryEntries: await db.getDiaryEntries(userId),
+        mediaItems: await db.getMediaItems(userId),
+        fileItems: await db.getFileItems(userId),
+        tags: await loadItemTags(db, userId, dataKey)
+      };
 
-      // Экспорт медиа
-      for (const item of mediaItems) {
-        try {
-          const metadata = typeof item.metadata === 'string' ? JSON.parse(item.metadata) : item.metadata;
-          const decryptedTitle = decryptText(metadata.title, userPassword);
-          
-          // Определяем папку по типу
-          const mediaTypeDir = item.type === 'photo' ? 'photo' : item.type === 'video' ? 'video' : 'audio';
-          // Извлекаем расширение: убираем .enc, затем берём расширение
-          const pathWithoutEnc = item.path.replace('.enc', '');
-          const ext = path.extname(pathWithoutEnc);
-          const fileName = `${item.id}${ext}`;
-          const targetPath = path.join(exportDir, 'media', mediaTypeDir, fileName);
-          
-          // Расшифровываем и копируем файл
-          if (fs.existsSync(item.path)) {
-            const tempDecrypted = item.path.replace('.enc', '.tmp');
-            await decryptFile(item.path, tempDecrypted, userPassword);
-            fs.copyFileSync(tempDecrypted, targetPath);
-            fs.unlinkSync(tempDecrypted);
-
-            // Вычисляем хэш
-            const fileBuffer = fs.readFileSync(targetPath);
-            const hashSum = crypto.createHash('sha256');
-            hashSum.update(fileBuffer);
-            const fileHash = hashSum.digest('hex');
-
-            // Добавляем в objects.jsonl
-            const dateStr = new Date(item.createdAt).toISOString().split('T')[0];
-            objectsJsonl.push(JSON.stringify({
-              uuid: item.id,
-              type: 'media',
-              subtype: item.type,
-              date: dateStr,
-              title: decryptedTitle,
-              file_path: `media/${mediaTypeDir}/${fileName}`,
-              hash: { algo: 'sha256', value: fileHash },
-              created_at: item.createdAt,
-              updated_at: item.createdAt,
-              tags: []
-            }));
-            
-            totalCount++;
-          }
-        } catch (error) {
-          console.error('Error exporting media item:', item.id, error);
+      let result;
+      try {
+        result = await runWithProgress(event.sender, userId, 'export', options =>
+          runTask('exportForAI', { ...input, key: dataKey }, options)
+        );
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          return { cancelled: true };
         }
+        throw error;
       }
 
-      // Экспорт файлов
-      for (const item of fileItems) {
-        try {
-          const metadata = typeof item.metadata === 'string' ? JSON.parse(item.metadata) : item.metadata;
-          const decryptedTitle = decryptText(metadata.title, userPassword);
-          
-          // Определяем папку по типу файла
-          let fileTypeDir = 'other';
-          if (item.type === 'pdf') fileTypeDir = 'pdf';
-          else if (item.type === 'docx' || item.type === 'txt') fileTypeDir = 'docx';
-          else if (item.type === 'spreadsheet') fileTypeDir = 'spreadsheet';
-          
-          // Извлекаем расширение: убираем .enc, затем берём расширение
-          const pathWithoutEnc = item.path.replace('.enc', '');
-          const ext = path.extname(pathWithoutEnc);
-          const fileName = `${item.id}${ext}`;
-          const targetPath = path.join(exportDir, 'files', fileTypeDir, fileName);
-          
-          // Расшифровываем и копируем файл
-          if (fs.existsSync(item.path)) {
-            const tempDecrypted = item.path.replace('.enc', '.tmp');
-            await decryptFile(item.path, tempDecrypted, userPassword);
-            fs.copyFileSync(tempDecrypted, targetPath);
-            fs.unlinkSync(tempDecrypted);
-
-            // Вычисляем хэш
-            const fileBuffer = fs.readFileSync(targetPath);
-            const hashSum = crypto.createHash('sha256');
-            hashSum.update(fileBuffer);
-            const fileHash = hashSum.digest('hex');
-
-            // Добавляем в objects.jsonl
-            const dateStr = new Date(item.createdAt).toISOString().split('T')[0];
-            objectsJsonl.push(JSON.stringify({
-              uuid: item.id,
-              type: 'file',
-              subtype: item.type,
-              date: dateStr,
-              title: decryptedTitle,
-              file_path: `files/${fileTypeDir}/${fileName}`,
-              hash: { algo: 'sha256', value: fileHash },
-              created_at: item.createdAt,
-              updated_at: item.createdAt,
-              tags: []
-            }));
-            
-            totalCount++;
-          }
-        } catch (error) {
-          console.error('Error exporting file item:', item.id, error);
-        }
+      for (const { kind, id, error } of result.failed) {
+        log.error('Error exporting item', { kind, id, error });
       }
 
-      // Сохраняем objects.jsonl
-      fs.writeFileSync(
-        path.join(exportDir, 'objects.jsonl'),
-        objectsJsonl.join('\n'),
-        'utf-8'
-      );
-
-      // Создаём manifest.json
-      const manifest = {
-        version: '1.0',
-        export_date: new Date().toISOString(),
-        user_id: userId,
-        total_records: totalCount,
-        record_types: {
-          diary: diaryEntries.length,
-          media: mediaItems.length,
-          files: fileItems.length
-        },
-        description: 'Экспорт данных Anamneon для анализа нейросетями'
-      };
-      
-      fs.writeFileSync(
-        path.join(exportDir, 'manifest.json'),
-        JSON.stringify(manifest, null, 2),
-        'utf-8'
-      );
-
-      // Создаём схему
-      const schema = {
-        "$schema": "http://json-schema.org/draft-07/schema#",
-        "type": "object",
-        "properties": {
-          "uuid": { "type": "string" },
-          "type": { "enum": ["diary", "media", "file"] },
-          "subtype": { "type": "string" },
-          "date": { "type": "string", "format": "date" },
-          "title": { "type": "string" },
-          "description": { "type": "string" },
-          "file_path": { "type": "string" },
-          "text_path": { "type": "string" },
-          "summary": { "type": "string" },
-          "tags": { "type": "array", "items": { "type": "string" } },
-          "hash": {
-            "type": "object",
-            "properties": {
-              "algo": { "type": "string" },
-              "value": { "type": "string" }
-            }
-          },
-          "created_at": { "type": "string" },
-          "updated_at": { "type": "string" }
-        },
-        "required": ["uuid", "type", "date", "created_at"]
-      };
-      
-      fs.writeFileSync(
-        path.join(exportDir, 'schema', 'object.schema.json'),
-        JSON.stringify(schema, null, 2),
-        'utf-8'
-      );
-
-      return { success: true, path: exportDir, count: totalCount };
-    } catch (error: any) {
-      console.error('Error exporting for AI:', error);
-      return { success: false, error: error?.message || 'Unknown error' };
+      await recordAudit(db, userId, 'export', { path: exportDir, count: result.count });
+      return { cancelled: false, path: exportDir, count: result.count };
+    } catch (error) {
+      log.error('Error exporting for AI', { error });
+      throw error;
     }
   });
+
+  handle('task:cancel', async (event, { taskId }) => {
+    cancelTask(requireSessionUser(event), taskId);
+  });
 }
 
 app.whenReady().then(async () => {
+  initLogging();
+
   // Initialize database
   await db.initialize();
 
@@ -998,13 +1169,30 @@ app.whenReady().then(async () => {
     callback({
       responseHeaders: {
         ...details.responseHeaders,
-        'Content-Security-Policy': ["default-src 'self'; script-src 'self' 'unsafe-eval'; style-src 'self' 'unsafe-inline'; img-src 'self' data:"]
+        'Content-Security-Policy': [
+          "default-src 'self'; script-src 'self' 'unsafe-eval'; style-src 'self' 'unsafe-inline'; " +
+          `img-src 'self' data: ${FILE_PROTOCOL}:; media-src ${FILE_PROTOCOL}:; frame-src ${FILE_PROTOCOL}:; connect-src 'self' ${FILE_PROTOCOL}:`
+        ]
       }
     });
   });
 
-  setupSecureIPC();
+  // Decrypted copies left behind if the app didn't quit cleanly
+  removeExternalFiles();
+
+  // Trash retention doesn't wait for the user to log in
+  for (const userId of await db.getUserIds()) {
+    try {
+      await purgeExpiredTrash(db, userId);
+    } catch (error) {
+      log.error('Error purging expired trash', { userId, error });
+    }
+  }
+
   await setupIPCHandlers();
+  assertAllChannelsHandled();
+  registerFileProtocol();
+  startAutoLock();
   createWindow();
 
   app.on('activate', () => {
@@ -1018,4 +1206,11 @@ app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
   }
-});
\ No newline at end of file
+});
+
+app.on('will-quit', () => {
+  stopAutoLock();
+  clearAllEncryptionKeys();
+  removeExternalFiles();
+  void terminateWorkers();
+});
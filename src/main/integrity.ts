@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import { Database } from '../storage/database';
+import { IntegrityIssue, IntegrityReport } from '../shared/types';
+import { ForbiddenError } from '../shared/errors';
+import { decryptText } from './encryption';
+import { runTask } from './workerPool';
+import { createMediaDirectory, newBlobPath, decryptFileMetadata } from './fileHandlers';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function quarantineDirectory(userId: string): string {
+  return path.join(app.getPath('userData'), 'quarantine', userId);
+}
+
+async function listBlobs(dir: string): Promise<string[]> {
+  if (!fs.existsSync(dir)) return [];
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && entry.name.endsWith('.enc'))
+    .map(entry => path.join(dir, entry.name));
+}
+
+async function opensWithKey(blobPath: string, dataKey: Buffer): Promise<boolean> {
+  try {
+    await runTask('verifyFile', { path: blobPath, key: dataKey });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Blobs on disk that no files row points to.
+ * Blobs in the user's directory are always the user's; blobs left in the shared
+ * media root by older versions are reported only if they open with the user's key.
+ */
+async function findOrphanedBlobs(db: Database, userId: string, dataKey: Buffer): Promise<IntegrityIssue[]> {
+  const referenced = new Set(await db.getAllFilePaths());
+  const userDir = await createMediaDirectory(userId);
+  const mediaRoot = path.dirname(userDir);
+  const orphans: IntegrityIssue[] = [];
+
+  for (const blobPath of await listBlobs(userDir)) {
+    if (referenced.has(blobPath)) continue;
+    orphans.push({ kind: 'orphaned-blob', path: blobPath, decryptable: await opensWithKey(blobPath, dataKey) });
+  }
+
+  for (const blobPath of await listBlobs(mediaRoot)) {
+    if (referenced.has(blobPath)) continue;
+    if (await opensWithKey(blobPath, dataKey)) {
+      orphans.push({ kind: 'orphaned-blob', path: blobPath, decryptable: true });
+    }
+  }
+
+  return orphans;
+}
+
+/**
+ * Decrypt every diary entry and file title, authenticate every chunk of every blob
+ * and look for blobs without a database row. Items in the trash are checked too,
+ * so damage is found before they are restored.
+ */
+export async function checkIntegrity(db: Database, userId: string, dataKey: Buffer): Promise<IntegrityReport> {
+  const issues: IntegrityIssue[] = [];
+
+  const diaryEntries = [...await db.getDiaryEntries(userId), ...await db.getTrashedDiaryEntries(userId)];
+  for (const entry of diaryEntries) {
+    try {
+      decryptText(entry.title, dataKey);
+      decryptText(entry.content, dataKey);
+    } catch (error) {
+      issues.push({ kind: 'undecryptable-entry', itemId: entry.id, trashed: !!entry.deletedAt, error: errorMessage(error) });
+    }
+  }
+
+  const fileItems = [...await db.getFileItems(userId), ...await db.getTrashedFileItems(userId)];
+  let blobs = 0;
+  for (const item of fileItems) {
+    const trashed = !!item.deletedAt;
+    let title: string | undefined;
+    try {
+      const metadata = decryptFileMetadata(item.metadata || {}, dataKey);
+      title = metadata.title;
+    } catch (error) {
+      issues.push({ kind: 'undecryptable-file', itemId: item.id, path: item.path, trashed, error: errorMessage(error) });
+    }
+
+    if (!fs.existsSync(item.path)) {
+      issues.push({ kind: 'missing-blob', itemId: item.id, path: item.path, title, trashed });
+      continue;
+    }
+
+    blobs++;
+    try {
+      await runTask('verifyFile', { path: item.path, key: dataKey });
+    } catch (error) {
+      issues.push({ kind: 'corrupt-blob', itemId: item.id, path: item.path, title, trashed, error: errorMessage(error) });
+    }
+  }
+
+  const orphans = await findOrphanedBlobs(db, userId, dataKey);
+  issues.push(...orphans);
+
+  return {
+    checkedAt: new Date().toISOString(),
+    diaryEntries: diaryEntries.length,
+    files: fileItems.length,
+    blobs: blobs + orphans.length,
+    issues
+  };
+}
+
+/**
+ * Move a damaged diary entry or file out of the vault.
+ * The row is saved as JSON (still encrypted) and the blob is moved next to it,
+ * so nothing is destroyed and the data can be examined later.
+ */
+export async function quarantineItem(db: Database, userId: string, kind: 'diary' | 'file', id: string): Promise<string> {
+  const dir = quarantineDirectory(userId);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const prefix = path.join(dir, `${Date.now()}-${kind}-${id}`);
+
+  if (kind === 'diary') {
+    const entry = await db.getDiaryEntry(id, userId);
+    if (!entry) throw new ForbiddenError();
+
+    await fs.promises.writeFile(`${prefix}.json`, JSON.stringify(entry, null, 2));
+    await db.deleteDiaryEntry(id, userId);
+    return dir;
+  }
+
+  const item = await db.getFileItem(id, userId);
+  if (!item) throw new ForbiddenError();
+
+  if (fs.existsSync(item.path)) {
+    await fs.promises.rename(item.path, `${prefix}.enc`);
+  }
+  await fs.promises.writeFile(`${prefix}.json`, JSON.stringify(item, null, 2));
+  await db.deleteFileItem(id, userId);
+  return dir;
+}
+
+/**
+ * Point a file whose blob is missing at an orphaned blob that opens with the user's key
+ */
+export async function relinkFile(db: Database, userId: string, dataKey: Buffer, fileId: string, blobPath: string): Promise<void> {
+  const item = await db.getFileItem(fileId, userId);
+  if (!item) throw new ForbiddenError();
+  if (fs.existsSync(item.path)) throw new Error('File blob is not missing');
+
+  const orphans = await findOrphanedBlobs(db, userId, dataKey);
+  const orphan = orphans.find(issue => issue.path === blobPath);
+  if (!orphan || !orphan.decryptable) {
+    throw new Error('Blob is not an orphan of this user');
+  }
+
+  // Blobs from the shared media root get a fresh name in the user's directory
+  const userDir = await createMediaDirectory(userId);
+  const targetPath = path.dirname(blobPath) === userDir ? blobPath : newBlobPath(userDir);
+  if (targetPath !== blobPath) {
+    await fs.promises.rename(blobPath, targetPath);
+  }
+  await db.updateFilePath(fileId, userId, targetPath);
+}
+
+/**
+ * Delete orphaned blobs. Paths are checked again, so a blob that is referenced
+ * by a row (or isn't the user's) is never removed.
+ */
+export async function purgeOrphans(db: Database, userId: string, dataKey: Buffer, paths: string[]): Promise<number> {
+  const orphans = new Set((await findOrphanedBlobs(db, userId, dataKey)).map(issue => issue.path));
+  let removed = 0;
+  for (const blobPath of paths) {
+    if (!orphans.has(blobPath)) continue;
+    await fs.promises.rm(blobPath, { force: true });
+    removed++;
+  }
+  return removed;
+}
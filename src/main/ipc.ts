@@ -0,0 +1,66 @@
+import { ipcMain, IpcMainInvokeEvent, WebContents } from 'electron';
+import {
+  ipcContract,
+  IpcChannel,
+  IpcError,
+  IpcEvent,
+  IpcEventPayload,
+  IpcRequest,
+  IpcResponse,
+  IpcResult
+} from '../shared/ipcContract';
+import { AppError, ThrottledError } from '../shared/errors';
+import { getLogger } from './logger';
+
+const log = getLogger('ipc');
+
+type Handler<C extends IpcChannel> = (
+  event: IpcMainInvokeEvent,
+  request: IpcRequest<C>
+) => Promise<IpcResponse<C>> | IpcResponse<C>;
+
+const registered = new Set<IpcChannel>();
+
+function toIpcError(channel: IpcChannel, error: unknown): IpcError {
+  if (error instanceof ThrottledError) {
+    return { code: error.code, message: error.message, retryAt: error.retryAt };
+  }
+  if (error instanceof AppError) {
+    return { code: error.code, message: error.message };
+  }
+  // Unexpected errors may carry paths or other details the renderer has no use for
+  log.error('Error in IPC handler', { channel, error });
+  return { code: 'INTERNAL', message: 'Внутренняя ошибка приложения' };
+}
+
+/**
+ * Register the handler of a contract channel. The payload is validated first;
+ * the result, or the error, is wrapped into an IpcResult.
+ */
+export function handle<C extends IpcChannel>(channel: C, handler: Handler<C>) {
+  const schema = ipcContract[channel].request;
+
+  ipcMain.handle(channel, async (event, payload): Promise<IpcResult<IpcResponse<C>>> => {
+    try {
+      const request = schema.parse(payload) as IpcRequest<C>;
+      return { ok: true, data: await handler(event, request) };
+    } catch (error) {
+      return { ok: false, error: toIpcError(channel, error) };
+    }
+  });
+  registered.add(channel);
+}
+
+/**
+ * Fail at startup instead of at the first call if a channel has no handler
+ */
+export function assertAllChannelsHandled() {
+  const missing = (Object.keys(ipcContract) as IpcChannel[]).filter(channel => !registered.has(channel));
+  if (missing.length > 0) {
+    throw new Error(`IPC channels without a handler: ${missing.join(', ')}`);
+  }
+}
+
+export function sendEvent<E extends IpcEvent>(webContents: WebContents, event: E, payload: IpcEventPayload<E>) {
+  webContents.send(event, payload);
+}
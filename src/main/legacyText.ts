@@ -0,0 +1,66 @@
+import type { EncryptedRow, LegacyEncryptedRows } from '../storage/database';
+import { decryptText, decryptWithPassword, encryptText, textNeedsUpgrade } from './encryption';
+
+// Runs inside worker threads: legacy fields take a 100,000-iteration PBKDF2 each to decrypt
+
+// Encrypted fields inside the file metadata JSON
+const METADATA_FIELDS = ['title', 'fileName'];
+
+/**
+ * Re-encrypt a legacy field with the current format.
+ * Fields that can't be decrypted are kept as is for the integrity check to report.
+ */
+function upgradeField(value: string, dataKey: Buffer): string {
+  if (typeof value !== 'string' || !textNeedsUpgrade(value)) return value;
+  try {
+    return encryptText(decryptText(value, dataKey), dataKey);
+  } catch {
+    return value;
+  }
+}
+
+function upgradeColumns(row: EncryptedRow, dataKey: Buffer): EncryptedRow {
+  const fields: Record<string, string> = {};
+  for (const [column, value] of Object.entries(row.fields)) {
+    fields[column] = upgradeField(value, dataKey);
+  }
+  return { id: row.id, fields };
+}
+
+function upgradeMetadata(row: EncryptedRow, dataKey: Buffer): EncryptedRow {
+  const metadata = JSON.parse(row.fields.metadata);
+  if (!METADATA_FIELDS.some(field => typeof metadata[field] === 'string' && textNeedsUpgrade(metadata[field]))) {
+    return row;
+  }
+  for (const field of METADATA_FIELDS) {
+    if (metadata[field] !== undefined) {
+      metadata[field] = upgradeField(metadata[field], dataKey);
+    }
+  }
+  return { id: row.id, fields: { metadata: JSON.stringify(metadata) } };
+}
+
+/**
+ * The same rows with every legacy text field in the current format
+ */
+export function upgradeLegacyRows(rows: LegacyEncryptedRows, dataKey: Buffer): LegacyEncryptedRows {
+  return {
+    diaryEntries: rows.diaryEntries.map(row => upgradeColumns(row, dataKey)),
+    diaryRevisions: rows.diaryRevisions.map(row => upgradeColumns(row, dataKey)),
+    files: rows.files.map(row => upgradeMetadata(row, dataKey))
+  };
+}
+
+/**
+ * Re-encrypt fields that were encrypted with the password, from before data keys.
+ * Fields that can't be decrypted (already orphaned by an earlier password change) are kept as is.
+ */
+export function reencryptPasswordFields(values: string[], password: string, dataKey: Buffer): string[] {
+  return values.map(value => {
+    try {
+      return encryptText(decryptWithPassword(value, password), dataKey);
+    } catch {
+      return value;
+    }
+  });
+}
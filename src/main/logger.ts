@@ -0,0 +1,93 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { Logger, LogLevel, LogRecord, createLogger, isLogLevel, levelEnabled, redact } from '../shared/logger';
+
+const LOG_FILE = 'anamneon.log';
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_FILES = 5; // anamneon.log and anamneon.log.1 … .4
+const SETTINGS_FILE = 'logging.json';
+const DEFAULT_LEVEL: LogLevel = 'info';
+
+let threshold: LogLevel = DEFAULT_LEVEL;
+
+function logDir(): string {
+  return path.join(app.getPath('userData'), 'logs');
+}
+
+function settingsPath(): string {
+  return path.join(app.getPath('userData'), SETTINGS_FILE);
+}
+
+function rotate(file: string) {
+  for (let index = MAX_FILES - 1; index > 0; index--) {
+    const from = index === 1 ? file : `${file}.${index - 1}`;
+    if (fs.existsSync(from)) {
+      fs.renameSync(from, `${file}.${index}`);
+    }
+  }
+}
+
+/**
+ * Append a record as one JSON line, rotating the file when it grows too large.
+ * Logging must never break the app, so write errors only reach the console.
+ */
+function writeRecord(record: LogRecord) {
+  const line = JSON.stringify(record);
+  const output = record.level === 'error' ? console.error : record.level === 'warn' ? console.warn : console.log;
+  output(`[${record.scope}] ${record.message}`, record.data ?? '');
+
+  try {
+    const dir = logDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, LOG_FILE);
+    if (fs.existsSync(file) && fs.statSync(file).size + line.length > MAX_FILE_SIZE) {
+      rotate(file);
+    }
+    fs.appendFileSync(file, `${line}\n`, 'utf-8');
+  } catch (error) {
+    console.error('Error writing log file:', error);
+  }
+}
+
+export function getLogger(scope: string): Logger {
+  return createLogger(scope, writeRecord, level => levelEnabled(level, threshold));
+}
+
+/**
+ * Records sent by the preload script. They were redacted there already;
+ * this is repeated here since the main process can't rely on the sender.
+ */
+export function writeForeignRecord(record: { level: LogLevel; scope: string; message: string; data?: Record<string, unknown> }) {
+  if (!levelEnabled(record.level, threshold)) return;
+  writeRecord({
+    time: new Date().toISOString(),
+    level: record.level,
+    scope: record.scope,
+    message: record.message,
+    ...(record.data && { data: redact(record.data) as Record<string, unknown> })
+  });
+}
+
+/**
+ * Read the saved verbosity. Called once at startup, before anything is logged.
+ */
+export function initLogging() {
+  try {
+    const { level } = JSON.parse(fs.readFileSync(settingsPath(), 'utf-8'));
+    if (isLogLevel(level)) {
+      threshold = level;
+    }
+  } catch {
+    threshold = DEFAULT_LEVEL;
+  }
+}
+
+export function getLogLevel(): LogLevel {
+  return threshold;
+}
+
+export function setLogLevel(level: LogLevel) {
+  threshold = level;
+  fs.writeFileSync(settingsPath(), JSON.stringify({ level }), 'utf-8');
+}
@@ -0,0 +1,73 @@
+import { Database } from '../storage/database';
+import { ThrottledError } from '../shared/errors';
+import { recordAudit } from './audit';
+
+// Failures allowed before the first lockout
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// Last attempt queued for every account
+const pendingAttempts = new Map<string, Promise<unknown>>();
+
+/**
+ * Lockout after the given number of consecutive failures: 30 s after the 4th,
+ * doubling with every further failure, at most an hour
+ */
+export function lockoutDuration(failedCount: number): number {
+  if (failedCount <= FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failedCount - FREE_ATTEMPTS - 1), MAX_LOCKOUT_MS);
+}
+
+/**
+ * Run the attempts on one account one after another. Password checks take a while in the worker;
+ * run side by side they would all pass the lockout check and overwrite each other's failure count.
+ */
+export async function serializeAttempts<T>(userId: string, attempt: () => Promise<T>): Promise<T> {
+  const previous = pendingAttempts.get(userId) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(attempt);
+  pendingAttempts.set(userId, current);
+  try {
+    return await current;
+  } finally {
+    if (pendingAttempts.get(userId) === current) {
+      pendingAttempts.delete(userId);
+    }
+  }
+}
+
+/**
+ * Refuse a password attempt while the account is locked out.
+ * The refused attempt is audited but does not extend the lockout.
+ */
+export async function assertPasswordAttemptAllowed(db: Database, userId: string, source: string) {
+  const { failedCount, lockedUntil } = await db.getLoginAttempts(userId);
+  if (lockedUntil && lockedUntil > Date.now()) {
+    await recordAudit(db, userId, 'login-failed', { source, reason: 'locked-out', failedCount });
+    throw new ThrottledError(lockedUntil);
+  }
+}
+
+/**
+ * Count a wrong password or second-factor code.
+ * Returns the time the next attempt is allowed, if the account is now locked out.
+ */
+export async function recordPasswordFailure(
+  db: Database,
+  userId: string,
+  source: string,
+  reason: string = 'wrong-password'
+): Promise<number | null> {
+  const { failedCount } = await db.getLoginAttempts(userId);
+  const count = failedCount + 1;
+  const duration = lockoutDuration(count);
+  const lockedUntil = duration ? Date.now() + duration : null;
+
+  await db.setLoginAttempts(userId, count, lockedUntil);
+  await recordAudit(db, userId, 'login-failed', { source, reason, failedCount: count });
+  return lockedUntil;
+}
+
+export async function recordPasswordSuccess(db: Database, userId: string) {
+  await db.clearLoginAttempts(userId);
+}
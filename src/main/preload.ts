@@ -1,53 +1,348 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { DiaryEntry } from '../shared/types';
+import { createIpcBridge } from '../shared/ipcContract';
+import { createLogger } from '../shared/logger';
+import { FileItem } from '../shared/types';
+import { diffWords } from '../shared/diff';
+
+// The bridge is generated from the shared contract; every call resolves to { ok, data } or { ok, error }
+const bridge = createIpcBridge(
+  (channel, request) => ipcRenderer.invoke(channel, request),
+  (event, listener) => {
+    const handler = (_: unknown, payload: unknown) => listener(payload);
+    ipcRenderer.on(event, handler);
+    return () => {
+      ipcRenderer.removeListener(event, handler);
+    };
+  }
+);
+
+// The preload has no file access: records are redacted here and written by the main process
+const log = createLogger('preload', ({ level, scope, message, data }) => {
+  bridge.log.write({ level, scope, message, data: data && JSON.stringify(data) }).catch(() => {});
+});
+
+// Отрисовка изменений между двумя версиями текста
+const renderDiff = (before: string, after: string): HTMLDivElement => {
+  const container = document.createElement('div');
+  container.style.cssText = `
+    white-space: pre-wrap;
+    word-break: break-word;
+    font-size: 14px;
+  `;
+  for (const part of diffWords(before, after)) {
+    const span = document.createElement('span');
+    span.textContent = part.text;
+    if (part.type === 'added') {
+      span.style.cssText = 'background-color: #d4edda; color: #155724;';
+    } else if (part.type === 'removed') {
+      span.style.cssText = 'background-color: #f8d7da; color: #721c24; text-decoration: line-through;';
+    }
+    container.appendChild(span);
+  }
+  return container;
+};
+
+// Панель истории изменений записи: каждая версия сравнивается со следующей за ней
+const createRevisionHistoryPanel = async (
+  entryId: string,
+  getCurrent: () => { title: string; content: string },
+  onRestore: (version: { title: string; content: string }) => void
+): Promise<HTMLDivElement> => {
+  const panel = document.createElement('div');
+  panel.style.cssText = `
+    margin-bottom: 15px;
+    padding: 12px;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+    background: #fafafa;
+  `;
+
+  const result = await bridge.diary.getRevisions({ id: entryId });
+  if (!result.ok) {
+    log.error('Error loading revisions', { error: result.error });
+    panel.textContent = 'Не удалось загрузить историю изменений';
+    return panel;
+  }
+  const revisions = result.data;
+  if (revisions.length === 0) {
+    panel.textContent = 'Запись ещё не изменялась';
+    return panel;
+  }
+
+  const versionSelect = document.createElement('select');
+  versionSelect.style.cssText = `
+    width: 100%;
+    padding: 8px;
+    margin-bottom: 10px;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+    font-size: 14px;
+    background-color: white;
+  `;
+  revisions.forEach((revision, index) => {
+    const option = document.createElement('option');
+    option.value = String(index);
+    option.textContent = `Версия от ${new Date(revision.savedAt).toLocaleString()} (заменена ${new Date(revision.replacedAt).toLocaleString()})`;
+    versionSelect.appendChild(option);
+  });
+
+  const diffContainer = document.createElement('div');
+  diffContainer.style.cssText = `
+    max-height: 250px;
+    overflow-y: auto;
+    padding: 8px;
+    margin-bottom: 10px;
+    background: white;
+    border: 1px solid #eee;
+    border-radius: 4px;
+  `;
+
+  const showDiff = () => {
+    const index = Number(versionSelect.value);
+    const revision = revisions[index];
+    // Версии идут от новых к старым; за самой новой следует текущий текст формы
+    const next = index > 0 ? revisions[index - 1] : getCurrent();
+
+    const titleDiff = renderDiff(revision.title, next.title);
+    titleDiff.style.fontWeight = 'bold';
+    titleDiff.style.marginBottom = '8px';
+    diffContainer.replaceChildren(titleDiff, renderDiff(revision.content, next.content));
+  };
+  versionSelect.addEventListener('change', showDiff);
+
+  const restoreButton = document.createElement('button');
+  restoreButton.textContent = 'Вернуть эту версию';
+  restoreButton.style.cssText = `
+    padding: 6px 12px;
+    background-color: #17a2b8;
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+  `;
+  restoreButton.addEventListener('click', () => {
+    const revision = revisions[Number(versionSelect.value)];
+    onRestore({ title: revision.title, content: revision.content });
+    showDiff();
+  });
+
+  const hint = document.createElement('div');
+  hint.textContent = 'Версия подставляется в форму. Текущий текст попадёт в историю, когда вы нажмёте «Сохранить».';
+  hint.style.cssText = `
+    margin-top: 8px;
+    color: #666;
+    font-size: 12px;
+  `;
+
+  panel.appendChild(versionSelect);
+  panel.appendChild(diffContainer);
+  panel.appendChild(restoreButton);
+  panel.appendChild(hint);
+  showDiff();
+  return panel;
+};
+
+// Поле тегов через запятую с подсказками из уже существующих тегов
+const createTagField = (initialTags: string[] = []): { element: HTMLDivElement; getTags: () => string[] } => {
+  const container = document.createElement('div');
+  container.style.marginBottom = '15px';
+
+  const label = document.createElement('label');
+  label.textContent = 'Теги';
+  label.style.cssText = `
+    display: block;
+    margin-bottom: 5px;
+    font-weight: bold;
+  `;
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.value = initialTags.join(', ');
+  input.placeholder = 'Через запятую, например: давление, кардиолог';
+  input.style.cssText = `
+    width: 100%;
+    padding: 8px;
+    box-sizing: border-box;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+  `;
+
+  const getTags = () => input.value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+
+  const suggestions = document.createElement('div');
+  suggestions.style.cssText = `
+    display: flex;
+    flex-wrap: wrap;
+    gap: 6px;
+    margin-top: 6px;
+  `;
+
+  bridge.tag.list().then(result => {
+    if (!result.ok) {
+      log.error('Error loading tags', { error: result.error });
+      return;
+    }
+    for (const tag of result.data) {
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.textContent = tag.name;
+      chip.style.cssText = `
+        padding: 2px 8px;
+        background-color: #e7f1ff;
+        color: #0b5ed7;
+        border: none;
+        border-radius: 10px;
+        cursor: pointer;
+        font-size: 12px;
+      `;
+      chip.addEventListener('click', () => {
+        const tags = getTags();
+        if (!tags.some(existing => existing.toLowerCase() === tag.name.toLowerCase())) {
+          input.value = [...tags, tag.name].join(', ');
+        }
+      });
+      suggestions.appendChild(chip);
+    }
+  });
+
+  container.appendChild(label);
+  container.appendChild(input);
+  container.appendChild(suggestions);
+  return { element: container, getTags };
+};
+
+const fileTypeLabels: Record<FileItem['type'], string> = {
+  photo: 'Фото',
+  video: 'Видео',
+  audio: 'Аудио',
+  pdf: 'PDF',
+  txt: 'Текст',
+  docx: 'Документ',
+  spreadsheet: 'Таблица'
+};
+
+// Выбор нескольких файлов: список с флажками и поиском по названию
+const createFilePicker = (files: FileItem[], selectedIds: string[] = []): {
+  element: HTMLDivElement;
+  getSelected: () => string[];
+  setInvalid: (invalid: boolean) => void;
+} => {
+  const selected = new Set(selectedIds);
+
+  const container = document.createElement('div');
+
+  const searchInput = document.createElement('input');
+  searchInput.type = 'text';
+  searchInput.placeholder = 'Поиск по названию...';
+  searchInput.style.cssText = `
+    width: 100%;
+    padding: 8px;
+    margin-bottom: 5px;
+    box-sizing: border-box;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+  `;
+
+  const list = document.createElement('div');
+  list.style.cssText = `
+    max-height: 180px;
+    overflow-y: auto;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+  `;
+
+  const summary = document.createElement('div');
+  summary.style.cssText = `
+    margin-top: 5px;
+    color: #666;
+    font-size: 12px;
+  `;
+  const updateSummary = () => {
+    summary.textContent = `Выбрано файлов: ${selected.size}`;
+  };
+
+  const rows = files.map(file => {
+    const row = document.createElement('label');
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 8px;
+      cursor: pointer;
+      font-size: 14px;
+    `;
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = selected.has(file.id);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        selected.add(file.id);
+      } else {
+        selected.delete(file.id);
+      }
+      updateSummary();
+    });
+
+    const title = file.metadata?.title || file.name;
+    const text = document.createElement('span');
+    text.textContent = `[${fileTypeLabels[file.type] || file.type}] ${title} (${new Date(file.createdAt).toLocaleDateString()})`;
+
+    row.appendChild(checkbox);
+    row.appendChild(text);
+    list.appendChild(row);
+    return { row, title: title.toLowerCase() };
+  });
+
+  searchInput.addEventListener('input', () => {
+    const query = searchInput.value.trim().toLowerCase();
+    for (const { row, title } of rows) {
+      row.style.display = !query || title.includes(query) ? 'flex' : 'none';
+    }
+  });
+
+  updateSummary();
+  container.appendChild(searchInput);
+  container.appendChild(list);
+  container.appendChild(summary);
+
+  return {
+    element: container,
+    // Порядок как в списке, а не как выбирали
+    getSelected: () => files.filter(file => selected.has(file.id)).map(file => file.id),
+    setInvalid: (invalid) => {
+      list.style.borderColor = invalid ? 'red' : '#ddd';
+    }
+  };
+};
 
 // Функция для создания модального диалога для текстовой записи
 const createDiaryEntryModal = async (initialData?: { 
+  id?: string;
   title: string; 
   content: string;
   entryMode?: 'standalone' | 'linked';
-  linkedItemType?: 'media' | 'file';
-  linkedItemId?: string;
+  linkedFileIds?: string[];
   customDate?: string;
-}, userId?: string): Promise<{ 
+  tags?: string[];
+}): Promise<{ 
   title: string; 
   content: string; 
   entryMode: 'standalone' | 'linked';
-  linkedItemType?: 'media' | 'file';
-  linkedItemId?: string;
+  linkedFileIds: string[];
   customDate: string;
+  tags: string[];
 } | null> => {
-  // Загружаем список медиа и файлов для выбора
-  let linkableItems: Array<{ id: string; title: string; date: string; type: 'media' | 'file' }> = [];
+  // Загружаем список файлов для выбора (медиа хранятся в той же таблице)
+  let linkableFiles: FileItem[] = [];
   try {
-    if (userId) {
-      const [mediaItems, fileItems] = await Promise.all([
-        ipcRenderer.invoke('media:getAll', { userId }),
-        ipcRenderer.invoke('file:getAll', { userId })
-      ]);
-      
-      console.log('Loaded media items:', mediaItems.length);
-      console.log('Loaded file items:', fileItems.length);
-      
-      linkableItems = [
-        ...mediaItems.map((item: any) => ({
-          id: item.id,
-          title: item.metadata?.title || 'Без названия',
-          date: item.createdAt,
-          type: 'media' as const
-        })),
-        ...fileItems.map((item: any) => ({
-          id: item.id,
-          title: item.metadata?.title || item.name,
-          date: item.createdAt,
-          type: 'file' as const
-        }))
-      ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-      console.log('Total linkable items:', linkableItems.length);
+    const result = await bridge.file.getAll();
+    if (result.ok) {
+      linkableFiles = [...result.data].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      log.debug('Loaded linkable files', { files: linkableFiles.length });
     }
   } catch (error) {
-    console.error('Error loading linkable items:', error);
+    log.error('Error loading linkable files', { error });
   }
 
   return new Promise((resolve) => {
@@ -141,63 +436,18 @@ const createDiaryEntryModal = async (initialData?: {
     `;
 
     const linkedItemLabel = document.createElement('label');
-    linkedItemLabel.textContent = 'Связать с медиа/файлом';
+    linkedItemLabel.textContent = 'Связать с медиа и файлами';
     linkedItemLabel.style.cssText = `
       display: block;
       margin-bottom: 5px;
       font-weight: bold;
     `;
 
-    const linkedItemSelect = document.createElement('select');
-    linkedItemSelect.style.cssText = `
-      width: 100%;
-      padding: 8px;
-      border: 1px solid #ddd;
-      border-radius: 4px;
-      cursor: pointer;
-      font-size: 14px;
-      background-color: white;
-      appearance: auto;
-      -webkit-appearance: menulist;
-      -moz-appearance: menulist;
-    `;
+    const filePicker = createFilePicker(linkableFiles, initialData?.linkedFileIds);
 
-    const defaultOption = document.createElement('option');
-    defaultOption.value = '';
-    if (linkableItems.length === 0) {
-      defaultOption.textContent = 'Нет загруженных медиа и файлов';
-      linkedItemSelect.disabled = true;
-    } else {
-      defaultOption.textContent = '-- Выберите элемент --';
-    }
-    linkedItemSelect.appendChild(defaultOption);
-
-    console.log('Adding linkable items to select:', linkableItems.length);
-    linkableItems.forEach(item => {
-      const option = document.createElement('option');
-      option.value = JSON.stringify({ type: item.type, id: item.id });
-      const typeLabel = item.type === 'media' ? 'Медиа' : 'Файл';
-      const date = new Date(item.date).toLocaleDateString();
-      option.textContent = `[${typeLabel}] ${item.title} (${date})`;
-      linkedItemSelect.appendChild(option);
-      console.log('Added option:', option.textContent);
-    });
-
-    console.log('Total options in select:', linkedItemSelect.options.length);
-
-    // Устанавливаем начальное значение селекта, если запись связанная
-    if (initialData?.entryMode === 'linked' && initialData.linkedItemType && initialData.linkedItemId) {
-      const initialValue = JSON.stringify({ 
-        type: initialData.linkedItemType, 
-        id: initialData.linkedItemId 
-      });
-      linkedItemSelect.value = initialValue;
-      console.log('Setting initial linked item:', initialValue);
-    }
-
-    // Добавляем подсказку, если элементов нет
+    // Добавляем подсказку, если файлов нет
     let noItemsHint: HTMLDivElement | null = null;
-    if (linkableItems.length === 0) {
+    if (linkableFiles.length === 0) {
       noItemsHint = document.createElement('div');
       noItemsHint.style.cssText = `
         margin-top: 5px;
@@ -212,17 +462,16 @@ const createDiaryEntryModal = async (initialData?: {
     }
 
     linkedItemContainer.appendChild(linkedItemLabel);
-    linkedItemContainer.appendChild(linkedItemSelect);
     if (noItemsHint) {
       linkedItemContainer.appendChild(noItemsHint);
+    } else {
+      linkedItemContainer.appendChild(filePicker.element);
     }
 
     // Переключение видимости селекта связанного элемента
     const toggleLinkedItemVisibility = () => {
-      console.log('Toggle visibility called. Linked radio checked:', linkedRadio.checked);
       if (linkedRadio.checked) {
         linkedItemContainer.style.display = 'block';
-        console.log('Showing linked item container with', linkedItemSelect.options.length, 'options');
       } else {
         linkedItemContainer.style.display = 'none';
       }
@@ -312,6 +561,41 @@ const createDiaryEntryModal = async (initialData?: {
       gap: 10px;
     `;
 
+    const tagField = createTagField(initialData?.tags);
+
+    // История изменений есть только у сохранённой записи
+    const historyContainer = document.createElement('div');
+    if (initialData?.id) {
+      const entryId = initialData.id;
+      const historyButton = document.createElement('button');
+      historyButton.textContent = 'История изменений';
+      historyButton.style.cssText = `
+        padding: 8px 16px;
+        margin-right: auto;
+        background-color: #6c757d;
+        color: white;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      `;
+      historyButton.addEventListener('click', async () => {
+        if (historyContainer.firstChild) {
+          historyContainer.replaceChildren();
+          return;
+        }
+        const panel = await createRevisionHistoryPanel(
+          entryId,
+          () => ({ title: titleInput.value.trim(), content: contentTextarea.value.trim() }),
+          (version) => {
+            titleInput.value = version.title;
+            contentTextarea.value = version.content;
+          }
+        );
+        historyContainer.replaceChildren(panel);
+      });
+      buttonContainer.appendChild(historyButton);
+    }
+
     const okButton = document.createElement('button');
     okButton.textContent = 'Сохранить';
     okButton.style.cssText = `
@@ -325,33 +609,21 @@ const createDiaryEntryModal = async (initialData?: {
     okButton.addEventListener('click', () => {
       if (titleInput.value.trim()) {
         const entryMode = linkedRadio.checked ? 'linked' : 'standalone';
-        let linkedItemType: 'media' | 'file' | undefined;
-        let linkedItemId: string | undefined;
-
-        if (entryMode === 'linked') {
-          if (!linkedItemSelect.value) {
-            linkedItemSelect.style.borderColor = 'red';
-            alert('Для связанной записи необходимо выбрать медиа или файл');
-            return;
-          }
-          try {
-            const parsed = JSON.parse(linkedItemSelect.value);
-            linkedItemType = parsed.type;
-            linkedItemId = parsed.id;
-          } catch (e) {
-            console.error('Error parsing linked item:', e);
-            alert('Ошибка при выборе элемента');
-            return;
-          }
+        const linkedFileIds = entryMode === 'linked' ? filePicker.getSelected() : [];
+
+        if (entryMode === 'linked' && linkedFileIds.length === 0) {
+          filePicker.setInvalid(true);
+          alert('Для связанной записи необходимо выбрать хотя бы один медиафайл или файл');
+          return;
         }
 
         resolve({
           title: titleInput.value.trim(),
           content: contentTextarea.value.trim(),
           entryMode,
-          linkedItemType,
-          linkedItemId,
-          customDate: dateInput.value ? new Date(dateInput.value).toISOString() : new Date().toISOString()
+          linkedFileIds,
+          customDate: dateInput.value ? new Date(dateInput.value).toISOString() : new Date().toISOString(),
+          tags: tagField.getTags()
         });
         document.body.removeChild(modal);
       } else {
@@ -386,6 +658,8 @@ const createDiaryEntryModal = async (initialData?: {
     dialog.appendChild(contentTextarea);
     dialog.appendChild(dateLabel);
     dialog.appendChild(dateInput);
+    dialog.appendChild(tagField.element);
+    dialog.appendChild(historyContainer);
     dialog.appendChild(buttonContainer);
     modal.appendChild(dialog);
 
@@ -518,8 +792,209 @@ const createTitleModal = (title: string, defaultValue: string = ''): Promise<str
   });
 };
 
+// Встроенный просмотрщик: расшифрованные данные приходят потоком по anamneon-file://, на диск ничего не пишется
+const createFileViewerModal = async (filePath: string): Promise<void> => {
+  const result = await bridge.file.view({ path: filePath });
+  if (!result.ok) {
+    window.alert('Не удалось открыть файл: ' + result.error.message);
+    return;
+  }
+  const { name, kind, url } = result.data;
+
+  const modal = document.createElement('div');
+  modal.style.cssText = `
+    position: fixed;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    background: rgba(0, 0, 0, 0.8);
+    display: flex;
+    justify-content: center;
+    align-items: center;
+    z-index: 9999;
+  `;
+
+  const viewer = document.createElement('div');
+  viewer.style.cssText = `
+    background: white;
+    border-radius: 8px;
+    width: 90vw;
+    height: 90vh;
+    display: flex;
+    flex-direction: column;
+    overflow: hidden;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = `
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 10px;
+    padding: 10px 16px;
+    border-bottom: 1px solid #ddd;
+  `;
+
+  const nameEl = document.createElement('div');
+  nameEl.textContent = name;
+  nameEl.style.cssText = `
+    font-weight: 600;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  `;
+
+  const headerButtons = document.createElement('div');
+  headerButtons.style.cssText = `
+    display: flex;
+    gap: 10px;
+    flex-shrink: 0;
+  `;
+
+  const close = () => {
+    window.removeEventListener('keydown', handleKeyDown, true);
+    // Отсоединённый от документа плеер может продолжить играть
+    body.querySelectorAll('audio, video').forEach(media => {
+      (media as HTMLMediaElement).pause();
+      media.removeAttribute('src');
+    });
+    if (modal.parentNode) {
+      document.body.removeChild(modal);
+    }
+    // Ссылка больше не нужна: отзываем её, чтобы по ней нельзя было получить расшифрованные данные
+    if (url) {
+      bridge.file.closeView({ url }).then(result => {
+        if (!result.ok) {
+          log.error('Error closing file viewer', { error: result.error });
+        }
+      });
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      // Закрываем только просмотрщик, а не форму под ним
+      event.stopPropagation();
+      close();
+    }
+  };
+
+  const externalButton = document.createElement('button');
+  externalButton.textContent = 'Открыть во внешнем приложении';
+  externalButton.style.cssText = `
+    padding: 6px 12px;
+    background-color: #6c757d;
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+  `;
+  externalButton.addEventListener('click', async () => {
+    const confirmed = window.confirm(
+      'Расшифрованная копия файла будет сохранена во временную папку и удалена при закрытии приложения. Продолжить?'
+    );
+    if (!confirmed) return;
+    const result = await bridge.file.open({ path: filePath });
+    if (!result.ok) {
+      log.error('Error opening file externally', { error: result.error });
+    }
+  });
+
+  const closeButton = document.createElement('button');
+  closeButton.textContent = 'Закрыть';
+  closeButton.style.cssText = `
+    padding: 6px 12px;
+    background-color: #dc3545;
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+  `;
+  closeButton.addEventListener('click', close);
+
+  const body = document.createElement('div');
+  body.style.cssText = `
+    flex: 1;
+    display: flex;
+    justify-content: center;
+    align-items: center;
+    overflow: auto;
+    background: #f5f5f5;
+  `;
+
+  const fill = 'max-width: 100%; max-height: 100%;';
+  if (url && kind === 'image') {
+    const img = document.createElement('img');
+    img.src = url;
+    img.style.cssText = `${fill} object-fit: contain;`;
+    body.appendChild(img);
+  } else if (url && kind === 'pdf') {
+    const frame = document.createElement('iframe');
+    frame.src = url;
+    frame.style.cssText = 'width: 100%; height: 100%; border: none;';
+    body.appendChild(frame);
+  } else if (url && (kind === 'audio' || kind === 'video')) {
+    const media = document.createElement(kind);
+    media.src = url;
+    media.controls = true;
+    media.style.cssText = kind === 'video' ? fill : 'width: 80%;';
+    body.appendChild(media);
+  } else if (url && kind === 'text') {
+    const pre = document.createElement('pre');
+    pre.style.cssText = `
+      width: 100%;
+      height: 100%;
+      margin: 0;
+      padding: 16px;
+      box-sizing: border-box;
+      background: white;
+      white-space: pre-wrap;
+      word-break: break-word;
+      font-size: 14px;
+    `;
+    body.style.alignItems = 'stretch';
+    body.appendChild(pre);
+    fetch(url)
+      .then(response => response.text())
+      .then(text => { pre.textContent = text; })
+      .catch(error => {
+        log.error('Error loading text file', { error });
+        pre.textContent = 'Не удалось загрузить файл';
+      });
+  } else {
+    const message = document.createElement('div');
+    message.textContent = 'Просмотр файлов этого типа недоступен. Файл можно открыть во внешнем приложении.';
+    message.style.cssText = 'color: #666; padding: 20px; text-align: center;';
+    body.appendChild(message);
+  }
+
+  headerButtons.appendChild(externalButton);
+  headerButtons.appendChild(closeButton);
+  header.appendChild(nameEl);
+  header.appendChild(headerButtons);
+  viewer.appendChild(header);
+  viewer.appendChild(body);
+  modal.appendChild(viewer);
+
+  modal.addEventListener('click', (event) => {
+    if (event.target === modal) {
+      close();
+    }
+  });
+  window.addEventListener('keydown', handleKeyDown, true);
+
+  document.body.appendChild(modal);
+};
+
 // Функция для создания модального диалога с названием и датой для медиа/файлов
-const createMediaFileModal = (title: string, defaultTitle: string = '', defaultDate?: string, filePath?: string, userId?: string): Promise<{ title: string; date: string } | null> => {
+const createMediaFileModal = (
+  title: string,
+  defaultTitle: string = '',
+  defaultDate?: string,
+  filePath?: string,
+  defaultTags?: string[]
+): Promise<{ title: string; date: string; tags: string[] } | null> => {
   return new Promise((resolve) => {
     const modal = document.createElement('div');
     modal.style.cssText = `
@@ -610,6 +1085,8 @@ const createMediaFileModal = (title: string, defaultTitle: string = '', defaultD
       border-radius: 4px;
     `;
 
+    const tagField = createTagField(defaultTags);
+
     const buttonContainer = document.createElement('div');
     buttonContainer.style.cssText = `
       display: flex;
@@ -632,7 +1109,7 @@ const createMediaFileModal = (title: string, defaultTitle: string = '', defaultD
     `;
 
     // Кнопка просмотра (только если есть путь к файлу)
-    if (filePath && userId) {
+    if (filePath) {
       const viewButton = document.createElement('button');
       viewButton.textContent = 'Просмотреть';
       viewButton.style.cssText = `
@@ -645,9 +1122,9 @@ const createMediaFileModal = (title: string, defaultTitle: string = '', defaultD
       `;
       viewButton.addEventListener('click', async () => {
         try {
-          await ipcRenderer.invoke('file:open', { path: filePath, userId });
+          await createFileViewerModal(filePath);
         } catch (error) {
-          console.error('Error opening file:', error);
+          log.error('Error opening file', { error });
         }
       });
       leftButtons.appendChild(viewButton);
@@ -667,7 +1144,8 @@ const createMediaFileModal = (title: string, defaultTitle: string = '', defaultD
       if (titleInput.value.trim()) {
         resolve({
           title: titleInput.value.trim(),
-          date: dateInput.value ? new Date(dateInput.value).toISOString() : new Date().toISOString()
+          date: dateInput.value ? new Date(dateInput.value).toISOString() : new Date().toISOString(),
+          tags: tagField.getTags()
         });
         document.body.removeChild(modal);
       } else {
@@ -701,6 +1179,7 @@ const createMediaFileModal = (title: string, defaultTitle: string = '', defaultD
     dialog.appendChild(titleInput);
     dialog.appendChild(dateLabel);
     dialog.appendChild(dateInput);
+    dialog.appendChild(tagField.element);
     dialog.appendChild(buttonContainer);
     modal.appendChild(dialog);
 
@@ -719,81 +1198,21 @@ const createMediaFileModal = (title: string, defaultTitle: string = '', defaultD
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld(
-  'api', {
-    dialog: {
-      showTitlePrompt: (title: string, defaultValue: string) => createTitleModal(title, defaultValue),
-      showMediaFileForm: (title: string, defaultTitle: string, defaultDate?: string, filePath?: string, userId?: string) => createMediaFileModal(title, defaultTitle, defaultDate, filePath, userId),
-      showDiaryEntryForm: (initialData?: { 
-        title: string; 
-        content: string;
-        entryMode?: 'standalone' | 'linked';
-        linkedItemType?: 'media' | 'file';
-        linkedItemId?: string;
-        customDate?: string;
-      }, userId?: string) => createDiaryEntryModal(initialData, userId),
-      showConfirmDialog: (options: { title: string; message: string; buttons: string[] }) =>
-        ipcRenderer.invoke('dialog:showConfirm', options)
-    },
-    auth: {
-      login: (credentials: { email: string; password: string }) =>
-        ipcRenderer.invoke('auth:login', credentials),
-      register: (credentials: { email: string; password: string; name: string }) =>
-        ipcRenderer.invoke('auth:register', credentials),
-      logout: (userId: string | null) => ipcRenderer.invoke('auth:logout', { userId }),
-      verifyToken: (token: string) =>
-        ipcRenderer.invoke('auth:verifyToken', { token }),
-      getUser: (userId: string) =>
-        ipcRenderer.invoke('auth:getUser', { userId }),
-      updateUser: (userId: string, updates: { name?: string; password?: string }) =>
-        ipcRenderer.invoke('auth:updateUser', { userId, updates })
-    },
-    profile: {
-      savePhoto: (userId: string, photoData: string) =>
-        ipcRenderer.invoke('profile:savePhoto', { userId, photoData }),
-      loadPhoto: (userId: string) =>
-        ipcRenderer.invoke('profile:loadPhoto', { userId })
-    },
-    diary: {
-      save: (entry: Omit<DiaryEntry, 'id'>) => 
-        ipcRenderer.invoke('diary:save', entry),
-      getAll: (userId: string) => 
-        ipcRenderer.invoke('diary:getAll', { userId }),
-      update: (id: string, entry: { title: string; content: string }, userId: string) =>
-        ipcRenderer.invoke('diary:update', { id, entry, userId }),
-      delete: (id: string) =>
-        ipcRenderer.invoke('diary:delete', { id })
-    },
-    media: {
-      upload: (type: 'photo' | 'video' | 'audio', userId: string) => 
-        ipcRenderer.invoke('media:upload', { type, userId }),
-      getAll: (userId: string) => 
-        ipcRenderer.invoke('media:getAll', { userId }),
-      delete: (id: string) =>
-        ipcRenderer.invoke('media:delete', { id }),
-      updateMetadata: (id: string, metadata: any, userId: string) =>
-        ipcRenderer.invoke('media:updateMetadata', { id, metadata, userId }),
-      updateDate: (id: string, date: string) =>
-        ipcRenderer.invoke('media:updateDate', { id, date })
-    },
-    files: {
-      upload: (userId: string) => 
-        ipcRenderer.invoke('file:upload', { userId }),
-      getAll: (userId: string) => 
-        ipcRenderer.invoke('file:getAll', { userId }),
-      delete: (id: string) =>
-        ipcRenderer.invoke('file:delete', { id }),
-      open: (path: string, userId: string) =>
-        ipcRenderer.invoke('file:open', { path, userId }),
-      updateMetadata: (id: string, metadata: any, userId: string) =>
-        ipcRenderer.invoke('file:updateMetadata', { id, metadata, userId }),
-      updateDate: (id: string, date: string) =>
-        ipcRenderer.invoke('file:updateDate', { id, date })
-    },
-    database: {
-      backup: () => ipcRenderer.invoke('database:backup'),
-      restore: () => ipcRenderer.invoke('database:restore'),
-      exportForAI: (userId: string) => ipcRenderer.invoke('database:exportForAI', { userId })
-    }
+contextBridge.exposeInMainWorld('api', {
+  ...bridge,
+  dialog: {
+    ...bridge.dialog,
+    showTitlePrompt: (title: string, defaultValue: string) => createTitleModal(title, defaultValue),
+    showMediaFileForm: (title: string, defaultTitle: string, defaultDate?: string, filePath?: string, defaultTags?: string[]) =>
+      createMediaFileModal(title, defaultTitle, defaultDate, filePath, defaultTags),
+    showDiaryEntryForm: (initialData?: {
+      id?: string;
+      title: string;
+      content: string;
+      entryMode?: 'standalone' | 'linked';
+      linkedFileIds?: string[];
+      customDate?: string;
+      tags?: string[];
+    }) => createDiaryEntryModal(initialData)
   }
-);
\ No newline at end of file
+});
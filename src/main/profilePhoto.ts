@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import { encryptBufferToFile, decryptFileToBuffer } from './encryption';
+import { getLogger } from './logger';
+
+const log = getLogger('profilePhoto');
+
+function profilePhotosDir(): string {
+  return path.join(app.getPath('userData'), 'profile_photos');
+}
+
+function encryptedPhotoPath(userId: string): string {
+  return path.join(profilePhotosDir(), `${userId}.jpg.enc`);
+}
+
+// Written by versions that stored photos unencrypted
+function legacyPhotoPath(userId: string): string {
+  return path.join(profilePhotosDir(), `${userId}.jpg`);
+}
+
+/**
+ * Overwrite a plaintext file before unlinking it
+ */
+async function removePlaintext(filePath: string): Promise<void> {
+  const { size } = await fs.promises.stat(filePath);
+  await fs.promises.writeFile(filePath, Buffer.alloc(size));
+  await fs.promises.rm(filePath, { force: true });
+}
+
+/**
+ * Encrypt and store a JPEG profile photo
+ */
+export async function saveProfilePhoto(userId: string, jpeg: Buffer, dataKey: Buffer): Promise<void> {
+  await fs.promises.mkdir(profilePhotosDir(), { recursive: true });
+
+  // Write next to the old photo and swap, so a failed write doesn't lose it
+  const photoPath = encryptedPhotoPath(userId);
+  const tempPath = `${photoPath}.tmp`;
+  await encryptBufferToFile(jpeg, tempPath, dataKey);
+  await fs.promises.rename(tempPath, photoPath);
+
+  if (fs.existsSync(legacyPhotoPath(userId))) {
+    await removePlaintext(legacyPhotoPath(userId));
+  }
+}
+
+/**
+ * Decrypt the profile photo in memory. Returns null if the user has none.
+ */
+export async function loadProfilePhoto(userId: string, dataKey: Buffer): Promise<Buffer | null> {
+  const photoPath = encryptedPhotoPath(userId);
+  if (!fs.existsSync(photoPath)) {
+    return null;
+  }
+  return decryptFileToBuffer(photoPath, dataKey);
+}
+
+/**
+ * Encrypt a plaintext photo left by an older version
+ */
+export async function migrateProfilePhoto(userId: string, dataKey: Buffer): Promise<void> {
+  const legacyPath = legacyPhotoPath(userId);
+  if (!fs.existsSync(legacyPath)) {
+    return;
+  }
+
+  log.info('Encrypting plaintext profile photo', { userId });
+  await saveProfilePhoto(userId, await fs.promises.readFile(legacyPath), dataKey);
+}
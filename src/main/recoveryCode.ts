@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+
+/**
+ * 256 words, so every word of a recovery code carries exactly 8 bits
+ */
+const WORDS = [
+  'acid', 'acorn', 'actor', 'adult', 'agent', 'alarm', 'album', 'alert', 'alley', 'amber', 'angle',
+  'ankle', 'apple', 'april', 'apron', 'arena', 'armor', 'arrow', 'atlas', 'attic', 'audio', 'aunt',
+  'autumn', 'badge', 'bagel', 'baker', 'balloon', 'bamboo', 'banana', 'banjo', 'barrel', 'basket',
+  'beach', 'beacon', 'beard', 'beaver', 'bench', 'berry', 'bicycle', 'biscuit', 'blanket',
+  'blossom', 'border', 'bottle', 'breeze', 'brick', 'bridge', 'bronze', 'brush', 'bucket',
+  'buffalo', 'bugle', 'butter', 'button', 'cabin', 'cactus', 'camel', 'candle', 'canoe', 'canvas',
+  'canyon', 'carbon', 'carpet', 'carrot', 'castle', 'cattle', 'cedar', 'cellar', 'cement', 'chalk',
+  'cherry', 'chess', 'chimney', 'cinema', 'circus', 'citizen', 'clock', 'cloud', 'clover', 'coach',
+  'cobalt', 'cocoa', 'coffee', 'comet', 'copper', 'coral', 'cotton', 'cousin', 'cradle', 'crayon',
+  'cricket', 'crystal', 'cushion', 'daisy', 'dancer', 'delta', 'desert', 'diamond', 'dinner',
+  'dolphin', 'donkey', 'dragon', 'drawer', 'drum', 'eagle', 'easel', 'echo', 'elbow', 'ember',
+  'empire', 'engine', 'falcon', 'feather', 'fence', 'fiddle', 'finch', 'flame', 'flute', 'forest',
+  'fossil', 'fountain', 'fox', 'galaxy', 'garden', 'garlic', 'gecko', 'giant', 'ginger', 'giraffe',
+  'glacier', 'globe', 'goose', 'grape', 'gravel', 'guitar', 'hammer', 'harbor', 'harvest', 'hazel',
+  'helmet', 'heron', 'honey', 'hornet', 'island', 'ivory', 'jacket', 'jaguar', 'jasmine', 'jelly',
+  'jungle', 'kettle', 'kitten', 'koala', 'ladder', 'lagoon', 'lantern', 'lemon', 'leopard',
+  'letter', 'lizard', 'lobster', 'locket', 'magnet', 'mango', 'maple', 'marble', 'meadow', 'melon',
+  'mirror', 'monkey', 'mosaic', 'muffin', 'museum', 'napkin', 'needle', 'nickel', 'noodle',
+  'nutmeg', 'oasis', 'ocean', 'olive', 'onion', 'orange', 'orchid', 'otter', 'oyster', 'paddle',
+  'palace', 'panda', 'paper', 'parrot', 'pebble', 'pencil', 'pepper', 'piano', 'pillow', 'pirate',
+  'planet', 'plum', 'pocket', 'pony', 'potato', 'pumpkin', 'puzzle', 'quartz', 'quill', 'rabbit',
+  'radar', 'raven', 'ribbon', 'river', 'robin', 'rocket', 'saddle', 'salmon', 'sandal', 'saturn',
+  'scarf', 'shadow', 'shovel', 'silver', 'skate', 'sparrow', 'spider', 'spoon', 'squid', 'statue',
+  'summer', 'sunset', 'swan', 'tablet', 'teapot', 'temple', 'thunder', 'tiger', 'timber', 'tomato',
+  'tractor', 'tulip', 'turtle', 'umbrella', 'valley', 'velvet', 'violin', 'volcano', 'wagon',
+  'walnut', 'walrus', 'whistle', 'willow', 'window', 'winter', 'wizard', 'yogurt', 'zebra',
+  'zipper'
+];
+
+const CODE_WORDS = 16; // 128 bits
+
+/**
+ * Generate a printable recovery code
+ */
+export function generateRecoveryCode(): string {
+  return Array.from(crypto.randomBytes(CODE_WORDS), byte => WORDS[byte]).join(' ');
+}
+
+/**
+ * Normalize a recovery code typed by the user: case, separators and extra spaces don't matter.
+ * Throws if the code is not made of CODE_WORDS known words.
+ */
+export function normalizeRecoveryCode(input: string): string {
+  const words = input.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  if (words.length !== CODE_WORDS || words.some(word => !WORDS.includes(word))) {
+    throw new Error('Invalid recovery code');
+  }
+  return words.join(' ');
+}
@@ -0,0 +1,146 @@
+// Snowball stemmer for Russian: https://snowballstem.org/algorithms/russian/stemmer.html
+// Endings are listed per group; the longest matching ending of a group decides.
+
+const VOWELS = 'аеиоуыэюя';
+
+const PERFECTIVE_GERUND = {
+  afterAYa: ['в', 'вши', 'вшись'],
+  other: ['ив', 'ивши', 'ившись', 'ыв', 'ывши', 'ывшись']
+};
+
+const ADJECTIVE = [
+  'ее', 'ие', 'ые', 'ое', 'ими', 'ыми', 'ей', 'ий', 'ый', 'ой', 'ем', 'им', 'ым', 'ом',
+  'его', 'ого', 'ему', 'ому', 'их', 'ых', 'ую', 'юю', 'ая', 'яя', 'ою', 'ею'
+];
+
+const PARTICIPLE = {
+  afterAYa: ['ем', 'нн', 'вш', 'ющ', 'щ'],
+  other: ['ивш', 'ывш', 'ующ']
+};
+
+const REFLEXIVE = ['ся', 'сь'];
+
+const VERB = {
+  afterAYa: ['ла', 'на', 'ете', 'йте', 'ли', 'й', 'л', 'ем', 'н', 'ло', 'но', 'ет', 'ют', 'ны', 'ть', 'ешь', 'нно'],
+  other: [
+    'ила', 'ыла', 'ена', 'ейте', 'уйте', 'ите', 'или', 'ыли', 'ей', 'уй', 'ил', 'ыл', 'им', 'ым', 'ен',
+    'ило', 'ыло', 'ено', 'ят', 'ует', 'уют', 'ит', 'ыт', 'ены', 'ить', 'ыть', 'ишь', 'ую', 'ю'
+  ]
+};
+
+const NOUN = [
+  'а', 'ев', 'ов', 'ие', 'ье', 'е', 'иями', 'ями', 'ами', 'еи', 'ии', 'и', 'ией', 'ей', 'ой', 'ий', 'й',
+  'иям', 'ям', 'ием', 'ем', 'ам', 'ом', 'о', 'у', 'ах', 'иях', 'ях', 'ы', 'ь', 'ию', 'ью', 'ю', 'ия', 'ья', 'я'
+];
+
+const DERIVATIONAL = ['ост', 'ость'];
+const SUPERLATIVE = ['ейш', 'ейше'];
+
+const isVowel = (char: string) => VOWELS.includes(char);
+
+/**
+ * Start of RV (after the first vowel) and of R2, as offsets into the word
+ */
+function regions(word: string): { rv: number; r2: number } {
+  const n = word.length;
+  let rv = n;
+  let r2 = n;
+
+  let i = 0;
+  while (i < n && !isVowel(word[i])) i++;
+  if (i === n) return { rv, r2 };
+  rv = i + 1;
+
+  // R1 ends after the first non-vowel following a vowel, R2 likewise inside R1
+  let j = rv;
+  for (let pass = 0; pass < 2; pass++) {
+    while (j < n && isVowel(word[j])) j++;
+    if (j === n) return { rv, r2 };
+    j++;
+    if (pass === 0) {
+      while (j < n && !isVowel(word[j])) j++;
+      if (j === n) return { rv, r2 };
+      j++;
+    }
+  }
+  r2 = j;
+  return { rv, r2 };
+}
+
+function longestEnding(word: string, endings: string[]): string | null {
+  let best: string | null = null;
+  for (const ending of endings) {
+    if (word.endsWith(ending) && (!best || ending.length > best.length)) {
+      best = ending;
+    }
+  }
+  return best;
+}
+
+/**
+ * Remove the longest ending of the group. Endings of the first kind count only after а or я,
+ * which stay; if the longest match doesn't qualify, nothing is removed.
+ */
+function removeGrouped(word: string, group: { afterAYa: string[]; other: string[] }): string | null {
+  const ending = longestEnding(word, [...group.afterAYa, ...group.other]);
+  if (!ending) return null;
+
+  const stem = word.slice(0, -ending.length);
+  if (group.other.includes(ending)) return stem;
+  return stem.endsWith('а') || stem.endsWith('я') ? stem : null;
+}
+
+function removeEnding(word: string, endings: string[]): string | null {
+  const ending = longestEnding(word, endings);
+  return ending ? word.slice(0, -ending.length) : null;
+}
+
+function removeAdjectival(word: string): string | null {
+  const withoutAdjective = removeEnding(word, ADJECTIVE);
+  if (withoutAdjective === null) return null;
+  return removeGrouped(withoutAdjective, PARTICIPLE) ?? withoutAdjective;
+}
+
+/**
+ * Stem a lower-case Russian word; ё is treated as е
+ */
+export function stemRussian(input: string): string {
+  const word = input.replace(/ё/g, 'е');
+  const { rv, r2 } = regions(word);
+  const prefix = word.slice(0, rv);
+  // All endings are looked for in RV only
+  let tail = word.slice(rv);
+
+  // Step 1
+  const withoutGerund = removeGrouped(tail, PERFECTIVE_GERUND);
+  if (withoutGerund !== null) {
+    tail = withoutGerund;
+  } else {
+    tail = removeEnding(tail, REFLEXIVE) ?? tail;
+    tail = removeAdjectival(tail) ?? removeGrouped(tail, VERB) ?? removeEnding(tail, NOUN) ?? tail;
+  }
+
+  // Step 2
+  if (tail.endsWith('и')) {
+    tail = tail.slice(0, -1);
+  }
+
+  // Step 3: derivational endings must lie in R2
+  const derivational = longestEnding(tail, DERIVATIONAL);
+  if (derivational && rv + tail.length - derivational.length >= r2) {
+    tail = tail.slice(0, -derivational.length);
+  }
+
+  // Step 4
+  const superlative = longestEnding(tail, SUPERLATIVE);
+  if (superlative) {
+    tail = tail.slice(0, -superlative.length);
+  }
+  if (tail.endsWith('нн')) {
+    tail = tail.slice(0, -1);
+  } else if (!superlative && tail.endsWith('ь')) {
+    tail = tail.slice(0, -1);
+  }
+
+  return prefix + tail;
+}
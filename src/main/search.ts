@@ -0,0 +1,296 @@
+import { Database } from '../storage/database';
+import { ItemKind, SearchResult, SearchSnippet } from '../shared/types';
+import { decryptText } from './encryption';
+import { decryptFileMetadata } from './fileHandlers';
+import { runTask } from './workerPool';
+import { stemRussian } from './russianStemmer';
+import { loadItemTags } from './tags';
+import { getLogger } from './logger';
+
+const log = getLogger('search');
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const BODY_WEIGHT = 1;
+
+const SNIPPET_CONTEXT = 60; // Characters shown before the first match
+const SNIPPET_LENGTH = 220;
+
+interface Field {
+  text: string;
+  weight: number;
+  snippet: boolean; // Can be shown as the result snippet
+}
+
+interface IndexedDocument {
+  kind: ItemKind;
+  id: string;
+  fields: Field[];
+  length: number;
+}
+
+/**
+ * Decrypted text of one user's items, kept in memory only while the vault is unlocked
+ */
+interface UserIndex {
+  documents: Map<string, IndexedDocument>;
+  postings: Map<string, Map<string, number>>; // Term → document → weighted frequency
+  averageLength: number;
+  documentText: Map<string, string>; // Extracted document text by file id and blob path
+  stale: boolean;
+  building: Promise<void> | null;
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+const indexes = new Map<string, UserIndex>();
+
+const documentKey = (kind: ItemKind, id: string) => `${kind}:${id}`;
+
+/**
+ * Lower case, ё as е, Russian words reduced to their stem
+ */
+function normalizeTerm(word: string): string {
+  const lower = word.toLowerCase().replace(/ё/g, 'е');
+  return /[а-я]/.test(lower) ? stemRussian(lower) : lower;
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    term: normalizeTerm(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+async function collectDocuments(db: Database, userId: string, dataKey: Buffer, documentText: Map<string, string>): Promise<IndexedDocument[]> {
+  const tags = await loadItemTags(db, userId, dataKey);
+  const documents: IndexedDocument[] = [];
+  const add = (kind: ItemKind, id: string, fields: Field[]) => {
+    documents.push({ kind, id, fields, length: 0 });
+  };
+
+  for (const entry of await db.getDiaryEntries(userId)) {
+    try {
+      add('diary', entry.id, [
+        { text: decryptText(entry.title, dataKey), weight: TITLE_WEIGHT, snippet: false },
+        { text: (tags.diary.get(entry.id) || []).join(' '), weight: TAG_WEIGHT, snippet: false },
+        { text: decryptText(entry.content, dataKey), weight: BODY_WEIGHT, snippet: true }
+      ]);
+    } catch (error) {
+      log.error('Error indexing diary entry', { id: entry.id, error });
+    }
+  }
+
+  for (const item of await db.getFileItems(userId)) {
+    try {
+      const metadata = decryptFileMetadata(item.metadata || {}, dataKey);
+
+      // Documents are decrypted and parsed in a worker once per unlock; the blob path changes when the file is replaced
+      const cacheKey = `${item.id}:${item.path}`;
+      let text = documentText.get(cacheKey);
+      if (text === undefined) {
+        try {
+          text = await runTask('extractDocumentText', { path: item.path, type: item.type, key: dataKey });
+        } catch (error) {
+          log.warn('Error extracting document text', { id: item.id, type: item.type, error });
+          text = '';
+        }
+        documentText.set(cacheKey, text);
+      }
+
+      add('file', item.id, [
+        { text: metadata.title || '', weight: TITLE_WEIGHT, snippet: false },
+        { text: (tags.file.get(item.id) || []).join(' '), weight: TAG_WEIGHT, snippet: false },
+        { text: metadata.fileName || '', weight: BODY_WEIGHT, snippet: false },
+        { text: metadata.description || '', weight: BODY_WEIGHT, snippet: true },
+        { text, weight: BODY_WEIGHT, snippet: true }
+      ]);
+    } catch (error) {
+      log.error('Error indexing file', { id: item.id, error });
+    }
+  }
+  return documents;
+}
+
+async function buildIndex(db: Database, userId: string, dataKey: Buffer, index: UserIndex): Promise<void> {
+  const startTime = Date.now();
+  index.stale = false;
+  const documents = await collectDocuments(db, userId, dataKey, index.documentText);
+
+  const postings = new Map<string, Map<string, number>>();
+  let totalLength = 0;
+  for (const document of documents) {
+    const key = documentKey(document.kind, document.id);
+    for (const field of document.fields) {
+      for (const { term } of tokenize(field.text)) {
+        let documentsWithTerm = postings.get(term);
+        if (!documentsWithTerm) {
+          documentsWithTerm = new Map();
+          postings.set(term, documentsWithTerm);
+        }
+        documentsWithTerm.set(key, (documentsWithTerm.get(key) || 0) + field.weight);
+        document.length++;
+      }
+    }
+    totalLength += document.length;
+  }
+
+  index.documents = new Map(documents.map(document => [documentKey(document.kind, document.id), document]));
+  index.postings = postings;
+  index.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  log.info('Search index built', { documents: documents.length, terms: postings.size, ms: Date.now() - startTime });
+}
+
+/**
+ * Start building the user's index; called after unlock, searches wait for it
+ */
+export function buildSearchIndex(db: Database, userId: string, dataKey: Buffer): Promise<void> {
+  let index = indexes.get(userId);
+  if (!index) {
+    index = {
+      documents: new Map(),
+      postings: new Map(),
+      averageLength: 0,
+      documentText: new Map(),
+      stale: true,
+      building: null
+    };
+    indexes.set(userId, index);
+  }
+  if (index.building) {
+    return index.building;
+  }
+
+  const current = index;
+  current.building = buildIndex(db, userId, dataKey, current)
+    .catch(error => {
+      current.stale = true;
+      log.error('Error building search index', { error });
+    })
+    .finally(() => {
+      current.building = null;
+    });
+  return current.building;
+}
+
+/**
+ * Items changed; the index is rebuilt before the next search
+ */
+export function invalidateSearchIndex(userId: string) {
+  const index = indexes.get(userId);
+  if (index) {
+    index.stale = true;
+  }
+}
+
+/**
+ * Forget the decrypted text when the vault is locked or the user logs out
+ */
+export function dropSearchIndex(userId: string) {
+  indexes.delete(userId);
+}
+
+/**
+ * Terms matching a query word: its stem, and while typing the last word, longer terms starting with it
+ */
+function expandQueryTerm(index: UserIndex, term: string, prefix: boolean): string[] {
+  if (!prefix || term.length < 2) {
+    return index.postings.has(term) ? [term] : [];
+  }
+  return Array.from(index.postings.keys()).filter(candidate => candidate.startsWith(term));
+}
+
+/**
+ * Around the first query word in the best matching field, with every query word in it highlighted
+ */
+function makeSnippet(document: IndexedDocument, terms: Set<string>): SearchSnippet | null {
+  let best: { field: Field; tokens: Token[]; hits: number } | null = null;
+  for (const field of document.fields) {
+    if (!field.snippet || !field.text) continue;
+    const tokens = tokenize(field.text);
+    const hits = tokens.filter(token => terms.has(token.term)).length;
+    if (hits > 0 && (!best || hits > best.hits)) {
+      best = { field, tokens, hits };
+    }
+  }
+  if (!best) return null;
+
+  const text = best.field.text;
+  const first = best.tokens.find(token => terms.has(token.term))!;
+  let start = Math.max(0, first.start - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  // Don't cut a word at the start
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first.start) start = space + 1;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const highlights = best.tokens
+    .filter(token => terms.has(token.term) && token.start >= start && token.end <= end)
+    .map(token => [token.start - start + prefix.length, token.end - start + prefix.length] as [number, number]);
+
+  return {
+    text: prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix,
+    highlights
+  };
+}
+
+/**
+ * Items containing every word of the query, best first.
+ * The last word also matches as a prefix, so results follow the user's typing.
+ */
+export async function searchItems(db: Database, userId: string, dataKey: Buffer, query: string, limit: number): Promise<SearchResult[]> {
+  const existing = indexes.get(userId);
+  if (!existing || existing.stale || existing.building) {
+    await buildSearchIndex(db, userId, dataKey);
+  }
+  const index = indexes.get(userId);
+  if (!index) return [];
+
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+  const typingLastWord = !/\s$/.test(query);
+
+  const scores = new Map<string, number>();
+  const matchedTerms = new Set<string>();
+  let candidates: Set<string> | null = null;
+
+  queryTokens.forEach((token, position) => {
+    const terms = expandQueryTerm(index, token.term, typingLastWord && position === queryTokens.length - 1);
+    const matching = new Set<string>();
+
+    for (const term of terms) {
+      matchedTerms.add(term);
+      const documentsWithTerm = index.postings.get(term)!;
+      const idf = Math.log(1 + (index.documents.size - documentsWithTerm.size + 0.5) / (documentsWithTerm.size + 0.5));
+      for (const [key, frequency] of documentsWithTerm) {
+        const length = index.documents.get(key)!.length;
+        const norm = K1 * (1 - B + B * length / (index.averageLength || 1));
+        scores.set(key, (scores.get(key) || 0) + idf * (frequency * (K1 + 1)) / (frequency + norm));
+        matching.add(key);
+      }
+    }
+
+    // Every query word has to be found
+    candidates = candidates === null ? matching : new Set([...candidates].filter(key => matching.has(key)));
+  });
+
+  return Array.from(candidates ?? new Set<string>(), key => ({ key, score: scores.get(key) || 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ key, score }) => {
+      const document = index.documents.get(key)!;
+      return { kind: document.kind, id: document.id, score, snippet: makeSnippet(document, matchedTerms) };
+    });
+}
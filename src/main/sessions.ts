@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { WebContents } from 'electron';
+
+/** Sessions expire unless the renderer refreshes them */
+export const SESSION_TTL_MS = 30 * 60 * 1000;
+
+interface Session {
+  userId: string;
+  webContentsId: number;
+  expiresAt: number;
+}
+
+// Tokens live only in the main process; the renderer gets an opaque random string
+const sessions = new Map<string, Session>();
+const watchedWebContents = new Set<number>();
+// Last user logged in through each window, kept after the session expires so logout can still wipe the key
+const windowUsers = new Map<number, string>();
+
+function issueToken(userId: string, webContentsId: number): { token: string; expiresAt: number } {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  sessions.set(token, { userId, webContentsId, expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Start a session bound to the window that logged in, replacing any earlier one.
+ * Sessions of a window are revoked when it is destroyed.
+ */
+export function createSession(userId: string, webContents: WebContents): { token: string; expiresAt: number } {
+  if (!watchedWebContents.has(webContents.id)) {
+    const webContentsId = webContents.id;
+    watchedWebContents.add(webContentsId);
+    webContents.once('destroyed', () => {
+      watchedWebContents.delete(webContentsId);
+      windowUsers.delete(webContentsId);
+      revokeWebContentsSessions(webContentsId);
+    });
+  }
+  revokeWebContentsSessions(webContents.id);
+  windowUsers.set(webContents.id, userId);
+  return issueToken(userId, webContents.id);
+}
+
+/**
+ * Revoke every session of the window on logout and return its user, even if the session has expired
+ */
+export function endWindowSessions(webContents: WebContents): string | null {
+  const userId = windowUsers.get(webContents.id) ?? null;
+  windowUsers.delete(webContents.id);
+  revokeWebContentsSessions(webContents.id);
+  return userId;
+}
+
+/**
+ * Return the user of a valid session, or null if the token is unknown,
+ * expired or presented by another window
+ */
+export function verifySession(token: string | undefined | null, webContents: WebContents): string | null {
+  if (typeof token !== 'string') return null;
+
+  const session = sessions.get(token);
+  if (!session) return null;
+
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+  if (session.webContentsId !== webContents.id) {
+    return null;
+  }
+  return session.userId;
+}
+
+/**
+ * User of the live session opened by this window, if any
+ */
+export function getSessionUser(webContents: WebContents): string | null {
+  const now = Date.now();
+  for (const session of sessions.values()) {
+    if (session.webContentsId === webContents.id && session.expiresAt > now) {
+      return session.userId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace a valid token with a new one with a fresh expiry
+ */
+export function refreshSession(token: string, webContents: WebContents): { token: string; expiresAt: number } | null {
+  const userId = verifySession(token, webContents);
+  if (!userId) return null;
+
+  sessions.delete(token);
+  return issueToken(userId, webContents.id);
+}
+
+export function revokeSession(token: string) {
+  sessions.delete(token);
+}
+
+export function revokeUserSessions(userId: string) {
+  for (const [token, session] of sessions) {
+    if (session.userId === userId) {
+      sessions.delete(token);
+    }
+  }
+}
+
+function revokeWebContentsSessions(webContentsId: number) {
+  for (const [token, session] of sessions) {
+    if (session.webContentsId === webContentsId) {
+      sessions.delete(token);
+    }
+  }
+}
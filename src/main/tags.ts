@@ -0,0 +1,104 @@
+import { Database } from '../storage/database';
+import { ForbiddenError, ValidationError } from '../shared/errors';
+import { ItemKind, Tag } from '../shared/types';
+import { blindIndex, decryptText, encryptText } from './encryption';
+import { getLogger } from './logger';
+
+const log = getLogger('tags');
+
+const MAX_TAG_LENGTH = 100;
+
+/**
+ * Tags that differ only in case and spacing are the same tag
+ */
+function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+function tagNameHash(name: string, dataKey: Buffer): string {
+  return blindIndex(normalizeTagName(name).toLocaleLowerCase('ru'), dataKey, 'tag');
+}
+
+async function decryptTags(db: Database, userId: string, dataKey: Buffer): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const tag of await db.getTags(userId)) {
+    try {
+      names.set(tag.id, decryptText(tag.name, dataKey));
+    } catch (error) {
+      log.error('Error decrypting tag', { id: tag.id, error });
+    }
+  }
+  return names;
+}
+
+/**
+ * Every tag of the user, with the number of items marked with it
+ */
+export async function listTags(db: Database, userId: string, dataKey: Buffer): Promise<Tag[]> {
+  const names = await decryptTags(db, userId, dataKey);
+  const counts = new Map<string, number>();
+  for (const link of await db.getTagLinks(userId)) {
+    counts.set(link.tagId, (counts.get(link.tagId) || 0) + 1);
+  }
+
+  return Array.from(names, ([id, name]) => ({ id, name, count: counts.get(id) || 0 }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+}
+
+/**
+ * Tag names of every tagged item, by kind and item id
+ */
+export async function loadItemTags(db: Database, userId: string, dataKey: Buffer): Promise<Record<ItemKind, Map<string, string[]>>> {
+  const names = await decryptTags(db, userId, dataKey);
+  const byItem: Record<ItemKind, Map<string, string[]>> = { diary: new Map(), file: new Map() };
+
+  for (const link of await db.getTagLinks(userId)) {
+    const name = names.get(link.tagId);
+    if (!name) continue;
+    const itemTags = byItem[link.kind].get(link.itemId) || [];
+    itemTags.push(name);
+    byItem[link.kind].set(link.itemId, itemTags);
+  }
+  for (const itemTags of [...byItem.diary.values(), ...byItem.file.values()]) {
+    itemTags.sort((a, b) => a.localeCompare(b, 'ru'));
+  }
+  return byItem;
+}
+
+/**
+ * Id of the user's tag with this name, if there is one
+ */
+export async function findTagId(db: Database, userId: string, dataKey: Buffer, name: string): Promise<string | undefined> {
+  const hash = tagNameHash(name, dataKey);
+  return (await db.getTags(userId)).find(tag => tag.nameHash === hash)?.id;
+}
+
+/**
+ * Replace the tags of an item with the given names, creating tags that don't exist yet
+ */
+export async function setItemTags(db: Database, userId: string, dataKey: Buffer, kind: ItemKind, itemId: string, names: string[]) {
+  const item = kind === 'diary' ? await db.getDiaryEntry(itemId, userId) : await db.getFileItem(itemId, userId);
+  if (!item) {
+    throw new ForbiddenError();
+  }
+
+  const existing = new Map((await db.getTags(userId)).map(tag => [tag.nameHash, tag.id]));
+  const tagIds = new Set<string>();
+  for (const rawName of names) {
+    const name = normalizeTagName(rawName);
+    if (!name) continue;
+    if (name.length > MAX_TAG_LENGTH) {
+      throw new ValidationError(`Тег длиннее ${MAX_TAG_LENGTH} символов`);
+    }
+
+    const hash = tagNameHash(name, dataKey);
+    let tagId = existing.get(hash);
+    if (!tagId) {
+      tagId = await db.createTag(userId, encryptText(name, dataKey), hash);
+      existing.set(hash, tagId);
+    }
+    tagIds.add(tagId);
+  }
+
+  await db.setItemTags(userId, kind, itemId, [...tagIds]);
+}
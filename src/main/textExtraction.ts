@@ -0,0 +1,129 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import pdfParse from 'pdf-parse';
+import { FileItem } from '../shared/types';
+import { decryptFileToBuffer } from './encryption';
+
+// Larger documents are searched by title and description only
+const MAX_BLOB_SIZE = 30 * 1024 * 1024;
+const MAX_ZIP_ENTRY_SIZE = 50 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 200000;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Read the named entries of a zip archive (docx and xlsx are zip files of XML parts)
+ */
+function readZipEntries(zip: Buffer, wanted: (name: string) => boolean): Map<string, Buffer> {
+  // The end-of-central-directory record is at most 64 KB of comment away from the end
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entries = new Map<string, Buffer>();
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) continue;
+    if (zip.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip local header');
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, zlib.inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_SIZE }));
+    }
+  }
+  return entries;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function docxText(data: Buffer): string {
+  const parts = readZipEntries(data, name => name === 'word/document.xml');
+  const xml = parts.get('word/document.xml')?.toString('utf8') ?? '';
+  return decodeXmlEntities(
+    xml
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<w:(tab|br)\b[^>]*\/>/g, ' ')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+function xlsxText(data: Buffer): string {
+  // Cell text lives in the shared strings table, or inline in the sheets
+  const parts = readZipEntries(data, name => name === 'xl/sharedStrings.xml' || /^xl\/worksheets\/[^/]+\.xml$/.test(name));
+  const texts: string[] = [];
+  for (const part of parts.values()) {
+    for (const match of part.toString('utf8').matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)) {
+      texts.push(decodeXmlEntities(match[1]));
+    }
+  }
+  return texts.join('\n');
+}
+
+/**
+ * Decrypt a document and extract its plain text for the search index.
+ * Types without text (photos, audio, video) and oversized blobs give an empty string.
+ * Runs in a worker thread, see workerTasks.
+ */
+export async function extractDocumentText(item: Pick<FileItem, 'path' | 'type'>, dataKey: Buffer): Promise<string> {
+  if (!['pdf', 'txt', 'docx', 'spreadsheet'].includes(item.type)) {
+    return '';
+  }
+  const { size } = await fs.promises.stat(item.path);
+  if (size > MAX_BLOB_SIZE) {
+    return '';
+  }
+
+  const data = await decryptFileToBuffer(item.path, dataKey);
+  let text: string;
+  switch (item.type) {
+    case 'pdf':
+      text = (await pdfParse(data)).text;
+      break;
+    case 'docx':
+      text = docxText(data);
+      break;
+    case 'spreadsheet':
+      text = xlsxText(data);
+      break;
+    default:
+      text = data.toString('utf8');
+  }
+  return text.slice(0, MAX_TEXT_LENGTH);
+}
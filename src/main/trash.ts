@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Database } from '../storage/database';
+import { ForbiddenError } from '../shared/errors';
+import { TrashKind } from '../shared/types';
+import { recordAudit } from './audit';
+import { revokeFileViewerUrls } from './fileViewer';
+import { getLogger } from './logger';
+
+const log = getLogger('trash');
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OVERWRITE_CHUNK_SIZE = 1024 * 1024;
+
+export async function getTrashRetentionDays(db: Database, userId: string): Promise<number> {
+  const value = await db.getUserSetting(userId, 'trashRetentionDays');
+  return value !== undefined ? Number(value) : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Overwrite a blob with random bytes before unlinking it. The blob is encrypted
+ * already; this only makes recovering it from free disk space harder.
+ * SSDs and copy-on-write file systems may keep the old blocks regardless.
+ */
+async function removeBlobSecurely(filePath: string): Promise<void> {
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(filePath, 'r+');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    for (let position = 0; position < size; position += OVERWRITE_CHUNK_SIZE) {
+      const length = Math.min(OVERWRITE_CHUNK_SIZE, size - position);
+      await handle.write(crypto.randomBytes(length), 0, length, position);
+    }
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rm(filePath, { force: true });
+}
+
+/**
+ * Delete a trashed item for good, with its blob.
+ * The row goes first: a blob left behind if overwriting fails is reported as an orphan by
+ * the integrity check, while a row pointing at a destroyed blob could not be repaired.
+ */
+async function purgeItem(db: Database, userId: string, kind: TrashKind, id: string, blobPath?: string) {
+  if (kind === 'diary') {
+    await db.deleteDiaryEntry(id, userId);
+    return;
+  }
+
+  await db.deleteFileItem(id, userId);
+  revokeFileViewerUrls(userId, id);
+  if (blobPath) {
+    await removeBlobSecurely(blobPath);
+  }
+}
+
+/**
+ * Items not in the trash are refused, so nothing skips the trash through this path
+ */
+export async function purgeTrashedItem(db: Database, userId: string, kind: TrashKind, id: string) {
+  if (kind === 'diary') {
+    if (!(await db.getTrashedDiaryEntries(userId)).some(entry => entry.id === id)) {
+      throw new ForbiddenError();
+    }
+    await purgeItem(db, userId, kind, id);
+  } else {
+    const item = (await db.getTrashedFileItems(userId)).find(file => file.id === id);
+    if (!item) {
+      throw new ForbiddenError();
+    }
+    await purgeItem(db, userId, kind, id, item.path);
+  }
+  await recordAudit(db, userId, 'purged', { kind, id });
+}
+
+/**
+ * Delete every trashed item older than the cutoff, or all of them without one
+ */
+async function purgeTrash(db: Database, userId: string, cutoff?: number): Promise<number> {
+  const isExpired = (deletedAt?: string) => cutoff === undefined || (!!deletedAt && new Date(deletedAt).getTime() < cutoff);
+  const entries = (await db.getTrashedDiaryEntries(userId)).filter(entry => isExpired(entry.deletedAt));
+  const files = (await db.getTrashedFileItems(userId)).filter(item => isExpired(item.deletedAt));
+
+  let removed = 0;
+  for (const entry of entries) {
+    await purgeItem(db, userId, 'diary', entry.id);
+    removed++;
+  }
+  for (const item of files) {
+    try {
+      await purgeItem(db, userId, 'file', item.id, item.path);
+      removed++;
+    } catch (error) {
+      // Either the row is still in the trash, or the blob is left for the integrity check to purge
+      log.error('Error purging trashed file', { id: item.id, error });
+    }
+  }
+  return removed;
+}
+
+export async function emptyTrash(db: Database, userId: string): Promise<number> {
+  const removed = await purgeTrash(db, userId);
+  await recordAudit(db, userId, 'purged', { count: removed });
+  return removed;
+}
+
+/**
+ * Apply the user's retention setting. Needs no data key, so it also runs at startup.
+ */
+export async function purgeExpiredTrash(db: Database, userId: string): Promise<number> {
+  const days = await getTrashRetentionDays(db, userId);
+  if (days <= 0) return 0;
+
+  const removed = await purgeTrash(db, userId, Date.now() - days * DAY_MS);
+  if (removed > 0) {
+    log.info('Purged expired trash', { userId, removed });
+    await recordAudit(db, userId, 'purged', { count: removed, reason: 'retention', days });
+  }
+  return removed;
+}
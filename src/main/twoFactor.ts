@@ -0,0 +1,105 @@
+import QRCode from 'qrcode';
+import { Database } from '../storage/database';
+import { AppError } from '../shared/errors';
+import { TwoFactorSetup, TwoFactorStatus } from '../shared/types';
+import { encryptText, decryptText } from './encryption';
+import {
+  generateTotpSecret,
+  totpUri,
+  isTotpCode,
+  verifyTotp,
+  generateBackupCodes,
+  hashBackupCode
+} from './totp';
+
+// Secrets shown to the user but not confirmed with a code yet, by user id
+const pendingSecrets = new Map<string, string>();
+
+interface TwoFactorSecrets {
+  secret: string;
+  backupCodeHashes: string[];
+  lastUsedStep: number | null;
+}
+
+async function loadSecrets(db: Database, userId: string, dataKey: Buffer): Promise<TwoFactorSecrets | null> {
+  const row = await db.getTwoFactor(userId);
+  if (!row) return null;
+  return {
+    secret: decryptText(row.secret, dataKey),
+    backupCodeHashes: JSON.parse(decryptText(row.backupCodes, dataKey)),
+    lastUsedStep: row.lastUsedStep
+  };
+}
+
+export async function isTwoFactorEnabled(db: Database, userId: string): Promise<boolean> {
+  return !!(await db.getTwoFactor(userId));
+}
+
+export async function getTwoFactorStatus(db: Database, userId: string, dataKey: Buffer): Promise<TwoFactorStatus> {
+  const secrets = await loadSecrets(db, userId, dataKey);
+  return { enabled: !!secrets, backupCodesLeft: secrets ? secrets.backupCodeHashes.length : 0 };
+}
+
+/**
+ * Generate a secret and its QR code. Nothing is stored until the user
+ * proves the authenticator has it by entering a code.
+ */
+export async function beginEnrolment(userId: string, accountName: string): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+  pendingSecrets.set(userId, secret);
+
+  const uri = totpUri(secret, accountName);
+  return { secret, uri, qrDataUrl: await QRCode.toDataURL(uri) };
+}
+
+/**
+ * Enable two-factor login. Returns the backup codes; they are shown once and only their hashes are kept.
+ */
+export async function confirmEnrolment(db: Database, userId: string, dataKey: Buffer, code: string): Promise<string[]> {
+  const secret = pendingSecrets.get(userId);
+  if (!secret) {
+    throw new AppError('NOT_FOUND', 'Настройка двухфакторной аутентификации не начата');
+  }
+
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    throw new AppError('INVALID_CREDENTIALS', 'Неверный код подтверждения');
+  }
+
+  const backupCodes = generateBackupCodes();
+  await db.saveTwoFactor(
+    userId,
+    encryptText(secret, dataKey),
+    encryptText(JSON.stringify(backupCodes.map(hashBackupCode)), dataKey),
+    step
+  );
+  pendingSecrets.delete(userId);
+  return backupCodes;
+}
+
+/**
+ * Check a code from the authenticator app or one of the backup codes.
+ * A used TOTP step and a used backup code are both refused afterwards.
+ */
+export async function verifySecondFactor(db: Database, userId: string, dataKey: Buffer, code: string): Promise<boolean> {
+  const secrets = await loadSecrets(db, userId, dataKey);
+  if (!secrets) return true;
+
+  if (isTotpCode(code)) {
+    const step = verifyTotp(secrets.secret, code, secrets.lastUsedStep);
+    if (step === null) return false;
+    await db.updateTwoFactorUsage(userId, encryptText(JSON.stringify(secrets.backupCodeHashes), dataKey), step);
+    return true;
+  }
+
+  const hash = hashBackupCode(code);
+  if (!secrets.backupCodeHashes.includes(hash)) return false;
+  const remaining = secrets.backupCodeHashes.filter(h => h !== hash);
+  await db.updateTwoFactorUsage(userId, encryptText(JSON.stringify(remaining), dataKey), secrets.lastUsedStep);
+  return true;
+}
+
+export async function disableTwoFactor(db: Database, userId: string) {
+  pendingSecrets.delete(userId);
+  await db.deleteTwoFactor(userId);
+}
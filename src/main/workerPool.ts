@@ -0,0 +1,164 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { CancelledError } from '../shared/errors';
+import {
+  TaskProgressUpdate,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTaskInput,
+  WorkerTaskName,
+  WorkerTaskOutput
+} from './workerTasks';
+import { getLogger } from './logger';
+
+const log = getLogger('workerPool');
+
+// One core is left for the main process and the renderer
+const POOL_SIZE = Math.max(1, Math.min(os.cpus().length - 1, 4));
+
+interface PendingTask {
+  worker: PoolWorker;
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+  onProgress?: (update: TaskProgressUpdate) => void;
+}
+
+interface PoolWorker {
+  thread: Worker;
+  running: number;
+}
+
+export interface RunTaskOptions {
+  onProgress?: (update: TaskProgressUpdate) => void;
+  signal?: AbortSignal;
+}
+
+const workers: PoolWorker[] = [];
+const pending = new Map<number, PendingTask>();
+let nextTaskId = 1;
+
+function startWorker(): PoolWorker {
+  const worker: PoolWorker = {
+    thread: new Worker(path.join(__dirname, 'cryptoWorker.js')),
+    running: 0
+  };
+
+  worker.thread.on('message', (response: WorkerResponse) => {
+    const task = pending.get(response.id);
+    if (!task) return;
+    if ('progress' in response) {
+      task.onProgress?.(response.progress);
+      return;
+    }
+
+    pending.delete(response.id);
+    worker.running--;
+    if ('result' in response) {
+      task.resolve(response.result);
+    } else if (response.error.name === 'AbortError') {
+      task.reject(new CancelledError());
+    } else {
+      const error = new Error(response.error.message);
+      error.name = response.error.name;
+      task.reject(error);
+    }
+  });
+
+  // A crashed worker takes its tasks with it; the next task starts a fresh one
+  const fail = (error: Error) => {
+    log.error('Worker stopped', { error });
+    workers.splice(workers.indexOf(worker), 1);
+    for (const [id, task] of pending) {
+      if (task.worker === worker) {
+        pending.delete(id);
+        task.reject(error);
+      }
+    }
+  };
+  worker.thread.on('error', fail);
+  worker.thread.on('exit', code => {
+    if (workers.includes(worker)) {
+      fail(new Error(`Worker exited with code ${code}`));
+    }
+  });
+
+  workers.push(worker);
+  return worker;
+}
+
+/**
+ * The least busy worker; workers are started on demand up to the pool size
+ */
+function pickWorker(): PoolWorker {
+  const idle = workers.find(worker => worker.running === 0);
+  if (idle) return idle;
+  if (workers.length < POOL_SIZE) return startWorker();
+  return workers.reduce((best, worker) => (worker.running < best.running ? worker : best));
+}
+
+/**
+ * Copy binary fields, the data key above all, into buffers of their own and move them to the worker.
+ * A Buffer may be a view into Node's shared pool; cloning it would send the whole pool,
+ * with whatever else is in it, and the worker would only wipe its own slice.
+ */
+function isolateBinaryFields(input: Record<string, unknown>): { message: Record<string, unknown>; transfer: ArrayBuffer[] } {
+  const message: Record<string, unknown> = { ...input };
+  const transfer: ArrayBuffer[] = [];
+  for (const [key, value] of Object.entries(input)) {
+    if (value instanceof Uint8Array) {
+      const copy = new Uint8Array(value);
+      message[key] = copy;
+      transfer.push(copy.buffer);
+    }
+  }
+  return { message, transfer };
+}
+
+/**
+ * Run a task from workerTasks in a worker thread.
+ * Aborting the signal stops the task between chunks and rejects with CancelledError.
+ */
+export function runTask<N extends WorkerTaskName>(
+  task: N,
+  input: WorkerTaskInput<N>,
+  options: RunTaskOptions = {}
+): Promise<WorkerTaskOutput<N>> {
+  if (options.signal?.aborted) {
+    return Promise.reject(new CancelledError());
+  }
+
+  const worker = pickWorker();
+  const id = nextTaskId++;
+
+  return new Promise<WorkerTaskOutput<N>>((resolve, reject) => {
+    const onAbort = () => {
+      worker.thread.postMessage({ id, cancel: true } satisfies WorkerRequest);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    pending.set(id, {
+      worker,
+      resolve: result => {
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(result as WorkerTaskOutput<N>);
+      },
+      reject: error => {
+        options.signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress: options.onProgress
+    });
+    worker.running++;
+    const { message, transfer } = isolateBinaryFields(input as Record<string, unknown>);
+    worker.thread.postMessage({ id, task, input: message } satisfies WorkerRequest, transfer);
+  });
+}
+
+/**
+ * Stop all workers on quit
+ */
+export async function terminateWorkers() {
+  const stopping = workers.splice(0);
+  await Promise.all(stopping.map(worker => worker.thread.terminate()));
+}
@@ -0,0 +1,103 @@
+import { FileItem } from '../shared/types';
+import {
+  decryptFile,
+  encryptFile,
+  hashPassword,
+  reencryptFile,
+  unwrapDataKey,
+  verifyFile,
+  verifyPassword,
+  wrapDataKey
+} from './encryption';
+import { AiExportInput, writeAiExport } from './aiExport';
+import { extractDocumentText } from './textExtraction';
+import { reencryptPasswordFields, upgradeLegacyRows } from './legacyText';
+import type { LegacyEncryptedRows } from '../storage/database';
+
+// Runs inside worker threads: nothing here may import electron
+
+export interface TaskProgressUpdate {
+  done: number;
+  total: number;
+  current?: string;
+}
+
+export interface TaskContext {
+  signal: AbortSignal;
+  progress(update: TaskProgressUpdate): void;
+}
+
+/**
+ * Data keys cross the thread boundary as a copy and are wiped once the task is done
+ */
+async function withKey<T>(key: Uint8Array, run: (dataKey: Buffer) => Promise<T> | T): Promise<T> {
+  const dataKey = Buffer.from(key.buffer, key.byteOffset, key.byteLength);
+  try {
+    return await run(dataKey);
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+const byteProgress = (context: TaskContext) => ({
+  signal: context.signal,
+  onProgress: (done: number, total: number) => context.progress({ done, total })
+});
+
+/**
+ * CPU-heavy work that would block the main process: password KDFs, file encryption,
+ * text extraction for the search index, re-encrypting legacy and password-encrypted text and the AI export
+ */
+export const workerTasks = {
+  hashPassword: (input: { password: string }) => hashPassword(input.password),
+
+  verifyPassword: (input: { password: string; hash: string }) => verifyPassword(input.password, input.hash),
+
+  wrapDataKey: (input: { key: Uint8Array; password: string }) =>
+    withKey(input.key, dataKey => wrapDataKey(dataKey, input.password)),
+
+  unwrapDataKey: (input: { wrappedKey: string; password: string }): Uint8Array => {
+    const dataKey = unwrapDataKey(input.wrappedKey, input.password);
+    const copy = new Uint8Array(dataKey);
+    dataKey.fill(0);
+    return copy;
+  },
+
+  encryptFile: (input: { sourcePath: string; targetPath: string; key: Uint8Array }, context: TaskContext) =>
+    withKey(input.key, dataKey => encryptFile(input.sourcePath, input.targetPath, dataKey, byteProgress(context))),
+
+  decryptFile: (input: { sourcePath: string; targetPath: string; key: Uint8Array }, context: TaskContext) =>
+    withKey(input.key, dataKey => decryptFile(input.sourcePath, input.targetPath, dataKey, byteProgress(context))),
+
+  reencryptFile: (input: { sourcePath: string; targetPath: string; password: string; key: Uint8Array }) =>
+    withKey(input.key, dataKey => reencryptFile(input.sourcePath, input.targetPath, input.password, dataKey)),
+
+  verifyFile: (input: { path: string; key: Uint8Array }, context: TaskContext) =>
+    withKey(input.key, dataKey => verifyFile(input.path, dataKey, { signal: context.signal })),
+
+  extractDocumentText: (input: { path: string; type: FileItem['type']; key: Uint8Array }) =>
+    withKey(input.key, dataKey => extractDocumentText(input, dataKey)),
+
+  reencryptPasswordFields: (input: { values: string[]; password: string; key: Uint8Array }) =>
+    withKey(input.key, dataKey => reencryptPasswordFields(input.values, input.password, dataKey)),
+
+  upgradeLegacyText: (input: { rows: LegacyEncryptedRows; key: Uint8Array }) =>
+    withKey(input.key, dataKey => upgradeLegacyRows(input.rows, dataKey)),
+
+  exportForAI: (input: AiExportInput & { key: Uint8Array }, context: TaskContext) =>
+    withKey(input.key, dataKey => writeAiExport(input, dataKey, context))
+};
+
+export type WorkerTasks = typeof workerTasks;
+export type WorkerTaskName = keyof WorkerTasks;
+export type WorkerTaskInput<N extends WorkerTaskName> = Parameters<WorkerTasks[N]>[0];
+export type WorkerTaskOutput<N extends WorkerTaskName> = Awaited<ReturnType<WorkerTasks[N]>>;
+
+export type WorkerRequest =
+  | { id: number; task: WorkerTaskName; input: unknown }
+  | { id: number; cancel: true };
+
+export type WorkerResponse =
+  | { id: number; progress: TaskProgressUpdate }
+  | { id: number; result: unknown }
+  | { id: number; error: { name: string; message: string } };
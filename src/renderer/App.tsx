@@ -3,23 +3,38 @@ import { Login } from './Login';
 import DataTable from './DataTable';
 import Sidebar from './Sidebar';
 import Profile from './Profile';
+import LockScreen from './LockScreen';
+import IntegrityCheck from './IntegrityCheck';
+import TaskProgressBar from './TaskProgressBar';
+import { LockReason } from '../shared/types';
 
 interface AppState {
   isLoggedIn: boolean;
   userId: string | null;
+  sessionToken: string | null;
   userName: string;
   showProfile: boolean;
+  showIntegrity: boolean;
   profilePhoto: string | null;
+  lockReason: LockReason | null;
 }
 
+const loggedOutState: AppState = {
+  isLoggedIn: false,
+  userId: null,
+  sessionToken: null,
+  userName: 'Пользователь',
+  showProfile: false,
+  showIntegrity: false,
+  profilePhoto: null,
+  lockReason: null,
+};
+
+// Токен сессии живёт 30 минут, обновляем его заранее
+const SESSION_REFRESH_MS = 10 * 60 * 1000;
+
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>({
-    isLoggedIn: false,
-    userId: null,
-    userName: 'Пользователь',
-    showProfile: false,
-    profilePhoto: null,
-  });
+  const [state, setState] = useState<AppState>(loggedOutState);
 
   const dataTableRef = useRef<any>(null);
 
@@ -31,33 +46,81 @@ const App: React.FC = () => {
     localStorage.removeItem('token');
   }, []);
 
-  const handleLogin = async (userId: string) => {
+  // Main process wipes the key and asks to lock; the rest of the UI stays mounted
+  useEffect(() => {
+    return window.api.vault.onLocked(({ userId, reason }) => {
+      setState(prev => (prev.userId === userId ? { ...prev, lockReason: reason } : prev));
+    });
+  }, []);
+
+  useEffect(() => {
+    const token = state.sessionToken;
+    if (!token) return;
+
+    const timer = setInterval(async () => {
+      const result = await window.api.auth.refreshToken({ token });
+      if (result.ok) {
+        localStorage.setItem('token', result.data.token);
+        setState(prev => ({ ...prev, sessionToken: result.data.token }));
+      } else {
+        // Сессия истекла или отозвана — нужен повторный вход
+        localStorage.removeItem('token');
+        setState(loggedOutState);
+      }
+    }, SESSION_REFRESH_MS);
+
+    return () => clearInterval(timer);
+  }, [state.sessionToken]);
+
+  const handleLogin = async (userId: string, sessionToken: string) => {
     // Сохраняем токен для возможности использования в этой сессии
-    localStorage.setItem('token', userId);
-    const user = await window.api.auth.getUser(userId);
+    localStorage.setItem('token', sessionToken);
+    const userResult = await window.api.auth.getUser();
+    const user = userResult.ok ? userResult.data : null;
     
     // Загружаем фото профиля с диска
-    const photoResult = await window.api.profile.loadPhoto(userId);
-    const profilePhoto = photoResult.success ? photoResult.photoData || null : null;
+    const photoResult = await window.api.profile.loadPhoto();
+    const profilePhoto = photoResult.ok ? photoResult.data : null;
     console.log('Loading profile photo for user:', userId, 'Photo found:', !!profilePhoto);
     
     setState({ 
       isLoggedIn: true, 
       userId,
+      sessionToken,
       userName: user?.name || 'Пользователь',
       showProfile: false,
-      profilePhoto: profilePhoto
+      showIntegrity: false,
+      profilePhoto: profilePhoto,
+      lockReason: null
     });
   };
 
   const handleLogout = async () => {
-    await window.api.auth.logout(state.userId);
+    await window.api.auth.logout({ token: state.sessionToken });
     localStorage.removeItem('token');
-    setState({ isLoggedIn: false, userId: null, userName: 'Пользователь', showProfile: false, profilePhoto: null });
+    setState(loggedOutState);
+  };
+
+  const handleLock = async () => {
+    if (state.userId) {
+      await window.api.vault.lock();
+    }
+  };
+
+  const handleUnlock = () => {
+    setState(prev => ({ ...prev, lockReason: null }));
   };
 
   const handleShowProfile = () => {
-    setState(prev => ({ ...prev, showProfile: true }));
+    setState(prev => ({ ...prev, showProfile: true, showIntegrity: false }));
+  };
+
+  const handleShowIntegrity = () => {
+    setState(prev => ({ ...prev, showIntegrity: true, showProfile: false }));
+  };
+
+  const handleCloseIntegrity = () => {
+    setState(prev => ({ ...prev, showIntegrity: false }));
   };
 
   const handleCloseProfile = () => {
@@ -87,10 +150,10 @@ const App: React.FC = () => {
   const handleBackup = async () => {
     try {
       const result = await window.api.database.backup();
-      if (result.success) {
+      if (!result.ok) {
+        alert('Ошибка создания бэкапа: ' + result.error.message);
+      } else if (!result.data.cancelled) {
         alert('Бэкап успешно создан!');
-      } else if (!result.cancelled) {
-        alert('Ошибка создания бэкапа: ' + (result.error || 'Неизвестная ошибка'));
       }
     } catch (error) {
       console.error('Error creating backup:', error);
@@ -101,11 +164,11 @@ const App: React.FC = () => {
   const handleRestore = async () => {
     try {
       const result = await window.api.database.restore();
-      if (result.success) {
+      if (!result.ok) {
+        alert('Ошибка восстановления: ' + result.error.message);
+      } else if (!result.data.cancelled) {
         alert('База данных успешно восстановлена! Пожалуйста, перезайдите в приложение.');
         handleLogout();
-      } else if (!result.cancelled) {
-        alert('Ошибка восстановления: ' + (result.error || 'Неизвестная ошибка'));
       }
     } catch (error) {
       console.error('Error restoring backup:', error);
@@ -135,7 +198,9 @@ const App: React.FC = () => {
             onBackup={handleBackup}
             onRestore={handleRestore}
             onExport={handleExport}
+            onIntegrityCheck={handleShowIntegrity}
             onProfileClick={handleShowProfile}
+            onLock={handleLock}
           />
           <main className="flex-1 overflow-auto bg-white">
             {state.showProfile ? (
@@ -146,12 +211,23 @@ const App: React.FC = () => {
                 onUserDataUpdate={handleUserDataUpdate}
                 onProfilePhotoUpdate={handleProfilePhotoUpdate}
               />
+            ) : state.showIntegrity ? (
+              <IntegrityCheck onClose={handleCloseIntegrity} />
             ) : (
               <div className="max-w-7xl mx-auto px-8 py-6">
                 <DataTable userId={state.userId!} ref={dataTableRef} />
               </div>
             )}
           </main>
+          <TaskProgressBar />
+          {state.lockReason && (
+            <LockScreen
+              userName={state.userName}
+              reason={state.lockReason}
+              onUnlock={handleUnlock}
+              onLogout={handleLogout}
+            />
+          )}
         </>
       )}
     </div>
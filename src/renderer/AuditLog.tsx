@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { AUDIT_EVENTS, AuditEntry, AuditEvent } from '../shared/types';
+
+interface AuditLogProps {
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 200;
+
+const eventLabels: Record<AuditEvent, string> = {
+  'login': 'Вход',
+  'login-failed': 'Неудачная попытка входа',
+  'logout': 'Выход',
+  'file-viewed': 'Просмотр файла',
+  'file-opened': 'Открытие файла во внешней программе',
+  'deleted': 'Перемещение в корзину',
+  'restored': 'Восстановление из корзины',
+  'purged': 'Окончательное удаление',
+  'backup': 'Резервная копия',
+  'restore': 'Восстановление из копии',
+  'export': 'Экспорт для ИИ'
+};
+
+const sourceLabels: Record<string, string> = {
+  login: 'вход по паролю',
+  register: 'регистрация',
+  recover: 'код восстановления',
+  unlock: 'разблокировка',
+  'disable-2fa': 'отключение 2FA'
+};
+
+const reasonLabels: Record<string, string> = {
+  'unknown-account': 'неизвестная учётная запись',
+  'wrong-password': 'неверный пароль',
+  'wrong-code': 'неверный код',
+  'locked-out': 'вход временно заблокирован',
+  retention: 'истёк срок хранения в корзине'
+};
+
+const kindLabels: Record<string, string> = {
+  diary: 'запись дневника',
+  media: 'медиафайл',
+  file: 'файл',
+  'orphan-blobs': 'осиротевшие файлы'
+};
+
+// Краткое описание подробностей записи журнала
+const describe = (entry: AuditEntry): string => {
+  const d = entry.details;
+  const parts: string[] = [];
+  if (typeof d.source === 'string') parts.push(sourceLabels[d.source] || d.source);
+  if (typeof d.reason === 'string') parts.push(reasonLabels[d.reason] || d.reason);
+  if (typeof d.kind === 'string') parts.push(kindLabels[d.kind] || d.kind);
+  if (typeof d.name === 'string') parts.push(d.name);
+  if (typeof d.count === 'number') parts.push(`${d.count} шт.`);
+  if (typeof d.quarantinePath === 'string') parts.push(`в карантин: ${d.quarantinePath}`);
+  const target = d.filePath ?? d.backupPath ?? d.path;
+  if (typeof target === 'string') parts.push(target);
+  return parts.join(', ');
+};
+
+// Начало и конец выбранных дней в ISO, как хранится created_at
+const dayStart = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : undefined);
+const dayEnd = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined);
+
+const AuditLog: React.FC<AuditLogProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [event, setEvent] = useState<AuditEvent | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const result = await window.api.audit.list({
+        events: event ? [event] : undefined,
+        from: dayStart(from),
+        to: dayEnd(to),
+        limit: PAGE_SIZE
+      });
+      if (cancelled) return;
+      if (result.ok) {
+        setEntries(result.data);
+        setError('');
+      } else {
+        setError(result.error.message);
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [event, from, to]);
+
+  const inputClassName = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Журнал доступа</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-sm font-medium">
+          Скрыть
+        </button>
+      </div>
+
+      <div className="px-6 py-4 flex flex-wrap gap-3 border-b border-gray-200">
+        <select
+          value={event}
+          onChange={(e) => setEvent(e.target.value as AuditEvent | '')}
+          className={inputClassName}
+        >
+          <option value="">Все события</option>
+          {AUDIT_EVENTS.map(name => (
+            <option key={name} value={name}>{eventLabels[name]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          с
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          по
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+        </label>
+      </div>
+
+      <div className="px-6 py-4">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : loading ? (
+          <p className="text-sm text-gray-500">Загрузка...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">Нет событий</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className="border-b border-gray-100 last:border-0 align-top">
+                  <td className="py-2 pr-4 whitespace-nowrap text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString('ru-RU')}
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap text-gray-900">{eventLabels[entry.event] || entry.event}</td>
+                  <td className="py-2 text-gray-600 break-all">{describe(entry)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {entries.length === PAGE_SIZE && (
+          <p className="mt-3 text-xs text-gray-500">
+            Показаны последние {PAGE_SIZE} событий. Уточните период, чтобы увидеть более ранние.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -1,6 +1,8 @@
-import React, { useEffect, useState, forwardRef, useImperativeHandle, useMemo, useCallback } from 'react';
-import { DiaryEntry, FileItem } from '../shared/types';
+import React, { useEffect, useState, useRef, forwardRef, useImperativeHandle, useMemo, useCallback } from 'react';
+import { DiaryEntry, FileItem, ItemPage, ItemQuery, PageCursor, SearchResult, SearchSnippet, Tag } from '../shared/types';
+import { unwrap } from './ipc';
 import { PencilIcon, DocumentIcon, TrashIcon } from '@heroicons/react/24/outline';
+import TrashView from './TrashView';
 
 interface DataTableProps {
   userId: string;
@@ -18,122 +20,340 @@ interface TableItem {
   date: string;
   title: string;
   originalType: string;
+  tags: string[];
   data: DiaryEntry | FileItem;
 }
 
+const SEARCH_DELAY_MS = 300;
+const SEARCH_LIMIT = 1000;
+
+const PAGE_SIZE = 100;
+const ROW_HEIGHT = 112; // Высота строки фиксирована, поэтому рисуются только видимые строки
+const OVERSCAN_ROWS = 10;
+const LOAD_AHEAD_ROWS = 50; // За сколько строк до конца загружается следующая страница
+
+const searchKey = (type: ItemType, id: string) => `${type}:${id}`;
+
+// Фрагмент текста с подсветкой найденных слов
+function renderSnippet(snippet: SearchSnippet) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 rounded-sm">{snippet.text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+  return parts;
+}
+
+const toDiaryRow = (entry: DiaryEntry): TableItem => ({
+  id: entry.id,
+  type: 'diary',
+  date: entry.createdAt,
+  title: entry.title,
+  originalType: entry.type,
+  tags: entry.tags || [],
+  data: entry
+});
+
+const toFileRow = (item: FileItem): TableItem => ({
+  id: item.id,
+  type: 'file',
+  date: item.createdAt,
+  title: item.metadata?.title || item.name,
+  originalType: item.type,
+  tags: item.tags || [],
+  data: item
+});
+
+// Тот же порядок, что и в базе: новые первыми, при равной дате — по id
+function compareRows(a: TableItem, b: TableItem): number {
+  if (a.date !== b.date) return a.date < b.date ? 1 : -1;
+  return a.id === b.id ? 0 : a.id < b.id ? 1 : -1;
+}
+
+/**
+ * Filters sent to the database; null while the search results are not there yet
+ */
+interface RowFilters {
+  kinds: ItemType[];
+  query: Omit<ItemQuery<never>, 'limit' | 'cursor' | 'ids'>;
+  search: Map<string, SearchResult> | null;
+}
+
+/**
+ * Pages of one kind, read ahead of the merged list
+ */
+interface RowStream {
+  buffer: TableItem[];
+  cursor?: PageCursor;
+  done: boolean;
+  total: number;
+}
+
+const newStreams = (): Record<ItemType, RowStream> => ({
+  diary: { buffer: [], done: false, total: 0 },
+  file: { buffer: [], done: false, total: 0 }
+});
+
+async function fetchRows(kind: ItemType, query: ItemQuery<never>): Promise<ItemPage<TableItem>> {
+  if (kind === 'diary') {
+    const page = unwrap(await window.api.diary.query(query));
+    return { ...page, items: page.items.map(toDiaryRow) };
+  }
+  const page = unwrap(await window.api.file.query(query));
+  return { ...page, items: page.items.map(toFileRow) };
+}
+
+/**
+ * Read at least `count` rows, newest first, merging the pages of diary entries and files.
+ * A row is taken only when every kind that isn't exhausted has a row buffered, so the order is exact.
+ */
+async function readRows(
+  streams: Record<ItemType, RowStream>,
+  filters: RowFilters,
+  count: number,
+  linkedTitles: Record<string, string>
+): Promise<TableItem[]> {
+  const { kinds, query, search } = filters;
+  // Найденные поиском записи загружаются целиком и сортируются по релевантности
+  const pageSize = search ? SEARCH_LIMIT : PAGE_SIZE;
+  const wanted = search ? Infinity : count;
+  const rows: TableItem[] = [];
+
+  for (;;) {
+    const pending = kinds.filter(kind => streams[kind].buffer.length === 0 && !streams[kind].done);
+    await Promise.all(pending.map(async kind => {
+      const stream = streams[kind];
+      const ids = search
+        ? Array.from(search.values()).filter(result => result.kind === kind).map(result => result.id)
+        : undefined;
+      if (ids && ids.length === 0) {
+        stream.done = true;
+        return;
+      }
+
+      const page = await fetchRows(kind, { ...query, ids, cursor: stream.cursor, limit: pageSize });
+      stream.buffer.push(...page.items);
+      stream.cursor = page.nextCursor ?? undefined;
+      stream.done = page.nextCursor === null;
+      stream.total = page.total;
+      Object.assign(linkedTitles, page.linkedTitles);
+    }));
+
+    while (rows.length < wanted) {
+      if (kinds.some(kind => streams[kind].buffer.length === 0 && !streams[kind].done)) break;
+      const heads = kinds.filter(kind => streams[kind].buffer.length > 0);
+      if (heads.length === 0) break;
+      const newest = heads.reduce((a, b) => (compareRows(streams[a].buffer[0], streams[b].buffer[0]) <= 0 ? a : b));
+      rows.push(streams[newest].buffer.shift()!);
+    }
+
+    const exhausted = kinds.every(kind => streams[kind].done && streams[kind].buffer.length === 0);
+    if (rows.length >= wanted || exhausted) break;
+  }
+
+  if (search) {
+    const score = (row: TableItem) => search.get(searchKey(row.type, row.id))?.score ?? 0;
+    rows.sort((a, b) => score(b) - score(a));
+  }
+  return rows;
+}
+
 const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) => {
-  const [items, setItems] = useState<TableItem[]>([]);
+  const [rows, setRows] = useState<TableItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [linkedTitleMap, setLinkedTitleMap] = useState<Record<string, string>>({});
+  const [tags, setTags] = useState<Tag[]>([]);
   const [loading, setLoading] = useState(true);
-  
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [view, setView] = useState<'items' | 'trash'>('items');
+  // Увеличивается после изменений, чтобы перечитать загруженные строки
+  const [revision, setRevision] = useState(0);
+
   // Filter states
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [typeFilter, setTypeFilter] = useState<ItemType | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  // Результаты полнотекстового поиска по id записей
+  const [searchResults, setSearchResults] = useState<Map<string, SearchResult> | null>(null);
 
-  // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(20); // Show 20 items per page
+  // Virtual scrolling states
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
 
-  const loadData = useCallback(async () => {
+  const streamsRef = useRef(newStreams());
+  const generationRef = useRef(0); // Ответы на устаревшие запросы отбрасываются
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+  const lastFiltersRef = useRef<RowFilters | null>(null);
+
+  const searching = searchQuery.trim() !== '';
+
+  const loadTags = useCallback(async () => {
     try {
-      setLoading(true);
-      const startTime = performance.now();
-      
-      // Параллельная загрузка всех данных
-      const [diaryEntries, fileItems] = await Promise.all([
-        window.api.diary.getAll(userId),
-        window.api.files.getAll(userId)
-      ]);
-
-      console.log('Data loaded in', performance.now() - startTime, 'ms');
-
-      // Быстрое преобразование данных
-      const allItems: TableItem[] = [
-        ...diaryEntries.map(entry => ({
-          id: entry.id,
-          type: 'diary' as const,
-          date: entry.createdAt,
-          title: entry.title,
-          originalType: entry.type,
-          data: entry
-        })),
-        ...fileItems.map(item => ({
-          id: item.id,
-          type: 'file' as const,
-          date: item.createdAt,
-          title: item.metadata?.title || item.name,
-          originalType: item.type,
-          data: item
-        }))
-      ];
-
-      // Сортировка по дате (новые первыми)
-      allItems.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-      setItems(allItems);
-      console.log('Total processing time:', performance.now() - startTime, 'ms');
+      const allTags = unwrap(await window.api.tag.list());
+      setTags(allTags);
+      // Тег мог исчезнуть вместе с последней отмеченной им записью
+      setTagFilter(current => (allTags.some(tag => tag.name === current) ? current : ''));
     } catch (error) {
-      console.error('Error loading data:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error loading tags:', error);
     }
   }, [userId]);
 
+  const loadData = useCallback(async () => {
+    await loadTags();
+    setRevision(current => current + 1);
+  }, [loadTags]);
+
   useEffect(() => {
-    loadData();
-  }, [loadData]);
+    loadTags();
+  }, [loadTags]);
+
+  // Поиск по содержимому выполняется в главном процессе, пока пользователь не перестанет печатать
+  useEffect(() => {
+    if (!searching) {
+      setSearchResults(null);
+      return;
+    }
 
-  // Apply filters using useMemo for better performance
-  const filteredItems = useMemo(() => {
-    let result = items;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = unwrap(await window.api.search.query({ query: searchQuery, limit: SEARCH_LIMIT }));
+        if (!cancelled) {
+          setSearchResults(new Map(results.map(result => [searchKey(result.kind, result.id), result])));
+        }
+      } catch (error) {
+        console.error('Error searching:', error);
+        if (!cancelled) {
+          setSearchResults(new Map());
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, searching, revision]);
+
+  // Date, type and tag filters are applied by the database
+  const filters = useMemo<RowFilters | null>(() => {
+    if (searching && !searchResults) {
+      return null;
+    }
 
-    // Filter by date range
+    const query: RowFilters['query'] = {};
     if (dateFrom) {
-      const fromDate = new Date(dateFrom);
-      result = result.filter(item => new Date(item.date) >= fromDate);
+      query.dateFrom = new Date(dateFrom).toISOString();
     }
     if (dateTo) {
       const toDate = new Date(dateTo);
       toDate.setHours(23, 59, 59, 999); // Include the entire end date
-      result = result.filter(item => new Date(item.date) <= toDate);
+      query.dateTo = toDate.toISOString();
     }
-
-    // Filter by type
-    if (typeFilter !== 'all') {
-      result = result.filter(item => item.type === typeFilter);
+    if (tagFilter) {
+      query.tag = tagFilter;
     }
 
-    // Filter by search query (title)
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(item => 
-        item.title.toLowerCase().includes(query)
-      );
+    return {
+      kinds: typeFilter === 'all' ? ['diary', 'file'] : [typeFilter],
+      query,
+      search: searching ? searchResults : null
+    };
+  }, [dateFrom, dateTo, typeFilter, tagFilter, searching, searchResults]);
+
+  // Load the first pages again when filters change; after an edit, as many rows as were loaded
+  useEffect(() => {
+    if (!filters) return;
+    const keepLoaded = lastFiltersRef.current === filters;
+    lastFiltersRef.current = filters;
+
+    const generation = ++generationRef.current;
+    const streams = newStreams();
+    const titles: Record<string, string> = {};
+    const count = keepLoaded ? Math.max(PAGE_SIZE, rowsRef.current.length) : PAGE_SIZE;
+    setLoadingMore(true);
+
+    readRows(streams, filters, count, titles)
+      .then(loaded => {
+        if (generation !== generationRef.current) return;
+        streamsRef.current = streams;
+        setRows(loaded);
+        setLinkedTitleMap(titles);
+        setTotal(filters.kinds.reduce((sum, kind) => sum + streams[kind].total, 0));
+        setHasMore(filters.kinds.some(kind => !streams[kind].done || streams[kind].buffer.length > 0));
+        if (!keepLoaded) {
+          scrollRef.current?.scrollTo({ top: 0 });
+          setScrollTop(0);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading data:', error);
+      })
+      .finally(() => {
+        if (generation !== generationRef.current) return;
+        setLoadingMore(false);
+        setLoading(false);
+      });
+  }, [filters, searching ? 0 : revision]);
+
+  const loadMore = useCallback(async () => {
+    if (!filters) return;
+    const generation = generationRef.current;
+    const streams = streamsRef.current;
+    const titles: Record<string, string> = {};
+    setLoadingMore(true);
+
+    try {
+      const loaded = await readRows(streams, filters, PAGE_SIZE, titles);
+      if (generation !== generationRef.current) return;
+      setRows(current => [...current, ...loaded]);
+      setLinkedTitleMap(current => ({ ...current, ...titles }));
+      setHasMore(filters.kinds.some(kind => !streams[kind].done || streams[kind].buffer.length > 0));
+    } catch (error) {
+      console.error('Error loading data:', error);
+      setHasMore(false);
+    } finally {
+      if (generation === generationRef.current) {
+        setLoadingMore(false);
+      }
     }
+  }, [filters]);
 
-    return result;
-  }, [items, dateFrom, dateTo, typeFilter, searchQuery]);
+  // The next page is requested as the visible rows get close to the loaded end
+  useEffect(() => {
+    if (!hasMore || loadingMore) return;
+    const visibleEnd = Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT);
+    if (rows.length < visibleEnd + LOAD_AHEAD_ROWS) {
+      loadMore();
+    }
+  }, [rows.length, hasMore, loadingMore, scrollTop, viewportHeight, loadMore]);
 
-  // Reset to first page when filters change
+  const hasRows = rows.length > 0;
   useEffect(() => {
-    setCurrentPage(1);
-  }, [dateFrom, dateTo, typeFilter, searchQuery]);
-
-  // Calculate pagination with useMemo
-  const { totalPages, startIndex, endIndex, currentItems } = useMemo(() => {
-    const total = Math.ceil(filteredItems.length / itemsPerPage);
-    const start = (currentPage - 1) * itemsPerPage;
-    const end = start + itemsPerPage;
-    const items = filteredItems.slice(start, end);
-    
-    return {
-      totalPages: total,
-      startIndex: start,
-      endIndex: end,
-      currentItems: items
-    };
-  }, [filteredItems, currentPage, itemsPerPage]);
+    const container = scrollRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasRows, loading, view]);
+
+  // Названия связанных записей и файлов приходят вместе со страницей
+  const linkedTitles = useCallback((ids: string[] = []) => (
+    ids.map(id => linkedTitleMap[id]).filter(Boolean).join(', ')
+  ), [linkedTitleMap]);
+
+  // Only the rows in view, plus a margin, are rendered
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastVisible = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleRows = rows.slice(firstVisible, lastVisible);
 
   const handleAddItem = useCallback(async (type: ItemType) => {
     try {
@@ -141,25 +361,25 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
       
       switch (type) {
         case 'diary':
-          const diaryEntry = await window.api.dialog.showDiaryEntryForm(undefined, userId);
+          const diaryEntry = await window.api.dialog.showDiaryEntryForm();
           if (diaryEntry) {
-            const entry: Omit<DiaryEntry, 'id'> = {
-              userId,
+            const entry: Omit<DiaryEntry, 'id' | 'userId'> = {
               title: diaryEntry.title,
               content: diaryEntry.content,
               type: 'text',
               entryMode: diaryEntry.entryMode || 'standalone',
-              linkedItemId: diaryEntry.linkedItemId,
+              linkedFileIds: diaryEntry.linkedFileIds,
               createdAt: diaryEntry.customDate || new Date().toISOString(),
               updatedAt: new Date().toISOString()
             };
-            await window.api.diary.save(entry);
+            const id = unwrap(await window.api.diary.save(entry));
+            unwrap(await window.api.tag.set({ kind: 'diary', id, names: diaryEntry.tags }));
             await loadData();
           }
           break;
           
         case 'file':
-          result = await window.api.files.upload(userId);
+          result = unwrap(await window.api.file.upload());
           if (result) {
             const fileData = await window.api.dialog.showMediaFileForm('Добавление файла', result.metadata?.title || '', result.createdAt);
             if (fileData) {
@@ -167,15 +387,17 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
                 ...result.metadata,
                 title: fileData.title
               };
-              await window.api.files.updateMetadata(result.id, newMetadata, userId);
+              unwrap(await window.api.file.updateMetadata({ id: result.id, metadata: newMetadata }));
+              unwrap(await window.api.tag.set({ kind: 'file', id: result.id, names: fileData.tags }));
               // Обновляем дату создания, если она изменилась
               if (fileData.date !== result.createdAt) {
-                await window.api.files.updateDate(result.id, fileData.date);
+                unwrap(await window.api.file.updateDate({ id: result.id, date: fileData.date }));
               }
               await loadData();
             } else {
-              // Если пользователь отменил ввод данных, удаляем загруженный файл
-              await window.api.files.delete(result.id);
+              // Если пользователь отменил ввод данных, удаляем загруженный файл, минуя корзину
+              unwrap(await window.api.file.delete({ id: result.id }));
+              unwrap(await window.api.trash.delete({ kind: 'file', id: result.id }));
             }
           }
           break;
@@ -187,22 +409,26 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
     } catch (error) {
       console.error('Error adding item:', error);
     }
-  }, [userId, loadData]);
+  }, [loadData]);
 
   const handleEdit = useCallback(async (item: TableItem) => {
     try {
       if (item.type === 'diary') {
         const diaryEntry = item.data as DiaryEntry;
         const result = await window.api.dialog.showDiaryEntryForm({
+          id: diaryEntry.id,
           title: diaryEntry.title,
           content: diaryEntry.content,
           entryMode: diaryEntry.entryMode,
-          linkedItemId: diaryEntry.linkedItemId,
-          customDate: diaryEntry.createdAt
-        }, userId);
+          linkedFileIds: diaryEntry.linkedFileIds,
+          customDate: diaryEntry.createdAt,
+          tags: diaryEntry.tags
+        });
         
         if (result) {
-          await window.api.diary.update(diaryEntry.id, result, userId);
+          const { tags: names, ...entry } = result;
+          unwrap(await window.api.diary.update({ id: diaryEntry.id, entry }));
+          unwrap(await window.api.tag.set({ kind: 'diary', id: diaryEntry.id, names }));
           await loadData();
         }
       } else if (item.type === 'file') {
@@ -212,7 +438,7 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
           fileItem.metadata?.title || fileItem.name, 
           fileItem.createdAt,
           fileItem.path,
-          userId
+          fileItem.tags
         );
         
         if (result) {
@@ -220,11 +446,12 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
             ...fileItem.metadata,
             title: result.title
           };
-          await window.api.files.updateMetadata(fileItem.id, newMetadata, userId);
+          unwrap(await window.api.file.updateMetadata({ id: fileItem.id, metadata: newMetadata }));
+          unwrap(await window.api.tag.set({ kind: 'file', id: fileItem.id, names: result.tags }));
           
           // Обновляем дату, если она изменилась
           if (result.date !== fileItem.createdAt) {
-            await window.api.files.updateDate(fileItem.id, result.date);
+            unwrap(await window.api.file.updateDate({ id: fileItem.id, date: result.date }));
           }
           
           await loadData();
@@ -233,15 +460,15 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
     } catch (error) {
       console.error('Error editing entry:', error);
     }
-  }, [userId, loadData]);
+  }, [loadData]);
 
   const handleDelete = useCallback(async (item: TableItem) => {
     try {
-      const confirmed = await window.api.dialog.showConfirmDialog({
+      const confirmed = unwrap(await window.api.dialog.showConfirm({
         title: 'Подтверждение удаления',
-        message: 'После удаления запись восстановить невозможно. Удалить?',
+        message: 'Запись будет перемещена в корзину. Удалить?',
         buttons: ['Да', 'Нет']
-      });
+      }));
 
       if (confirmed !== 'Да') {
         return;
@@ -249,10 +476,10 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
 
       switch (item.type) {
         case 'diary':
-          await window.api.diary.delete(item.id);
+          unwrap(await window.api.diary.delete({ id: item.id }));
           break;
         case 'file':
-          await window.api.files.delete(item.id);
+          unwrap(await window.api.file.delete({ id: item.id }));
           break;
       }
       await loadData();
@@ -261,28 +488,31 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
     }
   }, [loadData]);
 
+  const filtersActive = Boolean(dateFrom || dateTo || typeFilter !== 'all' || tagFilter || searching);
+
   const handleClearFilters = useCallback(() => {
     setDateFrom('');
     setDateTo('');
     setTypeFilter('all');
+    setTagFilter('');
     setSearchQuery('');
   }, []);
 
   const handleExport = useCallback(async () => {
     try {
       // Вызываем IPC для экспорта с выбором папки
-      const result = await window.api.database.exportForAI(userId);
+      const result = await window.api.database.exportForAI();
       
-      if (result.success) {
-        alert(`Экспорт завершён успешно!\nПапка: ${result.path}\nЭкспортировано записей: ${result.count}`);
-      } else if (!result.cancelled) {
-        alert('Ошибка экспорта: ' + (result.error || 'Неизвестная ошибка'));
+      if (!result.ok) {
+        alert('Ошибка экспорта: ' + result.error.message);
+      } else if (!result.data.cancelled) {
+        alert(`Экспорт завершён успешно!\nПапка: ${result.data.path}\nЭкспортировано записей: ${result.data.count}`);
       }
     } catch (error) {
       console.error('Error exporting data:', error);
       alert('Ошибка при экспорте данных');
     }
-  }, [userId]);
+  }, []);
 
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
@@ -303,14 +533,42 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
     );
   }
 
+  if (view === 'trash') {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Корзина</h2>
+            <button
+              onClick={() => setView('items')}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Вернуться к записям
+            </button>
+          </div>
+          <TrashView onChanged={loadData} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200">
       <div className="px-4 py-5 sm:p-6">
         {/* Filters */}
         <div className="mb-6 space-y-4">
-          <h2 className="text-lg font-semibold text-gray-900">Фильтры</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Фильтры</h2>
+            <button
+              onClick={() => setView('trash')}
+              className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 font-medium"
+            >
+              <TrashIcon className="h-4 w-4" />
+              Корзина
+            </button>
+          </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             {/* Date From */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -349,21 +607,38 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
               >
                 <option value="all">Все типы</option>
                 <option value="diary">Дневник</option>
-                <option value="media">Медиа</option>
                 <option value="file">Файл</option>
               </select>
             </div>
 
+            {/* Tag Filter */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Тег
+              </label>
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">Все теги</option>
+                {tags.map(tag => (
+                  <option key={tag.id} value={tag.name}>{tag.name} ({tag.count})</option>
+                ))}
+              </select>
+            </div>
+
             {/* Search */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Поиск по названию
+                Поиск по содержимому
               </label>
               <input
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Введите название..."
+                maxLength={500}
+                placeholder="Слова из записей и документов..."
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
               />
             </div>
@@ -372,9 +647,10 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
           {/* Filter Actions */}
           <div className="flex items-center justify-between pt-2">
             <div className="text-sm text-gray-600">
-              Найдено записей: <span className="font-semibold">{filteredItems.length}</span> из {items.length}
+              Найдено записей: <span className="font-semibold">{total}</span>
+              {loadingMore && <span className="ml-2 text-gray-400">Загрузка...</span>}
             </div>
-            {(dateFrom || dateTo || typeFilter !== 'all' || searchQuery) && (
+            {filtersActive && (
               <button
                 onClick={handleClearFilters}
                 className="text-sm text-blue-600 hover:text-blue-700 font-medium"
@@ -386,7 +662,7 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
         </div>
 
         {/* Empty State */}
-        {items.length === 0 ? (
+        {rows.length === 0 && !filtersActive ? (
           <div className="text-center rounded-lg border-2 border-dashed border-gray-300 p-12">
             <DocumentIcon className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">Нет данных</h3>
@@ -394,7 +670,7 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
               Начните с добавления новой записи, медиафайла или документа.
             </p>
           </div>
-        ) : filteredItems.length === 0 ? (
+        ) : rows.length === 0 ? (
           /* No Results State */
           <div className="text-center rounded-lg border-2 border-dashed border-gray-300 p-12">
             <DocumentIcon className="mx-auto h-12 w-12 text-gray-400" />
@@ -408,9 +684,13 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
           <div className="mt-4 flow-root">
             <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
               <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
-                <div className="overflow-hidden shadow-sm ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+                <div
+                  ref={scrollRef}
+                  onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                  className="max-h-[70vh] overflow-y-auto shadow-sm ring-1 ring-black ring-opacity-5 sm:rounded-lg"
+                >
                   <table className="min-w-full divide-y divide-gray-300">
-                    <thead className="bg-gray-50">
+                    <thead className="sticky top-0 z-10 bg-gray-50">
                       <tr>
                         <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
                           Дата
@@ -429,19 +709,50 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
                         </th>
                       </tr>
                     </thead>
-                    <tbody className="divide-y divide-gray-200 bg-white">
-                      {currentItems.map((item, itemIdx) => (
-                        <tr key={item.id} className={itemIdx % 2 === 0 ? undefined : 'bg-gray-50'}>
+                    <tbody className="bg-white">
+                      {/* Строки за пределами видимой области заменены отступами той же высоты */}
+                      {firstVisible > 0 && <tr style={{ height: firstVisible * ROW_HEIGHT }} />}
+                      {visibleRows.map((item, offset) => (
+                        <tr
+                          key={searchKey(item.type, item.id)}
+                          style={{ height: ROW_HEIGHT }}
+                          className={(firstVisible + offset) % 2 === 0 ? undefined : 'bg-gray-50'}
+                        >
                           <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-500 sm:pl-6">
                             {new Date(item.date).toLocaleString()}
                           </td>
-                          <td className="whitespace-nowrap px-3 py-4 text-sm">
-                            <div className="font-medium text-gray-900">{item.title || 'Без названия'}</div>
-                            {item.type === 'diary' && (item.data as DiaryEntry).entryMode === 'linked' && (
-                              <div className="text-xs text-blue-600 mt-1">
-                                🔗 Связана с файлом
-                              </div>
-                            )}
+                          <td className="whitespace-nowrap px-3 py-2 text-sm">
+                            <div className="overflow-hidden" style={{ maxHeight: ROW_HEIGHT - 16 }}>
+                              <div className="font-medium text-gray-900 max-w-md truncate">{item.title || 'Без названия'}</div>
+                              {searching && searchResults?.get(searchKey(item.type, item.id))?.snippet && (
+                                <div className="text-xs text-gray-600 mt-1 max-w-md whitespace-normal">
+                                  {renderSnippet(searchResults.get(searchKey(item.type, item.id))!.snippet!)}
+                                </div>
+                              )}
+                              {item.type === 'diary' && (item.data as DiaryEntry).linkedFileIds.length > 0 && (
+                                <div className="text-xs text-blue-600 mt-1 max-w-md truncate" title={linkedTitles((item.data as DiaryEntry).linkedFileIds)}>
+                                  🔗 Связана с файлами: {linkedTitles((item.data as DiaryEntry).linkedFileIds)}
+                                </div>
+                              )}
+                              {item.type === 'file' && ((item.data as FileItem).linkedEntryIds?.length ?? 0) > 0 && (
+                                <div className="text-xs text-emerald-700 mt-1 max-w-md truncate" title={linkedTitles((item.data as FileItem).linkedEntryIds)}>
+                                  📝 Упоминается в записях: {linkedTitles((item.data as FileItem).linkedEntryIds)}
+                                </div>
+                              )}
+                              {item.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {item.tags.map(tag => (
+                                    <button
+                                      key={tag}
+                                      onClick={() => setTagFilter(tag)}
+                                      className="rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700 hover:bg-blue-100"
+                                    >
+                                      {tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
                           </td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                             {typeTranslations[item.type]}
@@ -469,100 +780,12 @@ const DataTable = forwardRef<DataTableRef, DataTableProps>(({ userId }, ref) =>
                           </td>
                         </tr>
                       ))}
+                      {lastVisible < rows.length && <tr style={{ height: (rows.length - lastVisible) * ROW_HEIGHT }} />}
                     </tbody>
                   </table>
                 </div>
               </div>
             </div>
-
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-3 sm:px-6 mt-4">
-                <div className="flex flex-1 justify-between sm:hidden">
-                  <button
-                    onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                    disabled={currentPage === 1}
-                    className="relative inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Назад
-                  </button>
-                  <button
-                    onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                    disabled={currentPage === totalPages}
-                    className="relative ml-3 inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Вперед
-                  </button>
-                </div>
-                <div className="hidden sm:flex sm:flex-1 sm:items-center sm:justify-between">
-                  <div>
-                    <p className="text-sm text-gray-700">
-                      Показаны записи с <span className="font-medium">{startIndex + 1}</span> по{' '}
-                      <span className="font-medium">{Math.min(endIndex, filteredItems.length)}</span> из{' '}
-                      <span className="font-medium">{filteredItems.length}</span>
-                    </p>
-                  </div>
-                  <div>
-                    <nav className="isolate inline-flex -space-x-px rounded-md shadow-sm" aria-label="Pagination">
-                      <button
-                        onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                        disabled={currentPage === 1}
-                        className="relative inline-flex items-center rounded-l-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        <span className="sr-only">Предыдущая</span>
-                        <svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
-                          <path fillRule="evenodd" d="M12.79 5.23a.75.75 0 01-.02 1.06L8.832 10l3.938 3.71a.75.75 0 11-1.04 1.08l-4.5-4.25a.75.75 0 010-1.08l4.5-4.25a.75.75 0 011.06.02z" clipRule="evenodd" />
-                        </svg>
-                      </button>
-                      
-                      {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => {
-                        // Show first page, last page, current page, and pages around current
-                        if (
-                          page === 1 ||
-                          page === totalPages ||
-                          (page >= currentPage - 1 && page <= currentPage + 1)
-                        ) {
-                          return (
-                            <button
-                              key={page}
-                              onClick={() => setCurrentPage(page)}
-                              className={`relative inline-flex items-center px-4 py-2 text-sm font-semibold ${
-                                page === currentPage
-                                  ? 'z-10 bg-blue-600 text-white focus:z-20 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600'
-                                  : 'text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0'
-                              }`}
-                            >
-                              {page}
-                            </button>
-                          );
-                        } else if (page === currentPage - 2 || page === currentPage + 2) {
-                          return (
-                            <span
-                              key={page}
-                              className="relative inline-flex items-center px-4 py-2 text-sm font-semibold text-gray-700 ring-1 ring-inset ring-gray-300"
-                            >
-                              ...
-                            </span>
-                          );
-                        }
-                        return null;
-                      })}
-
-                      <button
-                        onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                        disabled={currentPage === totalPages}
-                        className="relative inline-flex items-center rounded-r-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        <span className="sr-only">Следующая</span>
-                        <svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
-                          <path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" />
-                        </svg>
-                      </button>
-                    </nav>
-                  </div>
-                </div>
-              </div>
-            )}
           </div>
         )}
       </div>
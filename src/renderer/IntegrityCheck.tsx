@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { IntegrityIssue, IntegrityIssueKind, IntegrityReport } from '../shared/types';
+import { IpcResult } from '../shared/ipcContract';
+
+interface IntegrityCheckProps {
+  onClose: () => void;
+}
+
+const issueLabels: Record<IntegrityIssueKind, { title: string; description: string }> = {
+  'undecryptable-entry': {
+    title: 'Записи, которые не расшифровываются',
+    description: 'Текст записи повреждён или зашифрован другим ключом.'
+  },
+  'undecryptable-file': {
+    title: 'Файлы с нечитаемыми метаданными',
+    description: 'Название или исходное имя файла не расшифровывается.'
+  },
+  'missing-blob': {
+    title: 'Отсутствующие файлы',
+    description: 'Файл есть в базе, но зашифрованные данные не найдены на диске.'
+  },
+  'corrupt-blob': {
+    title: 'Повреждённые файлы',
+    description: 'Проверка подлинности не пройдена: файл повреждён или изменён.'
+  },
+  'orphaned-blob': {
+    title: 'Осиротевшие файлы',
+    description: 'Зашифрованные файлы на диске, на которые нет ссылок в базе.'
+  }
+};
+
+const issueOrder: IntegrityIssueKind[] = ['undecryptable-entry', 'undecryptable-file', 'missing-blob', 'corrupt-blob', 'orphaned-blob'];
+
+const fileNameOf = (filePath?: string) => (filePath ? filePath.split(/[\\/]/).pop() : '');
+
+const IntegrityCheck: React.FC<IntegrityCheckProps> = ({ onClose }) => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [relinkTargets, setRelinkTargets] = useState<Record<string, string>>({});
+
+  const runCheck = async () => {
+    setChecking(true);
+    try {
+      const result = await window.api.integrity.check();
+      if (result.ok) {
+        setReport(result.data);
+        setRelinkTargets({});
+      } else {
+        alert('Ошибка проверки целостности: ' + result.error.message);
+      }
+    } catch (error) {
+      console.error('Error checking integrity:', error);
+      alert('Ошибка проверки целостности');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Every repair is followed by a fresh check so the report never shows stale issues
+  const repair = async (action: () => Promise<IpcResult<unknown>>) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      if (!result.ok) {
+        alert('Ошибка исправления: ' + result.error.message);
+      }
+    } catch (error) {
+      console.error('Error repairing vault:', error);
+      alert('Ошибка исправления');
+    } finally {
+      setBusy(false);
+    }
+    await runCheck();
+  };
+
+  const handleQuarantine = (issue: IntegrityIssue) => {
+    if (!issue.itemId) return;
+    const kind = issue.kind === 'undecryptable-entry' ? 'diary' : 'file';
+    if (!window.confirm('Элемент будет убран из хранилища в папку карантина. Продолжить?')) return;
+    repair(() => window.api.integrity.quarantine({ kind, id: issue.itemId! }));
+  };
+
+  const handleRelink = (issue: IntegrityIssue) => {
+    const blobPath = relinkTargets[issue.itemId!];
+    if (!blobPath) return;
+    repair(() => window.api.integrity.relink({ fileId: issue.itemId!, blobPath }));
+  };
+
+  const handlePurge = (paths: string[]) => {
+    if (!window.confirm(`Удалить осиротевшие файлы (${paths.length})? Это действие нельзя отменить.`)) return;
+    repair(() => window.api.integrity.purgeOrphans({ paths }));
+  };
+
+  const orphans = report?.issues.filter(issue => issue.kind === 'orphaned-blob') || [];
+  const relinkableOrphans = orphans.filter(issue => issue.decryptable);
+
+  const renderActions = (issue: IntegrityIssue) => {
+    const buttonClassName = 'px-3 py-1 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50';
+
+    switch (issue.kind) {
+      case 'missing-blob':
+        return (
+          <div className="flex items-center gap-2">
+            {relinkableOrphans.length > 0 && (
+              <>
+                <select
+                  value={relinkTargets[issue.itemId!] || ''}
+                  onChange={(e) => setRelinkTargets(prev => ({ ...prev, [issue.itemId!]: e.target.value }))}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                >
+                  <option value="">Выберите файл...</option>
+                  {relinkableOrphans.map(orphan => (
+                    <option key={orphan.path} value={orphan.path}>{fileNameOf(orphan.path)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleRelink(issue)}
+                  disabled={busy || !relinkTargets[issue.itemId!]}
+                  className={buttonClassName}
+                >
+                  Привязать
+                </button>
+              </>
+            )}
+            <button onClick={() => handleQuarantine(issue)} disabled={busy} className={buttonClassName}>
+              В карантин
+            </button>
+          </div>
+        );
+      case 'orphaned-blob':
+        return (
+          <button onClick={() => handlePurge([issue.path!])} disabled={busy} className={buttonClassName}>
+            Удалить
+          </button>
+        );
+      default:
+        return (
+          <button onClick={() => handleQuarantine(issue)} disabled={busy} className={buttonClassName}>
+            В карантин
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4">
+        {/* Header */}
+        <div className="mb-6 flex items-center justify-between">
+          <h1 className="text-3xl font-semibold text-gray-900">Проверка целостности</h1>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-sm font-medium"
+          >
+            Закрыть
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 px-6 py-6 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              Расшифровывает все записи и проверяет подлинность каждого зашифрованного файла.
+              Для больших хранилищ это может занять несколько минут.
+            </p>
+            <button
+              onClick={runCheck}
+              disabled={checking || busy}
+              className="flex-shrink-0 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 active:bg-blue-700 font-medium transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {checking ? 'Проверка...' : report ? 'Проверить снова' : 'Запустить проверку'}
+            </button>
+          </div>
+
+          {report && (
+            <>
+              <div className="text-sm text-gray-700">
+                Проверено записей: {report.diaryEntries}, файлов: {report.files}, зашифрованных файлов на диске: {report.blobs}
+              </div>
+
+              {report.issues.length === 0 ? (
+                <div className="rounded-md bg-green-50 p-4 text-sm text-green-700">
+                  Проблем не найдено
+                </div>
+              ) : (
+                issueOrder.map(kind => {
+                  const issues = report.issues.filter(issue => issue.kind === kind);
+                  if (issues.length === 0) return null;
+
+                  return (
+                    <div key={kind}>
+                      <div className="flex items-center justify-between">
+                        <h2 className="text-lg font-semibold text-gray-900">
+                          {issueLabels[kind].title} ({issues.length})
+                        </h2>
+                        {kind === 'orphaned-blob' && (
+                          <button
+                            onClick={() => handlePurge(issues.map(issue => issue.path!))}
+                            disabled={busy}
+                            className="text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                          >
+                            Удалить все
+                          </button>
+                        )}
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">{issueLabels[kind].description}</p>
+                      <ul className="mt-3 divide-y divide-gray-200 border border-gray-200 rounded-md">
+                        {issues.map(issue => (
+                          <li key={`${kind}-${issue.itemId || issue.path}`} className="flex items-center justify-between gap-4 px-4 py-3">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium text-gray-900 truncate">
+                                {issue.kind === 'orphaned-blob' ? fileNameOf(issue.path) : issue.title || issue.itemId}
+                              </p>
+                              {issue.trashed && (
+                                <p className="text-xs text-gray-500">В корзине</p>
+                              )}
+                              {issue.kind === 'orphaned-blob' && !issue.decryptable && (
+                                <p className="text-xs text-gray-500">Не открывается вашим ключом</p>
+                              )}
+                              {issue.error && (
+                                <p className="text-xs text-gray-500 truncate">{issue.error}</p>
+                              )}
+                            </div>
+                            {renderActions(issue)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntegrityCheck;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import { LockReason } from '../shared/types';
+
+interface LockScreenProps {
+  userName: string;
+  reason: LockReason;
+  onUnlock: () => void;
+  onLogout: () => void;
+}
+
+const reasonMessages: Record<LockReason, string> = {
+  idle: 'Хранилище заблокировано после периода бездействия',
+  suspend: 'Хранилище заблокировано при переходе в спящий режим',
+  'lock-screen': 'Хранилище заблокировано при блокировке экрана',
+  manual: 'Хранилище заблокировано'
+};
+
+const LockScreen: React.FC<LockScreenProps> = ({ userName, reason, onUnlock, onLogout }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await window.api.vault.unlock({ password });
+      if (result.ok) {
+        setPassword('');
+        onUnlock();
+      } else {
+        setError(result.error.message);
+      }
+    } catch (err) {
+      setError('Произошла ошибка при разблокировке');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-gray-50">
+      <div className="w-full max-w-sm bg-white py-8 px-6 shadow sm:rounded-lg">
+        <div className="text-center">
+          <LockClosedIcon className="mx-auto w-10 h-10 text-gray-400" />
+          <h2 className="mt-4 text-2xl font-semibold text-gray-900">{userName}</h2>
+          <p className="mt-2 text-sm text-gray-500">{reasonMessages[reason]}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <input
+            type="password"
+            autoFocus
+            required
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Введите пароль"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm"
+          />
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Разблокировка...' : 'Разблокировать'}
+          </button>
+
+          <button
+            type="button"
+            onClick={onLogout}
+            className="w-full flex justify-center text-sm font-medium text-gray-500 hover:text-gray-700 focus:outline-none focus:underline"
+          >
+            Выйти из аккаунта
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -1,164 +1,339 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import RecoveryCode from './RecoveryCode';
+import { AuthSession } from '../shared/types';
+import { IpcResult } from '../shared/ipcContract';
 
 interface LoginProps {
-  onLogin: (userId: string) => void;
+  onLogin: (userId: string, token: string) => void;
 }
 
+type LoginMode = 'login' | 'register' | 'recover';
+
+// Оставшееся время блокировки: «45 сек.» или «3 мин. 20 сек.»
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} мин. ${seconds % 60} сек.` : `${seconds} сек.`;
+};
+
+const inputClassName = 'appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm';
+
 export const Login: React.FC<LoginProps> = ({ onLogin }) => {
+  const [mode, setMode] = useState<LoginMode>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [name, setName] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  // Код из приложения-аутентификатора или резервный код, если включена 2FA
+  const [code, setCode] = useState('');
+  const [needsCode, setNeedsCode] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [isRegistering, setIsRegistering] = useState(false);
+  // Время, после которого сервер примет следующую попытку входа
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Код восстановления, который нужно показать перед входом
+  const [issued, setIssued] = useState<{ code: string; userId: string; token: string } | null>(null);
+
+  const isRegistering = mode === 'register';
+  const isRecovering = mode === 'recover';
+  const isThrottled = mode !== 'register' && retryAt !== null && retryAt > now;
+
+  useEffect(() => {
+    if (retryAt === null) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        setRetryAt(null);
+        setError('');
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  // Shows the error of a failed call, otherwise opens the session
+  const completeLogin = (result: IpcResult<AuthSession>) => {
+    if (!result.ok) {
+      if (result.error.code === 'TWO_FACTOR_REQUIRED') {
+        setNeedsCode(true);
+        return;
+      }
+      setError(result.error.message);
+      if (result.error.code === 'THROTTLED' && result.error.retryAt) {
+        setNow(Date.now());
+        setRetryAt(result.error.retryAt);
+      }
+      return;
+    }
+
+    setRetryAt(null);
+    const session = result.data;
+    localStorage.setItem('token', session.token);
+    if (session.recoveryCode) {
+      setIssued({ code: session.recoveryCode, userId: session.userId, token: session.token });
+    } else {
+      onLogin(session.userId, session.token);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+
+    if (isRecovering) {
+      if (password !== confirmPassword) {
+        setError('Пароли не совпадают');
+        return;
+      }
+      if (password.length < 6) {
+        setError('Пароль должен содержать минимум 6 символов');
+        return;
+      }
+    }
+
     setIsLoading(true);
 
     try {
       if (isRegistering) {
-        const response = await window.api.auth.register({ email, password, name });
-        if (response.success && response.token) {
-          localStorage.setItem('token', response.token);
-          onLogin(response.token);
-        } else {
-          setError(response.error || 'Ошибка регистрации');
-        }
+        completeLogin(await window.api.auth.register({ email, password, name }));
+      } else if (isRecovering) {
+        completeLogin(await window.api.auth.recover({
+          email,
+          recoveryCode,
+          newPassword: password,
+          code: needsCode ? code : undefined
+        }));
       } else {
-        const response = await window.api.auth.login({ email, password });
-        if (response.success && response.token) {
-          localStorage.setItem('token', response.token);
-          onLogin(response.token);
-        } else {
-          setError(response.error || 'Ошибка входа');
-        }
+        completeLogin(await window.api.auth.login({ email, password, code: needsCode ? code : undefined }));
       }
     } catch (err) {
-      setError(`Произошла ошибка при попытке ${isRegistering ? 'регистрации' : 'входа'}`);
+      const action = isRegistering ? 'регистрации' : isRecovering ? 'восстановления доступа' : 'входа';
+      setError(`Произошла ошибка при попытке ${action}`);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setError('');
+    setName('');
+    setPassword('');
+    setConfirmPassword('');
+    setRecoveryCode('');
+    setCode('');
+    setNeedsCode(false);
+  };
+
+  const heading = isRegistering ? 'Регистрация' : isRecovering ? 'Восстановление доступа' : 'Вход в Anamneon';
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
         <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-          {isRegistering ? 'Регистрация' : 'Вход в Anamneon'}
+          {issued ? 'Сохраните код восстановления' : heading}
         </h2>
       </div>
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {error && (
-              <div className="rounded-md bg-red-50 p-4">
-                <div className="flex">
-                  <div className="text-sm text-red-700">
-                    {error}
+          {issued ? (
+            <RecoveryCode code={issued.code} onDone={() => onLogin(issued.userId, issued.token)} />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {(error || isThrottled) && (
+                <div className="rounded-md bg-red-50 p-4">
+                  <div className="flex">
+                    <div className="text-sm text-red-700">
+                      {error || 'Слишком много неудачных попыток входа'}
+                      {isThrottled && (
+                        <p className="mt-1">
+                          Следующая попытка возможна в {new Date(retryAt!).toLocaleTimeString('ru-RU')} (через {formatRemaining(retryAt! - now)})
+                        </p>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
+
+              {isRegistering && (
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                    Имя пользователя
+                  </label>
+                  <div className="mt-1">
+                    <input
+                      id="name"
+                      name="name"
+                      type="text"
+                      autoComplete="name"
+                      required
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Введите ваше имя"
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              )}
 
-            {isRegistering && (
               <div>
-                <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-                  Имя пользователя
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email
                 </label>
                 <div className="mt-1">
                   <input
-                    id="name"
-                    name="name"
-                    type="text"
-                    autoComplete="name"
+                    id="email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
                     required
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    placeholder="Введите ваше имя"
-                    className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm"
+                    value={email}
+                    onChange={(e) => {
+                      // Блокировка относится к учётной записи, а не к форме
+                      setEmail(e.target.value);
+                      setRetryAt(null);
+                      setNeedsCode(false);
+                      setCode('');
+                    }}
+                    placeholder="Введите ваш email"
+                    className={inputClassName}
                   />
                 </div>
               </div>
-            )}
-
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email
-              </label>
-              <div className="mt-1">
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="Введите ваш email"
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm"
-                />
+
+              {isRecovering && (
+                <div>
+                  <label htmlFor="recoveryCode" className="block text-sm font-medium text-gray-700">
+                    Код восстановления
+                  </label>
+                  <div className="mt-1">
+                    <textarea
+                      id="recoveryCode"
+                      name="recoveryCode"
+                      required
+                      rows={3}
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      placeholder="16 слов через пробел"
+                      className={`${inputClassName} font-mono`}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  {isRecovering ? 'Новый пароль' : 'Пароль'}
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete={isRegistering || isRecovering ? 'new-password' : 'current-password'}
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={isRegistering || isRecovering ? 'Придумайте пароль' : 'Введите ваш пароль'}
+                    className={inputClassName}
+                  />
+                </div>
               </div>
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Пароль
-              </label>
-              <div className="mt-1">
-                <input
-                  id="password"
-                  name="password"
-                  type="password"
-                  autoComplete={isRegistering ? 'new-password' : 'current-password'}
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder={isRegistering ? 'Придумайте пароль' : 'Введите ваш пароль'}
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm"
-                />
+
+              {mode !== 'register' && needsCode && (
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                    Код подтверждения
+                  </label>
+                  <div className="mt-1">
+                    <input
+                      id="code"
+                      name="code"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      required
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder="6 цифр из приложения или резервный код"
+                      className={`${inputClassName} font-mono`}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Откройте приложение-аутентификатор. Если его нет под рукой, введите один из резервных кодов.
+                    {isRecovering && ' Код восстановления заменяет только пароль, второй фактор по-прежнему нужен.'}
+                  </p>
+                </div>
+              )}
+
+              {isRecovering && (
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                    Подтвердите новый пароль
+                  </label>
+                  <div className="mt-1">
+                    <input
+                      id="confirmPassword"
+                      name="confirmPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      required
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      placeholder="Повторите новый пароль"
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <button
+                  type="submit"
+                  disabled={isLoading || isThrottled}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? (
+                    <>
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isRegistering ? 'Регистрация...' : isRecovering ? 'Восстановление...' : 'Вход...'}
+                    </>
+                  ) : (
+                    isRegistering ? 'Зарегистрироваться' : isRecovering ? 'Сменить пароль и войти' : 'Войти'
+                  )}
+                </button>
               </div>
-            </div>
-
-            <div>
-              <button
-                type="submit"
-                disabled={isLoading}
-                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isLoading ? (
-                  <>
-                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    {isRegistering ? 'Регистрация...' : 'Вход...'}
-                  </>
-                ) : (
-                  isRegistering ? 'Зарегистрироваться' : 'Войти'
+
+              <div className="space-y-2">
+                {mode === 'login' && (
+                  <button
+                    type="button"
+                    onClick={() => switchMode('recover')}
+                    className="w-full flex justify-center text-sm font-medium text-gray-500 hover:text-gray-700 focus:outline-none focus:underline transition-colors duration-200"
+                  >
+                    Забыли пароль?
+                  </button>
                 )}
-              </button>
-            </div>
-
-            <div>
-              <button
-                type="button"
-                onClick={() => {
-                  setIsRegistering(!isRegistering);
-                  setError('');
-                  setName('');
-                }}
-                className="w-full flex justify-center text-sm font-medium text-primary hover:text-primary-dark focus:outline-none focus:underline transition-colors duration-200"
-              >
-                {isRegistering ? 'Уже есть аккаунт? Войти' : 'Нет аккаунта? Зарегистрироваться'}
-              </button>
-            </div>
-          </form>
+                <button
+                  type="button"
+                  onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
+                  className="w-full flex justify-center text-sm font-medium text-primary hover:text-primary-dark focus:outline-none focus:underline transition-colors duration-200"
+                >
+                  {mode === 'login' ? 'Нет аккаунта? Зарегистрироваться' : 'Уже есть аккаунт? Войти'}
+                </button>
+              </div>
+            </form>
+          )}
         </div>
       </div>
     </div>
   );
 };
-
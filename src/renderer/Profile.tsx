@@ -1,5 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { CameraIcon } from '@heroicons/react/24/outline';
+import RecoveryCode from './RecoveryCode';
+import TwoFactorSettings from './TwoFactorSettings';
+import AuditLog from './AuditLog';
+import { unwrap } from './ipc';
+import { LogLevel } from '../shared/logger';
 
 interface ProfileProps {
   userId: string;
@@ -9,6 +14,22 @@ interface ProfileProps {
   onProfilePhotoUpdate: (photoData: string | null) => void;
 }
 
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 1, label: '1 минута' },
+  { minutes: 5, label: '5 минут' },
+  { minutes: 15, label: '15 минут' },
+  { minutes: 30, label: '30 минут' },
+  { minutes: 60, label: '1 час' },
+  { minutes: 0, label: 'Никогда' }
+];
+
+const LOG_LEVEL_OPTIONS: Array<{ level: LogLevel; label: string }> = [
+  { level: 'error', label: 'Только ошибки' },
+  { level: 'warn', label: 'Ошибки и предупреждения' },
+  { level: 'info', label: 'Обычная' },
+  { level: 'debug', label: 'Подробная (для диагностики)' }
+];
+
 interface UserData {
   id: string;
   email: string;
@@ -24,19 +45,25 @@ const Profile: React.FC<ProfileProps> = ({ userId, onLogout, onClose, onUserData
   const [confirmPassword, setConfirmPassword] = useState('');
   const [profilePhoto, setProfilePhoto] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number | null>(null);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [logLevel, setLogLevel] = useState<LogLevel | null>(null);
 
   useEffect(() => {
     const loadUserData = async () => {
       try {
-        const user = await window.api.auth.getUser(userId);
+        const user = unwrap(await window.api.auth.getUser());
         if (user) {
           setUserData(user);
           setEditedName(user.name);
         }
+        setAutoLockMinutes(unwrap(await window.api.vault.getAutoLockTimeout()));
+        setLogLevel(unwrap(await window.api.log.getLevel()));
         // Load profile photo from disk
-        const photoResult = await window.api.profile.loadPhoto(userId);
-        if (photoResult.success && photoResult.photoData) {
-          setProfilePhoto(photoResult.photoData);
+        const photoResult = await window.api.profile.loadPhoto();
+        if (photoResult.ok && photoResult.data) {
+          setProfilePhoto(photoResult.data);
         }
       } catch (error) {
         console.error('Error loading user data:', error);
@@ -101,10 +128,8 @@ const Profile: React.FC<ProfileProps> = ({ userId, onLogout, onClose, onUserData
               setProfilePhoto(resizedBase64);
               
               // Сохраняем на диск через IPC
-              window.api.profile.savePhoto(userId, resizedBase64).then(result => {
-                if (result.success) {
-                  console.log('Profile photo saved to disk for user:', userId);
-                } else {
+              window.api.profile.savePhoto({ photoData: resizedBase64 }).then(result => {
+                if (!result.ok) {
                   console.error('Failed to save profile photo:', result.error);
                 }
               });
@@ -138,12 +163,14 @@ const Profile: React.FC<ProfileProps> = ({ userId, onLogout, onClose, onUserData
     setSaving(true);
     try {
       // Update user data
-      const result = await window.api.auth.updateUser(userId, {
-        name: editedName,
-        password: newPassword || undefined
+      const result = await window.api.auth.updateUser({
+        updates: {
+          name: editedName,
+          password: newPassword || undefined
+        }
       });
 
-      if (result.success) {
+      if (result.ok) {
         setUserData({ ...userData, name: editedName });
         onUserDataUpdate(editedName);
         setEditing(false);
@@ -151,7 +178,7 @@ const Profile: React.FC<ProfileProps> = ({ userId, onLogout, onClose, onUserData
         setConfirmPassword('');
         alert('Данные успешно обновлены!');
       } else {
-        alert('Ошибка обновления данных: ' + (result.error || 'Неизвестная ошибка'));
+        alert('Ошибка обновления данных: ' + result.error.message);
       }
     } catch (error) {
       console.error('Error updating user:', error);
@@ -161,6 +188,44 @@ const Profile: React.FC<ProfileProps> = ({ userId, onLogout, onClose, onUserData
     }
   };
 
+  const handleRegenerateRecoveryCode = async () => {
+    if (!window.confirm('Старый код восстановления перестанет действовать. Создать новый код?')) {
+      return;
+    }
+
+    try {
+      const result = await window.api.auth.regenerateRecoveryCode();
+      if (result.ok) {
+        setRecoveryCode(result.data.recoveryCode);
+      } else {
+        alert('Ошибка создания кода восстановления: ' + result.error.message);
+      }
+    } catch (error) {
+      console.error('Error regenerating recovery code:', error);
+      alert('Ошибка создания кода восстановления');
+    }
+  };
+
+  const handleAutoLockChange = async (minutes: number) => {
+    const previous = autoLockMinutes;
+    setAutoLockMinutes(minutes);
+    const result = await window.api.vault.setAutoLockTimeout({ minutes });
+    if (!result.ok) {
+      setAutoLockMinutes(previous);
+      alert('Ошибка сохранения настройки: ' + result.error.message);
+    }
+  };
+
+  const handleLogLevelChange = async (level: LogLevel) => {
+    const previous = logLevel;
+    setLogLevel(level);
+    const result = await window.api.log.setLevel({ level });
+    if (!result.ok) {
+      setLogLevel(previous);
+      alert('Ошибка сохранения настройки: ' + result.error.message);
+    }
+  };
+
   const handleCancelEdit = () => {
     setEditing(false);
     setEditedName(userData?.name || '');
@@ -286,6 +351,88 @@ const Profile: React.FC<ProfileProps> = ({ userId, onLogout, onClose, onUserData
                 </div>
               </div>
             )}
+
+            {!editing && autoLockMinutes !== null && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-2">
+                  Автоблокировка при бездействии
+                </label>
+                <select
+                  value={autoLockMinutes}
+                  onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {AUTO_LOCK_OPTIONS.map(option => (
+                    <option key={option.minutes} value={option.minutes}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!editing && logLevel !== null && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-2">
+                  Подробность журнала приложения
+                </label>
+                <select
+                  value={logLevel}
+                  onChange={(e) => handleLogLevelChange(e.target.value as LogLevel)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {LOG_LEVEL_OPTIONS.map(option => (
+                    <option key={option.level} value={option.level}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Тексты записей, названия, пути к файлам и email в журнал не попадают.
+                </p>
+              </div>
+            )}
+
+            {!editing && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-2">
+                  Код восстановления
+                </label>
+                {recoveryCode ? (
+                  <RecoveryCode code={recoveryCode} onDone={() => setRecoveryCode(null)} />
+                ) : (
+                  <button
+                    onClick={handleRegenerateRecoveryCode}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    Создать новый код восстановления
+                  </button>
+                )}
+              </div>
+            )}
+
+            {!editing && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-2">
+                  Двухфакторная аутентификация
+                </label>
+                <TwoFactorSettings />
+              </div>
+            )}
+
+            {!editing && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-2">
+                  Журнал доступа
+                </label>
+                <button
+                  onClick={() => setShowAuditLog(!showAuditLog)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {showAuditLog ? 'Скрыть журнал' : 'Показать входы, просмотры, экспорт и удаления'}
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Actions */}
@@ -324,6 +471,12 @@ const Profile: React.FC<ProfileProps> = ({ userId, onLogout, onClose, onUserData
             </button>
           </div>
         </div>
+
+        {showAuditLog && (
+          <div className="mt-6">
+            <AuditLog onClose={() => setShowAuditLog(false)} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+
+interface RecoveryCodeProps {
+  code: string;
+  onDone: () => void;
+}
+
+const RecoveryCode: React.FC<RecoveryCodeProps> = ({ code, onDone }) => {
+  const [confirmed, setConfirmed] = useState(false);
+  const words = code.split(' ');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch (error) {
+      console.error('Error copying recovery code:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Код восстановления</h3>
+        <p className="mt-2 text-sm text-gray-600">
+          Если вы забудете пароль, только этот код позволит восстановить доступ к записям и файлам.
+          Распечатайте или запишите его и храните отдельно от компьютера. Код показывается один раз.
+        </p>
+      </div>
+
+      <ol className="grid grid-cols-4 gap-2 rounded-md border border-gray-300 bg-gray-50 p-4 font-mono text-sm text-gray-900">
+        {words.map((word, index) => (
+          <li key={index}>
+            <span className="text-gray-400">{index + 1}.</span> {word}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex gap-3 print:hidden">
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Печать
+        </button>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Копировать
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 print:hidden">
+        <input
+          type="checkbox"
+          checked={confirmed}
+          onChange={(e) => setConfirmed(e.target.checked)}
+        />
+        Я сохранил код в надёжном месте
+      </label>
+
+      <button
+        type="button"
+        onClick={onDone}
+        disabled={!confirmed}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed print:hidden"
+      >
+        Продолжить
+      </button>
+    </div>
+  );
+};
+
+export default RecoveryCode;
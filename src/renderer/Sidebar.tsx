@@ -1,5 +1,5 @@
 import React from 'react';
-import { DocumentTextIcon, DocumentIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { DocumentTextIcon, DocumentIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentArrowDownIcon, LockClosedIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
 
 interface SidebarProps {
   userName: string;
@@ -9,10 +9,12 @@ interface SidebarProps {
   onBackup: () => void;
   onRestore: () => void;
   onExport: () => void;
+  onIntegrityCheck: () => void;
   onProfileClick: () => void;
+  onLock: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ userName, profilePhoto, onAddDiary, onAddFile, onBackup, onRestore, onExport, onProfileClick }) => {
+const Sidebar: React.FC<SidebarProps> = ({ userName, profilePhoto, onAddDiary, onAddFile, onBackup, onRestore, onExport, onIntegrityCheck, onProfileClick, onLock }) => {
   return (
     <div className="w-64 bg-gradient-to-b from-gray-50 to-white border-r border-gray-200 flex flex-col h-screen">
       {/* Header */}
@@ -75,10 +77,26 @@ const Sidebar: React.FC<SidebarProps> = ({ userName, profilePhoto, onAddDiary, o
           <DocumentArrowDownIcon className="w-5 h-5 mr-3 text-gray-500 group-hover:text-purple-600 transition-colors" />
           <span className="group-hover:text-gray-900">Экспорт</span>
         </button>
+
+        <button
+          onClick={onIntegrityCheck}
+          className="w-full flex items-center px-3 py-2 text-sm font-medium text-gray-700 rounded-md hover:bg-gray-100/80 active:bg-gray-200/80 transition-all duration-150 group"
+        >
+          <ShieldCheckIcon className="w-5 h-5 mr-3 text-gray-500 group-hover:text-teal-600 transition-colors" />
+          <span className="group-hover:text-gray-900">Проверка</span>
+        </button>
       </nav>
 
       {/* User Profile */}
-      <div className="px-3 py-4 border-t border-gray-200/60 bg-white">
+      <div className="px-3 py-4 border-t border-gray-200/60 bg-white space-y-1">
+        <button
+          onClick={onLock}
+          className="w-full flex items-center px-3 py-2 text-sm font-medium text-gray-700 rounded-md hover:bg-gray-100/80 active:bg-gray-200/80 transition-all duration-150 group"
+        >
+          <LockClosedIcon className="w-5 h-5 mr-3 text-gray-500 group-hover:text-red-600 transition-colors" />
+          <span className="group-hover:text-gray-900">Заблокировать</span>
+        </button>
+
         <button
           onClick={onProfileClick}
           className="w-full flex items-center space-x-3 px-3 py-2.5 rounded-md hover:bg-gray-100/80 active:bg-gray-200/80 transition-all duration-150"
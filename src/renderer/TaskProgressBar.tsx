@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { TaskKind, TaskProgress } from '../shared/types';
+
+const kindLabels: Record<TaskKind, string> = {
+  export: 'Экспорт для нейросетей',
+  upload: 'Шифрование файла'
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} КБ`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+}
+
+/**
+ * Прогресс долгих операций в воркерах главного процесса с кнопкой отмены
+ */
+const TaskProgressBar: React.FC = () => {
+  const [tasks, setTasks] = useState<TaskProgress[]>([]);
+  const [cancelling, setCancelling] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    return window.api.task.onProgress(progress => {
+      setTasks(prev => {
+        const rest = prev.filter(task => task.taskId !== progress.taskId);
+        return progress.finished ? rest : [...rest, progress];
+      });
+      if (progress.finished) {
+        setCancelling(prev => {
+          const next = new Set(prev);
+          next.delete(progress.taskId);
+          return next;
+        });
+      }
+    });
+  }, []);
+
+  const handleCancel = async (taskId: string) => {
+    setCancelling(prev => new Set(prev).add(taskId));
+    const result = await window.api.task.cancel({ taskId });
+    if (!result.ok) {
+      console.error('Error cancelling task:', result.error);
+    }
+  };
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 space-y-2">
+      {tasks.map(task => {
+        const percent = task.total > 0 ? Math.min(100, Math.round((task.done / task.total) * 100)) : 0;
+        const counts = task.kind === 'upload'
+          ? `${formatBytes(task.done)} из ${formatBytes(task.total)}`
+          : `${task.done} из ${task.total}`;
+
+        return (
+          <div key={task.taskId} className="bg-white border border-gray-200 rounded-lg shadow-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-900">{kindLabels[task.kind]}</span>
+              <button
+                onClick={() => handleCancel(task.taskId)}
+                disabled={cancelling.has(task.taskId)}
+                className="text-xs text-red-600 hover:text-red-800 disabled:text-gray-400"
+              >
+                {cancelling.has(task.taskId) ? 'Отмена…' : 'Отмена'}
+              </button>
+            </div>
+            <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-gray-500">
+              <span className="truncate mr-2">{task.current || ''}</span>
+              <span className="whitespace-nowrap">{counts}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaskProgressBar;
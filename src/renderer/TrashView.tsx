@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowUturnLeftIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { TrashContents, TrashKind } from '../shared/types';
+import { unwrap } from './ipc';
+
+interface TrashViewProps {
+  onChanged: () => void;
+}
+
+interface TrashRow {
+  kind: TrashKind;
+  id: string;
+  title: string;
+  deletedAt: string;
+}
+
+// 0 — не удалять автоматически
+const retentionOptions = [
+  { days: 7, label: '7 дней' },
+  { days: 30, label: '30 дней' },
+  { days: 90, label: '90 дней' },
+  { days: 365, label: '1 год' },
+  { days: 0, label: 'Не удалять автоматически' }
+];
+
+const kindLabels: Record<TrashKind, string> = {
+  diary: 'Запись',
+  file: 'Файл'
+};
+
+const toRows = (contents: TrashContents): TrashRow[] => [
+  ...contents.diaryEntries.map(entry => ({
+    kind: 'diary' as const,
+    id: entry.id,
+    title: entry.title,
+    deletedAt: entry.deletedAt || ''
+  })),
+  ...contents.files.map(file => ({
+    kind: 'file' as const,
+    id: file.id,
+    title: file.metadata?.title || file.name,
+    deletedAt: file.deletedAt || ''
+  }))
+].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+const TrashView: React.FC<TrashViewProps> = ({ onChanged }) => {
+  const [rows, setRows] = useState<TrashRow[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    const result = await window.api.trash.list();
+    if (result.ok) {
+      setRows(toRows(result.data));
+      setRetentionDays(result.data.retentionDays);
+      setError('');
+    } else {
+      setError(result.error.message);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRestore = async (row: TrashRow) => {
+    try {
+      unwrap(await window.api.trash.restore({ kind: row.kind, id: row.id }));
+      await load();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось восстановить');
+    }
+  };
+
+  const handlePurge = async (row: TrashRow) => {
+    try {
+      const confirmed = unwrap(await window.api.dialog.showConfirm({
+        title: 'Удаление навсегда',
+        message: 'Запись будет удалена без возможности восстановления. Продолжить?',
+        buttons: ['Да', 'Нет']
+      }));
+      if (confirmed !== 'Да') return;
+
+      unwrap(await window.api.trash.delete({ kind: row.kind, id: row.id }));
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось удалить');
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      const confirmed = unwrap(await window.api.dialog.showConfirm({
+        title: 'Очистка корзины',
+        message: `Все записи в корзине (${rows.length}) будут удалены без возможности восстановления. Продолжить?`,
+        buttons: ['Да', 'Нет']
+      }));
+      if (confirmed !== 'Да') return;
+
+      unwrap(await window.api.trash.empty());
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось очистить корзину');
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      unwrap(await window.api.trash.setRetention({ days }));
+      // Сокращение срока могло сразу удалить часть записей
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось сохранить настройку');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[200px]">
+        <div className="animate-pulse text-gray-500 text-lg">Загрузка...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Удалять из корзины через
+          <select
+            value={retentionDays}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            {retentionOptions.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleEmpty}
+          disabled={rows.length === 0}
+          className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Очистить корзину
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {rows.length === 0 ? (
+        <div className="text-center rounded-lg border-2 border-dashed border-gray-300 p-12">
+          <TrashIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Корзина пуста</h3>
+        </div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                Удалено
+              </th>
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                Название
+              </th>
+              <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                Тип
+              </th>
+              <th scope="col" className="relative py-3.5 pl-3 pr-4">
+                <span className="sr-only">Действия</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {rows.map(row => (
+              <tr key={`${row.kind}-${row.id}`}>
+                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-500">
+                  {row.deletedAt ? new Date(row.deletedAt).toLocaleString() : ''}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-gray-900">
+                  {row.title || 'Без названия'}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                  {kindLabels[row.kind]}
+                </td>
+                <td className="whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium">
+                  <div className="flex justify-end gap-3">
+                    <button
+                      onClick={() => handleRestore(row)}
+                      className="inline-flex items-center rounded-full p-1.5 text-blue-500 hover:text-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                      title="Восстановить"
+                    >
+                      <ArrowUturnLeftIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => handlePurge(row)}
+                      className="inline-flex items-center rounded-full p-1.5 text-red-500 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                      title="Удалить навсегда"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
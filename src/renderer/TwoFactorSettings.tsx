@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { TwoFactorSetup, TwoFactorStatus } from '../shared/types';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Настройка входа по коду из приложения-аутентификатора; всё работает без сети
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [disabling, setDisabling] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadStatus = async () => {
+    const result = await window.api.twoFactor.status();
+    if (result.ok) {
+      setStatus(result.data);
+    } else {
+      console.error('Error loading two-factor status:', result.error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleBeginSetup = async () => {
+    setError('');
+    const result = await window.api.twoFactor.beginSetup();
+    if (result.ok) {
+      setSetup(result.data);
+      setCode('');
+    } else {
+      setError(result.error.message);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setBusy(true);
+    try {
+      const result = await window.api.twoFactor.confirmSetup({ code });
+      if (result.ok) {
+        setSetup(null);
+        setCode('');
+        setBackupCodes(result.data.backupCodes);
+        await loadStatus();
+      } else {
+        setError(result.error.message);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setBusy(true);
+    try {
+      const result = await window.api.twoFactor.disable({ password });
+      if (result.ok) {
+        setDisabling(false);
+        setPassword('');
+        await loadStatus();
+      } else {
+        setError(result.error.message);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyBackupCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(backupCodes!.join('\n'));
+    } catch (error) {
+      console.error('Error copying backup codes:', error);
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {backupCodes ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Резервные коды позволяют войти без приложения-аутентификатора. Каждый код действует один раз.
+            Сохраните их отдельно от компьютера — они показываются только сейчас.
+          </p>
+          <ol className="grid grid-cols-2 gap-2 rounded-md border border-gray-300 bg-gray-50 p-4 font-mono text-sm text-gray-900">
+            {backupCodes.map(backupCode => (
+              <li key={backupCode}>{backupCode}</li>
+            ))}
+          </ol>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleCopyBackupCodes}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Копировать
+            </button>
+            <button
+              type="button"
+              onClick={() => setBackupCodes(null)}
+              className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-md text-sm font-medium hover:bg-blue-600"
+            >
+              Готово
+            </button>
+          </div>
+        </div>
+      ) : setup ? (
+        <form onSubmit={handleConfirm} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Отсканируйте QR-код в приложении-аутентификаторе (Google Authenticator, Aegis, FreeOTP и др.)
+            и введите показанный им код.
+          </p>
+          <img src={setup.qrDataUrl} alt="QR-код для приложения-аутентификатора" className="w-48 h-48" />
+          <p className="text-xs text-gray-500">
+            Ключ для ручного ввода: <span className="font-mono break-all">{setup.secret}</span>
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6 цифр"
+            className={`${inputClassName} font-mono`}
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={busy}
+              className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-md text-sm font-medium hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Подтвердить
+            </button>
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              disabled={busy}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Отмена
+            </button>
+          </div>
+        </form>
+      ) : status.enabled ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-900">
+            Включена. Осталось резервных кодов: {status.backupCodesLeft}
+          </p>
+          {disabling ? (
+            <form onSubmit={handleDisable} className="space-y-3">
+              <input
+                type="password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Введите пароль для подтверждения"
+                className={inputClassName}
+              />
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="flex-1 px-4 py-2 bg-red-500 text-white rounded-md text-sm font-medium hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Отключить
+                </button>
+                <button
+                  type="button"
+                  onClick={() => { setDisabling(false); setPassword(''); }}
+                  disabled={busy}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Отмена
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setDisabling(true)}
+              className="text-sm font-medium text-red-600 hover:text-red-700"
+            >
+              Отключить двухфакторную аутентификацию
+            </button>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={handleBeginSetup}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          Включить вход по коду из приложения-аутентификатора
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,24 @@
+import { IpcError, IpcResult } from '../shared/ipcContract';
+
+/**
+ * Error thrown by unwrap(); keeps the code sent by the main process
+ */
+export class IpcCallError extends Error {
+  readonly code: IpcError['code'];
+
+  constructor(error: IpcError) {
+    super(error.message);
+    this.name = 'IpcCallError';
+    this.code = error.code;
+  }
+}
+
+/**
+ * Return the data of a successful call or throw its error
+ */
+export function unwrap<T>(result: IpcResult<T>): T {
+  if (!result.ok) {
+    throw new IpcCallError(result.error);
+  }
+  return result.data;
+}
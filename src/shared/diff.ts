@@ -0,0 +1,84 @@
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+// Past this many cells the LCS table is not built and the changed middle is shown as replaced
+const MAX_TABLE_CELLS = 4_000_000;
+
+/**
+ * Words and the whitespace between them, so joining the tokens gives back the text
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+function push(parts: DiffPart[], type: DiffPartType, text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two texts, as runs of unchanged, removed and added text
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, prefix).join(''));
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  if ((n + 1) * (m + 1) > MAX_TABLE_CELLS) {
+    push(parts, 'removed', oldMiddle.join(''));
+    push(parts, 'added', newMiddle.join(''));
+  } else {
+    // lengths[i * (m + 1) + j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        push(parts, 'equal', oldMiddle[i++]);
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push(parts, 'removed', oldMiddle[i++]);
+      } else {
+        push(parts, 'added', newMiddle[j++]);
+      }
+    }
+    while (i < n) push(parts, 'removed', oldMiddle[i++]);
+    while (j < m) push(parts, 'added', newMiddle[j++]);
+  }
+
+  push(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts.filter(part => part.text.length > 0);
+}
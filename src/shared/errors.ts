@@ -0,0 +1,69 @@
+export type ErrorCode =
+  | 'FORBIDDEN'
+  | 'INVALID_REQUEST'
+  | 'LOCKED'
+  | 'INVALID_CREDENTIALS'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'THROTTLED'
+  | 'TWO_FACTOR_REQUIRED'
+  | 'CANCELLED'
+  | 'INTERNAL';
+
+/**
+ * An error whose code and message may be shown to the renderer.
+ * Any other error reaches it only as INTERNAL.
+ */
+export class AppError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+  }
+}
+
+/**
+ * The current session may not access the requested record.
+ * Also used for records that don't exist, so ids of other users can't be probed.
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Доступ запрещён') {
+    super('FORBIDDEN', message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * An IPC payload that doesn't match the channel's schema
+ */
+export class ValidationError extends AppError {
+  constructor(message: string) {
+    super('INVALID_REQUEST', message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Too many failed attempts; the next one is accepted after retryAt (ms since epoch)
+ */
+export class ThrottledError extends AppError {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super('THROTTLED', 'Слишком много неудачных попыток входа');
+    this.name = 'ThrottledError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * The user cancelled a long-running operation; whatever it had written is removed
+ */
+export class CancelledError extends AppError {
+  constructor() {
+    super('CANCELLED', 'Операция отменена');
+    this.name = 'CancelledError';
+  }
+}
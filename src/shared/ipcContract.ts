@@ -0,0 +1,433 @@
+import {
+  Schema,
+  Infer,
+  string,
+  number,
+  literal,
+  optional,
+  nullable,
+  array,
+  object,
+  none,
+  type
+} from './schema';
+import { ErrorCode } from './errors';
+import { LOG_LEVELS, LogLevel } from './logger';
+import {
+  AUDIT_EVENTS,
+  AuditEntry,
+  AuthSession,
+  DiaryEntry,
+  DiaryRevision,
+  FileItem,
+  FileViewInfo,
+  IntegrityReport,
+  ItemPage,
+  SearchResult,
+  Tag,
+  TaskProgress,
+  TrashContents,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  UserProfile,
+  VaultLockedEvent
+} from './types';
+
+const id = () => string({ min: 1, max: 64 });
+const date = () => string({ min: 1, max: 64 });
+const email = () => string({ min: 1, max: 320 });
+const password = () => string({ min: 1, max: 1024 });
+
+const itemQuery = <T extends string>(...types: T[]) => object({
+  dateFrom: optional(date()),
+  dateTo: optional(date()),
+  type: optional(literal(...types)),
+  tag: optional(string({ min: 1, max: 1000 })),
+  ids: optional(array(id(), { max: 1000 })),
+  cursor: optional(object({ createdAt: date(), id: id() })),
+  limit: number({ integer: true, min: 1, max: 1000 })
+});
+
+const fileMetadata = object({
+  title: string({ max: 1000 }),
+  description: optional(string({ max: 10000 })),
+  fileName: optional(string({ max: 1000 })),
+  uploadedAt: optional(date())
+});
+
+const entryMode = literal('standalone', 'linked');
+const linkedFileIds = () => array(id(), { max: 10000 });
+
+const diaryEntryUpdate = object({
+  title: string({ max: 1000 }),
+  content: string({ max: 1000000 }),
+  entryMode,
+  linkedFileIds: linkedFileIds(),
+  customDate: optional(date())
+});
+
+/**
+ * Every channel between the renderer and the main process.
+ * The preload bridge and the ipcMain registrations are both built from this table,
+ * and every request is validated against its schema before a handler sees it.
+ */
+export const ipcContract = {
+  'auth:login': {
+    request: object({ email: email(), password: password(), code: optional(string({ max: 32 })) }),
+    response: type<AuthSession>()
+  },
+  'auth:register': {
+    request: object({ email: email(), password: password(), name: string({ max: 200 }) }),
+    response: type<AuthSession>()
+  },
+  'auth:recover': {
+    request: object({
+      email: email(),
+      recoveryCode: string({ min: 1, max: 200 }),
+      newPassword: password(),
+      code: optional(string({ max: 32 }))
+    }),
+    response: type<AuthSession>()
+  },
+  'auth:regenerateRecoveryCode': {
+    request: none(),
+    response: type<{ recoveryCode: string }>()
+  },
+  'auth:logout': {
+    request: object({ token: nullable(string({ max: 128 })) }),
+    response: type<void>()
+  },
+  'auth:verifyToken': {
+    request: object({ token: string({ max: 128 }) }),
+    response: type<string | null>()
+  },
+  'auth:refreshToken': {
+    request: object({ token: string({ max: 128 }) }),
+    response: type<{ token: string; expiresAt: number }>()
+  },
+  'auth:getUser': {
+    request: none(),
+    response: type<UserProfile | null>()
+  },
+  'auth:updateUser': {
+    request: object({ updates: object({ name: optional(string({ max: 200 })), password: optional(password()) }) }),
+    response: type<void>()
+  },
+
+  'twoFactor:status': {
+    request: none(),
+    response: type<TwoFactorStatus>()
+  },
+  'twoFactor:beginSetup': {
+    request: none(),
+    response: type<TwoFactorSetup>()
+  },
+  'twoFactor:confirmSetup': {
+    request: object({ code: string({ min: 1, max: 32 }) }),
+    response: type<{ backupCodes: string[] }>()
+  },
+  'twoFactor:disable': {
+    request: object({ password: password() }),
+    response: type<void>()
+  },
+
+  'audit:list': {
+    request: object({
+      events: optional(array(literal(...AUDIT_EVENTS), { max: AUDIT_EVENTS.length })),
+      from: optional(date()),
+      to: optional(date()),
+      limit: number({ integer: true, min: 1, max: 1000 })
+    }),
+    response: type<AuditEntry[]>()
+  },
+
+  'vault:lock': {
+    request: none(),
+    response: type<void>()
+  },
+  'vault:unlock': {
+    request: object({ password: password() }),
+    response: type<void>()
+  },
+  'vault:getAutoLockTimeout': {
+    request: none(),
+    response: type<number>()
+  },
+  'vault:setAutoLockTimeout': {
+    request: object({ minutes: number({ integer: true, min: 0, max: 24 * 60 }) }),
+    response: type<void>()
+  },
+
+  'integrity:check': {
+    request: none(),
+    response: type<IntegrityReport>()
+  },
+  'integrity:quarantine': {
+    request: object({ kind: literal('diary', 'file'), id: id() }),
+    response: type<{ path: string }>()
+  },
+  'integrity:relink': {
+    request: object({ fileId: id(), blobPath: string({ min: 1, max: 4096 }) }),
+    response: type<void>()
+  },
+  'integrity:purgeOrphans': {
+    request: object({ paths: array(string({ min: 1, max: 4096 }), { max: 100000 }) }),
+    response: type<{ removed: number }>()
+  },
+
+  'profile:savePhoto': {
+    request: object({ photoData: string({ min: 1, max: 10 * 1024 * 1024 }) }),
+    response: type<void>()
+  },
+  'profile:loadPhoto': {
+    request: none(),
+    response: type<string | null>()
+  },
+
+  'diary:save': {
+    request: object({
+      title: string({ max: 1000 }),
+      content: string({ max: 1000000 }),
+      type: literal('text', 'audio'),
+      entryMode,
+      linkedFileIds: linkedFileIds(),
+      createdAt: date(),
+      updatedAt: date()
+    }),
+    response: type<string>()
+  },
+  'diary:getAll': {
+    request: none(),
+    response: type<DiaryEntry[]>()
+  },
+  'diary:query': {
+    request: itemQuery('text', 'audio'),
+    response: type<ItemPage<DiaryEntry>>()
+  },
+  'diary:update': {
+    request: object({ id: id(), entry: diaryEntryUpdate }),
+    response: type<void>()
+  },
+  'diary:getRevisions': {
+    request: object({ id: id() }),
+    response: type<DiaryRevision[]>()
+  },
+  'diary:delete': {
+    request: object({ id: id() }),
+    response: type<void>()
+  },
+
+  'media:upload': {
+    request: object({ type: literal('photo', 'video', 'audio') }),
+    response: type<FileItem | null>()
+  },
+  'media:getAll': {
+    request: none(),
+    response: type<FileItem[]>()
+  },
+  'media:delete': {
+    request: object({ id: id() }),
+    response: type<void>()
+  },
+  'media:updateMetadata': {
+    request: object({ id: id(), metadata: fileMetadata }),
+    response: type<void>()
+  },
+  'media:updateDate': {
+    request: object({ id: id(), date: date() }),
+    response: type<void>()
+  },
+
+  'file:upload': {
+    request: none(),
+    response: type<FileItem | null>()
+  },
+  'file:getAll': {
+    request: none(),
+    response: type<FileItem[]>()
+  },
+  'file:query': {
+    request: itemQuery('photo', 'video', 'audio', 'pdf', 'txt', 'docx', 'spreadsheet'),
+    response: type<ItemPage<FileItem>>()
+  },
+  'file:delete': {
+    request: object({ id: id() }),
+    response: type<void>()
+  },
+  'file:view': {
+    request: object({ path: string({ min: 1, max: 4096 }) }),
+    response: type<FileViewInfo>()
+  },
+  'file:closeView': {
+    request: object({ url: string({ min: 1, max: 200 }) }),
+    response: type<void>()
+  },
+  'file:open': {
+    request: object({ path: string({ min: 1, max: 4096 }) }),
+    response: type<void>()
+  },
+  'file:updateMetadata': {
+    request: object({ id: id(), metadata: fileMetadata }),
+    response: type<void>()
+  },
+  'file:updateDate': {
+    request: object({ id: id(), date: date() }),
+    response: type<void>()
+  },
+
+  'tag:list': {
+    request: none(),
+    response: type<Tag[]>()
+  },
+  'tag:set': {
+    request: object({
+      kind: literal('diary', 'file'),
+      id: id(),
+      names: array(string({ max: 1000 }), { max: 100 })
+    }),
+    response: type<void>()
+  },
+
+  'search:query': {
+    request: object({
+      query: string({ min: 1, max: 500 }),
+      limit: number({ integer: true, min: 1, max: 1000 })
+    }),
+    response: type<SearchResult[]>()
+  },
+
+  'trash:list': {
+    request: none(),
+    response: type<TrashContents>()
+  },
+  'trash:restore': {
+    request: object({ kind: literal('diary', 'file'), id: id() }),
+    response: type<void>()
+  },
+  'trash:delete': {
+    request: object({ kind: literal('diary', 'file'), id: id() }),
+    response: type<void>()
+  },
+  'trash:empty': {
+    request: none(),
+    response: type<{ removed: number }>()
+  },
+  'trash:setRetention': {
+    request: object({ days: number({ integer: true, min: 0, max: 3650 }) }),
+    response: type<void>()
+  },
+
+  'database:backup': {
+    request: none(),
+    response: type<{ cancelled: boolean; filePath?: string }>()
+  },
+  'database:restore': {
+    request: none(),
+    response: type<{ cancelled: boolean }>()
+  },
+  'database:exportForAI': {
+    request: none(),
+    response: type<{ cancelled: boolean; path?: string; count?: number }>()
+  },
+
+  'task:cancel': {
+    request: object({ taskId: id() }),
+    response: type<void>()
+  },
+
+  'log:write': {
+    // data is the JSON of an already redacted object
+    request: object({
+      level: literal(...LOG_LEVELS),
+      scope: string({ min: 1, max: 50 }),
+      message: string({ max: 500 }),
+      data: optional(string({ max: 20000 }))
+    }),
+    response: type<void>()
+  },
+  'log:getLevel': {
+    request: none(),
+    response: type<LogLevel>()
+  },
+  'log:setLevel': {
+    request: object({ level: literal(...LOG_LEVELS) }),
+    response: type<void>()
+  },
+
+  'dialog:showConfirm': {
+    request: object({ title: string({ max: 200 }), message: string({ max: 2000 }), buttons: array(string({ max: 50 }), { max: 3 }) }),
+    response: type<string>()
+  }
+} satisfies Record<string, { request: Schema<unknown>; response: Schema<unknown> }>;
+
+/**
+ * Messages sent from the main process to the renderer
+ */
+export const ipcEvents = {
+  'vault:locked': type<VaultLockedEvent>(),
+  'task:progress': type<TaskProgress>()
+} satisfies Record<string, Schema<unknown>>;
+
+export type IpcChannel = keyof typeof ipcContract;
+export type IpcEvent = keyof typeof ipcEvents;
+
+export type IpcRequest<C extends IpcChannel> = Infer<(typeof ipcContract)[C]['request']>;
+export type IpcResponse<C extends IpcChannel> = Infer<(typeof ipcContract)[C]['response']>;
+export type IpcEventPayload<E extends IpcEvent> = Infer<(typeof ipcEvents)[E]>;
+
+export interface IpcError {
+  code: ErrorCode;
+  message: string;
+  retryAt?: number; // Only for THROTTLED
+}
+
+/**
+ * Every channel answers with this shape; handlers never reject
+ */
+export type IpcResult<T> = { ok: true; data: T } | { ok: false; error: IpcError };
+
+type Namespace<K> = K extends `${infer N}:${string}` ? N : never;
+
+type BridgeMethod<C extends IpcChannel> = IpcRequest<C> extends void
+  ? () => Promise<IpcResult<IpcResponse<C>>>
+  : (request: IpcRequest<C>) => Promise<IpcResult<IpcResponse<C>>>;
+
+type BridgeListener<E extends IpcEvent> = (callback: (payload: IpcEventPayload<E>) => void) => () => void;
+
+/**
+ * 'diary:getAll' becomes api.diary.getAll(), the 'vault:locked' event becomes api.vault.onLocked()
+ */
+export type IpcBridge = {
+  [N in Namespace<IpcChannel | IpcEvent>]:
+    { [C in IpcChannel as C extends `${N}:${infer M}` ? M : never]: BridgeMethod<C> } &
+    { [E in IpcEvent as E extends `${N}:${infer M}` ? `on${Capitalize<M>}` : never]: BridgeListener<E> }
+};
+
+/**
+ * Build the renderer API from the contract. Electron functions are passed in,
+ * so this module has no runtime dependency on the process it runs in.
+ */
+export function createIpcBridge(
+  invoke: (channel: string, request: unknown) => Promise<any>,
+  subscribe: (event: string, listener: (payload: any) => void) => () => void
+): IpcBridge {
+  const bridge: Record<string, Record<string, unknown>> = {};
+  const namespaceOf = (name: string) => {
+    const [namespace, method] = name.split(':');
+    bridge[namespace] = bridge[namespace] || {};
+    return { target: bridge[namespace], method };
+  };
+
+  for (const channel of Object.keys(ipcContract)) {
+    const { target, method } = namespaceOf(channel);
+    target[method] = (request?: unknown) => invoke(channel, request);
+  }
+
+  for (const event of Object.keys(ipcEvents)) {
+    const { target, method } = namespaceOf(event);
+    target[`on${method.charAt(0).toUpperCase()}${method.slice(1)}`] =
+      (callback: (payload: unknown) => void) => subscribe(event, callback);
+  }
+
+  return bridge as IpcBridge;
+}
@@ -0,0 +1,97 @@
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  scope: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface Logger {
+  error(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  debug(message: string, data?: Record<string, unknown>): void;
+}
+
+// Fields that may hold diary text, file names or account details
+const SENSITIVE_KEY = /content|title|path|email|name|description|password|token|secret|metadata|photo|recovery/i;
+const MAX_STRING_LENGTH = 200;
+const MAX_DEPTH = 4;
+const MAX_ITEMS = 20;
+
+// Absolute paths in error messages reveal user and file names
+const ABSOLUTE_PATH = /(?:[A-Za-z]:\\|\/)[^\s'"`,;:]+/g;
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+/**
+ * Whether a record of the given level passes the configured verbosity
+ */
+export function levelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Copy of a value that is safe to write to a log: sensitive fields are replaced,
+ * paths in error messages removed, and long strings and collections cut short
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message.replace(ABSOLUTE_PATH, '[path]'),
+      ...((value as { code?: unknown }).code !== undefined && { code: (value as { code?: unknown }).code }),
+      stack: value.stack?.split('\n').slice(1).join('\n')
+    };
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[…]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map(item => redact(item, depth + 1));
+    return value.length > MAX_ITEMS ? [...items, `… ${value.length - MAX_ITEMS} more`] : items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) && item !== undefined && item !== null
+      ? '[redacted]'
+      : redact(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Logger for one part of the app. Messages are fixed strings; anything variable goes
+ * into data, where it is redacted by field name before the record reaches the sink.
+ */
+export function createLogger(
+  scope: string,
+  write: (record: LogRecord) => void,
+  isEnabled: (level: LogLevel) => boolean = () => true
+): Logger {
+  const log = (level: LogLevel) => (message: string, data?: Record<string, unknown>) => {
+    if (!isEnabled(level)) return;
+    write({
+      time: new Date().toISOString(),
+      level,
+      scope,
+      message,
+      ...(data && { data: redact(data) as Record<string, unknown> })
+    });
+  };
+
+  return { error: log('error'), warn: log('warn'), info: log('info'), debug: log('debug') };
+}
@@ -0,0 +1,129 @@
+import { ValidationError } from './errors';
+
+/**
+ * Minimal runtime schemas for IPC payloads.
+ * parse() returns a clean copy of the value: unknown object keys are dropped.
+ */
+export interface Schema<T> {
+  parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+export type ObjectOf<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+function fail(path: string, expected: string): never {
+  throw new ValidationError(`${path || 'request'}: expected ${expected}`);
+}
+
+export function string(options: { min?: number; max?: number } = {}): Schema<string> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'string') fail(path, 'string');
+      if (options.min !== undefined && value.length < options.min) fail(path, `at least ${options.min} characters`);
+      if (options.max !== undefined && value.length > options.max) fail(path, `at most ${options.max} characters`);
+      return value;
+    }
+  };
+}
+
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'number');
+      if (options.integer && !Number.isInteger(value)) fail(path, 'integer');
+      if (options.min !== undefined && value < options.min) fail(path, `number >= ${options.min}`);
+      if (options.max !== undefined && value > options.max) fail(path, `number <= ${options.max}`);
+      return value;
+    }
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'boolean') fail(path, 'boolean');
+      return value;
+    }
+  };
+}
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return {
+    parse(value, path = '') {
+      if (!values.includes(value as T)) fail(path, values.map(item => `'${item}'`).join(' | '));
+      return value as T;
+    }
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(value, path) {
+      return value === undefined ? undefined : schema.parse(value, path);
+    }
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path) {
+      return value === null ? null : schema.parse(value, path);
+    }
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { max?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, path = '') {
+      if (!Array.isArray(value)) fail(path, 'array');
+      if (options.max !== undefined && value.length > options.max) fail(path, `at most ${options.max} items`);
+      return value.map((element, index) => item.parse(element, `${path}[${index}]`));
+    }
+  };
+}
+
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(path, 'object');
+
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const parsed = shape[key].parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        if (parsed !== undefined) {
+          result[key] = parsed;
+        }
+      }
+      return result as ObjectOf<S>;
+    }
+  };
+}
+
+/**
+ * A channel that takes no payload
+ */
+export function none(): Schema<void> {
+  return {
+    parse(value, path = '') {
+      if (value !== undefined && value !== null) fail(path, 'no payload');
+    }
+  };
+}
+
+/**
+ * Declares a type without checking it at runtime.
+ * Used for responses: they come from the main process, which is trusted.
+ */
+export function type<T>(): Schema<T> {
+  return {
+    parse(value) {
+      return value as T;
+    }
+  };
+}
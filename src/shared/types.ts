@@ -5,10 +5,69 @@ export interface User {
   createdAt: string;
 }
 
-export interface AuthResponse {
-  success: boolean;
-  token?: string;
-  error?: string;
+export interface AuthSession {
+  userId: string;
+  token: string; // Случайный токен сессии, привязанный к окну
+  expiresAt: number;
+  recoveryCode?: string; // Показывается один раз после регистрации или восстановления
+}
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesLeft: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string; // Для ручного ввода, если QR-код не сканируется
+  uri: string;
+  qrDataUrl: string;
+}
+
+export const AUDIT_EVENTS = [
+  'login',
+  'login-failed',
+  'logout',
+  'file-viewed',
+  'file-opened',
+  'deleted',
+  'restored',
+  'purged',
+  'backup',
+  'restore',
+  'export'
+] as const;
+
+export type AuditEvent = typeof AUDIT_EVENTS[number];
+
+export interface AuditEntry {
+  id: string;
+  event: AuditEvent;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type LockReason = 'idle' | 'suspend' | 'lock-screen' | 'manual';
+
+export interface VaultLockedEvent {
+  userId: string;
+  reason: LockReason;
+}
+
+export type TaskKind = 'export' | 'upload';
+
+export interface TaskProgress {
+  taskId: string;
+  kind: TaskKind;
+  done: number;  // Записей для экспорта, байт для загрузки
+  total: number;
+  current?: string; // Заголовок записи, которая сейчас экспортируется
+  finished: boolean;
 }
 
 export interface DiaryEntry {
@@ -17,10 +76,24 @@ export interface DiaryEntry {
   content: string;
   type: 'text' | 'audio';
   entryMode: 'standalone' | 'linked'; // Самостоятельная или связанная
-  linkedItemId?: string; // ID связанного файла
+  linkedFileIds: string[]; // Связанные файлы, кроме находящихся в корзине
   createdAt: string;
   updatedAt: string;
   userId: string;
+  deletedAt?: string; // Время перемещения в корзину
+  tags?: string[];
+}
+
+/**
+ * Earlier wording of a diary entry, kept when it is edited
+ */
+export interface DiaryRevision {
+  id: string;
+  entryId: string;
+  title: string;
+  content: string;
+  savedAt: string; // Когда была сохранена эта версия
+  replacedAt: string; // Когда её заменила следующая
 }
 
 export interface FileItem {
@@ -33,7 +106,100 @@ export interface FileItem {
   metadata?: {
     title?: string;
     description?: string;
+    fileName?: string; // Исходное имя файла, в БД хранится зашифрованным
   };
+  deletedAt?: string; // Время перемещения в корзину
+  tags?: string[];
+  linkedEntryIds?: string[]; // Записи дневника, связанные с файлом
+}
+
+export type ItemKind = 'diary' | 'file';
+
+export interface Tag {
+  id: string;
+  name: string;
+  count: number; // Сколько записей и файлов отмечено тегом
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>; // Найденные слова: начало и конец в text
+}
+
+export interface SearchResult {
+  kind: ItemKind;
+  id: string;
+  score: number;
+  snippet: SearchSnippet | null;
+}
+
+/**
+ * Position after the last item of a page; items are ordered newest first
+ */
+export interface PageCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Filters applied in SQL before paging; dates are ISO strings
+ */
+export interface ItemQuery<T extends string> {
+  dateFrom?: string;
+  dateTo?: string;
+  type?: T;
+  tag?: string; // Имя тега
+  ids?: string[]; // Только эти записи, например найденные поиском
+  cursor?: PageCursor;
+  limit: number;
+}
+
+export interface ItemPage<T> {
+  items: T[];
+  nextCursor: PageCursor | null; // null — страниц больше нет
+  total: number; // Сколько всего подходит под фильтры
+  linkedTitles: Record<string, string>; // Названия связанных записей и файлов, которых может не быть на странице
+}
+
+export type TrashKind = ItemKind;
+
+export interface TrashContents {
+  diaryEntries: DiaryEntry[];
+  files: FileItem[];
+  retentionDays: number; // 0 — не удалять автоматически
+}
+
+export type ViewerKind = 'image' | 'pdf' | 'audio' | 'video' | 'text';
+
+export interface FileViewInfo {
+  name: string;
+  kind: ViewerKind | null; // null — встроенный просмотр недоступен
+  url: string | null;
+}
+
+export type IntegrityIssueKind =
+  | 'undecryptable-entry' // Запись дневника не расшифровывается
+  | 'undecryptable-file'  // Метаданные файла не расшифровываются
+  | 'missing-blob'        // Файл есть в базе, но отсутствует на диске
+  | 'corrupt-blob'        // Файл на диске повреждён или изменён
+  | 'orphaned-blob';      // Зашифрованный файл на диске, на который нет ссылки в базе
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  itemId?: string;
+  path?: string;
+  title?: string;
+  decryptable?: boolean; // Для осиротевших файлов: открывается ключом пользователя
+  trashed?: boolean; // Запись или файл в корзине
+  error?: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  diaryEntries: number;
+  files: number;
+  blobs: number;
+  issues: IntegrityIssue[];
 }
 
 // Для обратной совместимости (будет удалено после миграции)
@@ -1,184 +1,201 @@
 import sqlite3 from 'sqlite3';
 import { open } from 'sqlite';
+import { AsyncLocalStorage } from 'async_hooks';
 import { app } from 'electron';
 import path from 'path';
-import { DiaryEntry, FileItem } from '../shared/types';
+import { DiaryEntry, DiaryRevision, FileItem, ItemKind, ItemPage, ItemQuery, PageCursor } from '../shared/types';
+import { ForbiddenError } from '../shared/errors';
 import crypto from 'crypto';
+import { getLogger } from '../main/logger';
+import { runMigrations } from './migrations';
+
+const log = getLogger('database');
+
+/**
+ * An item query with the tag name already resolved to the user's tag id
+ */
+export type ItemPageQuery = Omit<ItemQuery<string>, 'tag'> & { tagId?: string };
+
+type StoredPage<T> = Omit<ItemPage<T>, 'linkedTitles'>;
+
+/**
+ * Encrypted columns of one row, as stored
+ */
+export interface EncryptedRow {
+  id: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Rows with text in the legacy PBKDF2 or v2 formats; both contain ':', base64 of the current format doesn't.
+ * File metadata is JSON and always contains ':', so every file row is returned.
+ */
+export interface LegacyEncryptedRows {
+  diaryEntries: EncryptedRow[];
+  diaryRevisions: EncryptedRow[];
+  files: EncryptedRow[];
+}
 
 export class Database {
-  private db: any;
+  private connection: any;
   private dbPath: string = '';
 
+  // There is one connection, so there can be only one transaction at a time
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  private readonly transactionScope = new AsyncLocalStorage<boolean>();
+
+  /**
+   * Statements sent from outside a transaction wait for the running one to end,
+   * so they neither fail inside it nor are rolled back with it
+   */
+  private readonly db = {
+    run: (sql: string, params?: unknown[]) => this.statement('run', sql, params),
+    get: (sql: string, params?: unknown[]) => this.statement('get', sql, params),
+    all: (sql: string, params?: unknown[]) => this.statement('all', sql, params),
+    exec: (sql: string) => this.statement('exec', sql)
+  };
+
+  private async statement(method: 'run' | 'get' | 'all' | 'exec', sql: string, params?: unknown[]): Promise<any> {
+    if (!this.transactionScope.getStore()) {
+      await this.transactionQueue;
+    }
+    return params === undefined ? this.connection[method](sql) : this.connection[method](sql, params);
+  }
+
+  /**
+   * Run fn in a transaction, rolled back if it throws. Transactions are queued and run one after another;
+   * one started inside fn becomes part of the enclosing transaction.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return fn();
+    }
+
+    const run = () => this.transactionScope.run(true, async () => {
+      await this.connection.exec('BEGIN TRANSACTION');
+      try {
+        const result = await fn();
+        await this.connection.exec('COMMIT');
+        return result;
+      } catch (error) {
+        await this.connection.exec('ROLLBACK');
+        throw error;
+      }
+    });
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
   getDatabasePath(): string {
     return this.dbPath;
   }
 
   async close(): Promise<void> {
-    if (this.db) {
-      await this.db.close();
+    if (this.connection) {
+      await this.connection.close();
     }
   }
 
   async initialize() {
     try {
       this.dbPath = path.join(app.getPath('userData'), 'anamneon.db');
-      console.log('Initializing database at:', this.dbPath);
+      log.info('Initializing database', { dbPath: this.dbPath });
       
-      this.db = await open({
+      this.connection = await open({
         filename: this.dbPath,
         driver: sqlite3.Database
       });
 
-      await this.createTables();
-      console.log('Database initialized successfully');
+      await runMigrations(this.connection, this.dbPath);
+      log.info('Database initialized');
     } catch (error) {
-      console.error('Error initializing database:', error);
+      log.error('Error initializing database', { error });
       throw error;
     }
   }
 
-  private async createTables() {
-    try {
-      // Create tables one by one with error handling
-      const tables = [
-        'CREATE TABLE IF NOT EXISTS users (id TEXT PRIMARY KEY, email TEXT UNIQUE NOT NULL, password_hash TEXT NOT NULL, name TEXT, created_at TEXT NOT NULL)',
-        `CREATE TABLE IF NOT EXISTS diary_entries (
-          id TEXT PRIMARY KEY,
-          user_id TEXT NOT NULL,
-          title TEXT NOT NULL,
-          content TEXT NOT NULL,
-          type TEXT CHECK(type IN ('text', 'audio')) NOT NULL,
-          entry_mode TEXT CHECK(entry_mode IN ('standalone', 'linked')) DEFAULT 'standalone' NOT NULL,
-          linked_item_id TEXT,
-          created_at TEXT NOT NULL,
-          updated_at TEXT NOT NULL,
-          encrypted_content BLOB,
-          FOREIGN KEY (user_id) REFERENCES users(id)
-        )`,
-        `CREATE TABLE IF NOT EXISTS files (
-          id TEXT PRIMARY KEY,
-          user_id TEXT NOT NULL,
-          name TEXT NOT NULL,
-          path TEXT NOT NULL,
-          type TEXT CHECK(type IN ('photo', 'video', 'audio', 'pdf', 'txt', 'docx', 'spreadsheet')) NOT NULL,
-          created_at TEXT NOT NULL,
-          metadata TEXT,
-          FOREIGN KEY (user_id) REFERENCES users(id)
-        )`
-      ];
-
-      for (const sql of tables) {
-        await this.db.exec(sql).catch((err: Error) => {
-          console.error('Error creating table:', err);
-          throw err;
-        });
-      }
-
-      // Migrate existing tables to new structure
-      await this.migrateToFilesTable();
-    } catch (error) {
-      console.error('Error in createTables:', error);
-      throw error;
+  // Every per-user UPDATE/DELETE matches on user_id; no affected row means the record isn't the user's
+  private assertChanged(result: { changes?: number }) {
+    if (!result.changes) {
+      throw new ForbiddenError();
     }
   }
 
-  private async migrateToFilesTable() {
-    try {
-      // Check if old tables exist
-      const tables = await this.db.all("SELECT name FROM sqlite_master WHERE type='table'");
-      const tableNames = tables.map((t: any) => t.name);
-      
-      const hasMediaItems = tableNames.includes('media_items');
-      const hasFileItems = tableNames.includes('file_items');
-      const hasFiles = tableNames.includes('files');
-      
-      // Migrate data from old tables to new files table
-      if ((hasMediaItems || hasFileItems) && !hasFiles) {
-        console.log('Creating files table for migration...');
-        await this.db.exec(`
-          CREATE TABLE files (
-            id TEXT PRIMARY KEY,
-            user_id TEXT NOT NULL,
-            name TEXT NOT NULL,
-            path TEXT NOT NULL,
-            type TEXT CHECK(type IN ('photo', 'video', 'audio', 'pdf', 'txt', 'docx', 'spreadsheet')) NOT NULL,
-            created_at TEXT NOT NULL,
-            metadata TEXT,
-            FOREIGN KEY (user_id) REFERENCES users(id)
-          )
-        `);
-      }
-      
-      if (hasMediaItems) {
-        console.log('Migrating data from media_items to files...');
-        await this.db.exec(`
-          INSERT INTO files (id, user_id, name, path, type, created_at, metadata)
-          SELECT id, user_id, title, path, type, created_at, metadata FROM media_items
-        `);
-        console.log('Dropping old media_items table...');
-        await this.db.exec('DROP TABLE media_items');
-      }
-      
-      if (hasFileItems) {
-        console.log('Migrating data from file_items to files...');
-        await this.db.exec(`
-          INSERT INTO files (id, user_id, name, path, type, created_at, metadata)
-          SELECT id, user_id, name, path, type, created_at, metadata FROM file_items
-        `);
-        console.log('Dropping old file_items table...');
-        await this.db.exec('DROP TABLE file_items');
-      }
-      
-      // Remove linked_item_type from diary_entries if exists
-      const diaryTableInfo = await this.db.all('PRAGMA table_info(diary_entries)');
-      const hasLinkedItemType = diaryTableInfo.some((col: any) => col.name === 'linked_item_type');
-      
-      if (hasLinkedItemType) {
-        console.log('Removing linked_item_type column from diary_entries...');
-        // SQLite doesn't support DROP COLUMN, so we need to recreate the table
-        await this.db.exec(`
-          CREATE TABLE diary_entries_new (
-            id TEXT PRIMARY KEY,
-            user_id TEXT NOT NULL,
-            title TEXT NOT NULL,
-            content TEXT NOT NULL,
-            type TEXT CHECK(type IN ('text', 'audio')) NOT NULL,
-            entry_mode TEXT CHECK(entry_mode IN ('standalone', 'linked')) DEFAULT 'standalone' NOT NULL,
-            linked_item_id TEXT,
-            created_at TEXT NOT NULL,
-            updated_at TEXT NOT NULL,
-            encrypted_content BLOB,
-            FOREIGN KEY (user_id) REFERENCES users(id)
-          );
-          
-          INSERT INTO diary_entries_new (id, user_id, title, content, type, entry_mode, linked_item_id, created_at, updated_at, encrypted_content)
-          SELECT id, user_id, title, content, type, entry_mode, linked_item_id, created_at, updated_at, encrypted_content FROM diary_entries;
-          
-          DROP TABLE diary_entries;
-          
-          ALTER TABLE diary_entries_new RENAME TO diary_entries;
-        `);
-      }
-      
-      console.log('Migration to files table completed successfully');
-    } catch (error) {
-      console.error('Error in migrateToFilesTable:', error);
-      // Don't throw - migration might have already been done
+  /**
+   * Filters and keyset paging on (created_at, id) run in SQL, so only one page of rows is read
+   */
+  private async queryPage(
+    table: 'diary_entries' | 'files',
+    tagTable: 'diary_entry_tags' | 'file_tags',
+    tagColumn: 'entry_id' | 'file_id',
+    userId: string,
+    query: ItemPageQuery
+  ): Promise<{ rows: any[]; total: number; nextCursor: PageCursor | null }> {
+    const conditions = ['user_id = ?', 'deleted_at IS NULL'];
+    const params: any[] = [userId];
+    if (query.dateFrom) {
+      conditions.push('created_at >= ?');
+      params.push(query.dateFrom);
+    }
+    if (query.dateTo) {
+      conditions.push('created_at <= ?');
+      params.push(query.dateTo);
+    }
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.tagId) {
+      conditions.push(`id IN (SELECT ${tagColumn} FROM ${tagTable} WHERE tag_id = ?)`);
+      params.push(query.tagId);
     }
+    if (query.ids) {
+      conditions.push(`id IN (${query.ids.map(() => '?').join(', ')})`);
+      params.push(...query.ids);
+    }
+    const where = conditions.join(' AND ');
+
+    const { total } = await this.db.get(`SELECT COUNT(*) as total FROM ${table} WHERE ${where}`, params);
+
+    let after = '';
+    const pageParams = [...params];
+    if (query.cursor) {
+      after = ' AND (created_at < ? OR (created_at = ? AND id < ?))';
+      pageParams.push(query.cursor.createdAt, query.cursor.createdAt, query.cursor.id);
+    }
+    // One row more than asked tells whether another page follows
+    const rows: any[] = await this.db.all(
+      `SELECT * FROM ${table} WHERE ${where}${after} ORDER BY created_at DESC, id DESC LIMIT ?`,
+      [...pageParams, query.limit + 1]
+    );
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      rows: page,
+      total,
+      nextCursor: rows.length > query.limit ? { createdAt: last.created_at, id: last.id } : null
+    };
   }
 
   // User methods
-  async createUser(email: string, passwordHash: string, name?: string): Promise<string> {
+  async createUser(email: string, passwordHash: string, name?: string, encryptedKey?: string, recoveryKey?: string): Promise<string> {
     const id = crypto.randomUUID();
     const createdAt = new Date().toISOString();
     
     await this.db.run(
-      'INSERT INTO users (id, email, password_hash, name, created_at) VALUES (?, ?, ?, ?, ?)',
-      [id, email, passwordHash, name || null, createdAt]
+      'INSERT INTO users (id, email, password_hash, name, created_at, encrypted_key, recovery_key) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [id, email, passwordHash, name || null, createdAt, encryptedKey || null, recoveryKey || null]
     );
     return id;
   }
 
+  async getUserIds(): Promise<string[]> {
+    const rows: any[] = await this.db.all('SELECT id FROM users');
+    return rows.map(row => row.id);
+  }
+
   async getUserByEmail(email: string): Promise<any> {
     return this.db.get('SELECT * FROM users WHERE email = ?', [email]);
   }
@@ -187,15 +204,15 @@ export class Database {
     return this.db.get('SELECT * FROM users WHERE id = ?', [id]);
   }
 
-  async updateUser(id: string, updates: { name?: string; password?: string }): Promise<void> {
-    const { hashPassword } = require('../main/encryption');
-    
-    if (updates.password) {
-      // Hash the new password
-      const passwordHash = hashPassword(updates.password);
+  async updateUser(id: string, updates: { name?: string; passwordHash?: string; encryptedKey?: string }): Promise<void> {
+    if (updates.passwordHash) {
+      if (!updates.encryptedKey) {
+        // Changing the hash without re-wrapping the data key would lock the user out of their data
+        throw new Error('Password change requires a re-wrapped data key');
+      }
       await this.db.run(
-        'UPDATE users SET name = ?, password_hash = ? WHERE id = ?',
-        [updates.name || null, passwordHash, id]
+        'UPDATE users SET name = ?, password_hash = ?, encrypted_key = ? WHERE id = ?',
+        [updates.name || null, updates.passwordHash, updates.encryptedKey, id]
       );
     } else if (updates.name !== undefined) {
       // Only update name
@@ -206,66 +223,370 @@ export class Database {
     }
   }
 
+  async updateUserCredentials(id: string, passwordHash: string, encryptedKey: string, recoveryKey?: string): Promise<void> {
+    if (recoveryKey) {
+      await this.db.run(
+        'UPDATE users SET password_hash = ?, encrypted_key = ?, recovery_key = ? WHERE id = ?',
+        [passwordHash, encryptedKey, recoveryKey, id]
+      );
+    } else {
+      await this.db.run(
+        'UPDATE users SET password_hash = ?, encrypted_key = ? WHERE id = ?',
+        [passwordHash, encryptedKey, id]
+      );
+    }
+  }
+
+  async updateUserRecoveryKey(id: string, recoveryKey: string): Promise<void> {
+    await this.db.run('UPDATE users SET recovery_key = ? WHERE id = ?', [recoveryKey, id]);
+  }
+
+  // Settings methods
+  async getUserSetting(userId: string, key: string): Promise<string | undefined> {
+    const row = await this.db.get('SELECT value FROM user_settings WHERE user_id = ? AND key = ?', [userId, key]);
+    return row?.value;
+  }
+
+  async setUserSetting(userId: string, key: string, value: string): Promise<void> {
+    await this.db.run(
+      'INSERT INTO user_settings (user_id, key, value) VALUES (?, ?, ?) ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value',
+      [userId, key, value]
+    );
+  }
+
+  // Login throttling methods
+  async getLoginAttempts(userId: string): Promise<{ failedCount: number; lockedUntil: number | null }> {
+    const row = await this.db.get('SELECT failed_count, locked_until FROM login_attempts WHERE user_id = ?', [userId]);
+    return {
+      failedCount: row?.failed_count || 0,
+      lockedUntil: row?.locked_until ? Date.parse(row.locked_until) : null
+    };
+  }
+
+  async setLoginAttempts(userId: string, failedCount: number, lockedUntil: number | null): Promise<void> {
+    await this.db.run(
+      `INSERT INTO login_attempts (user_id, failed_count, last_failed_at, locked_until) VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET failed_count = excluded.failed_count, last_failed_at = excluded.last_failed_at, locked_until = excluded.locked_until`,
+      [userId, failedCount, new Date().toISOString(), lockedUntil ? new Date(lockedUntil).toISOString() : null]
+    );
+  }
+
+  async clearLoginAttempts(userId: string): Promise<void> {
+    await this.db.run('DELETE FROM login_attempts WHERE user_id = ?', [userId]);
+  }
+
+  // Two-factor methods; secret and backup_codes are encrypted with the user's data key
+  async getTwoFactor(userId: string): Promise<{ secret: string; backupCodes: string; lastUsedStep: number | null } | undefined> {
+    const row = await this.db.get('SELECT secret, backup_codes, last_used_step FROM two_factor WHERE user_id = ?', [userId]);
+    return row && { secret: row.secret, backupCodes: row.backup_codes, lastUsedStep: row.last_used_step ?? null };
+  }
+
+  async saveTwoFactor(userId: string, secret: string, backupCodes: string, lastUsedStep: number): Promise<void> {
+    await this.db.run(
+      'INSERT OR REPLACE INTO two_factor (user_id, secret, backup_codes, last_used_step, enabled_at) VALUES (?, ?, ?, ?, ?)',
+      [userId, secret, backupCodes, lastUsedStep, new Date().toISOString()]
+    );
+  }
+
+  async updateTwoFactorUsage(userId: string, backupCodes: string, lastUsedStep: number | null): Promise<void> {
+    await this.db.run(
+      'UPDATE two_factor SET backup_codes = ?, last_used_step = ? WHERE user_id = ?',
+      [backupCodes, lastUsedStep, userId]
+    );
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    await this.db.run('DELETE FROM two_factor WHERE user_id = ?', [userId]);
+  }
+
+  // Audit methods; details are encrypted for the user's audit public key, see audit.ts
+  async getAuditKeys(userId: string): Promise<{ publicKey: string | null; privateKey: string | null }> {
+    const row = await this.db.get('SELECT audit_public_key, audit_private_key FROM users WHERE id = ?', [userId]);
+    return { publicKey: row?.audit_public_key ?? null, privateKey: row?.audit_private_key ?? null };
+  }
+
+  async setAuditKeys(userId: string, publicKey: string, privateKey: string): Promise<void> {
+    // Never replace an existing key pair: entries sealed for it would become unreadable
+    await this.db.run(
+      'UPDATE users SET audit_public_key = ?, audit_private_key = ? WHERE id = ? AND audit_public_key IS NULL',
+      [publicKey, privateKey, userId]
+    );
+  }
+
+  async addAuditEntry(userId: string | null, event: string, details: string): Promise<void> {
+    await this.db.run(
+      'INSERT INTO audit_log (id, user_id, event, details, created_at) VALUES (?, ?, ?, ?, ?)',
+      [crypto.randomUUID(), userId, event, details, new Date().toISOString()]
+    );
+  }
+
+  async getAuditEntries(
+    userId: string,
+    filter: { events?: string[]; from?: string; to?: string; limit: number }
+  ): Promise<Array<{ id: string; event: string; details: string | null; createdAt: string }>> {
+    let sql = 'SELECT id, event, details, created_at as createdAt FROM audit_log WHERE user_id = ?';
+    const params: unknown[] = [userId];
+    if (filter.events && filter.events.length > 0) {
+      sql += ` AND event IN (${filter.events.map(() => '?').join(', ')})`;
+      params.push(...filter.events);
+    }
+    if (filter.from) {
+      sql += ' AND created_at >= ?';
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      sql += ' AND created_at <= ?';
+      params.push(filter.to);
+    }
+    sql += ' ORDER BY created_at DESC LIMIT ?';
+    params.push(filter.limit);
+    return this.db.all(sql, params);
+  }
+
+  async getPlaintextAuditEntries(userId: string): Promise<Array<{ id: string; details: string }>> {
+    return this.db.all("SELECT id, details FROM audit_log WHERE user_id = ? AND details LIKE '{%'", [userId]);
+  }
+
+  async sealAuditEntry(id: string, userId: string, details: string): Promise<void> {
+    await this.db.run('UPDATE audit_log SET details = ? WHERE id = ? AND user_id = ?', [details, id, userId]);
+  }
+
+  /**
+   * Replace password-encrypted fields with data-key-encrypted ones and store the
+   * wrapped data key in a single transaction
+   */
+  async replaceEncryptedUserData(
+    userId: string,
+    encryptedKey: string,
+    diaryEntries: Array<{ id: string; title: string; content: string }>,
+    fileItems: Array<{ id: string; name: string; metadata: any }>
+  ): Promise<void> {
+    await this.transaction(async () => {
+      for (const entry of diaryEntries) {
+        await this.db.run(
+          'UPDATE diary_entries SET title = ?, content = ? WHERE id = ? AND user_id = ?',
+          [entry.title, entry.content, entry.id, userId]
+        );
+      }
+      for (const item of fileItems) {
+        await this.db.run(
+          'UPDATE files SET name = ?, metadata = ? WHERE id = ? AND user_id = ?',
+          [item.name, JSON.stringify(item.metadata), item.id, userId]
+        );
+      }
+      await this.db.run('UPDATE users SET encrypted_key = ? WHERE id = ?', [encryptedKey, userId]);
+    });
+  }
+
+  async getLegacyEncryptedRows(userId: string): Promise<LegacyEncryptedRows> {
+    const legacy = "(title LIKE '%:%' OR content LIKE '%:%')";
+    const diaryEntries = await this.db.all(
+      `SELECT id, title, content FROM diary_entries WHERE user_id = ? AND ${legacy}`,
+      [userId]
+    );
+    const diaryRevisions = await this.db.all(
+      `SELECT id, title, content FROM diary_revisions WHERE user_id = ? AND ${legacy}`,
+      [userId]
+    );
+    const files = await this.db.all('SELECT id, metadata FROM files WHERE user_id = ? AND metadata IS NOT NULL', [userId]);
+
+    const toRow = ({ id, ...fields }: any): EncryptedRow => ({ id, fields });
+    return {
+      diaryEntries: diaryEntries.map(toRow),
+      diaryRevisions: diaryRevisions.map(toRow),
+      files: files.map(toRow)
+    };
+  }
+
+  /**
+   * Store re-encrypted rows. A row is only replaced if it still holds what was read,
+   * so an edit made in the meantime is not overwritten. Returns the number of rows replaced.
+   */
+  async replaceLegacyEncryptedRows(userId: string, before: LegacyEncryptedRows, after: LegacyEncryptedRows): Promise<number> {
+    const tables: Array<[string, keyof LegacyEncryptedRows]> = [
+      ['diary_entries', 'diaryEntries'],
+      ['diary_revisions', 'diaryRevisions'],
+      ['files', 'files']
+    ];
+    let replaced = 0;
+
+    await this.transaction(async () => {
+      for (const [table, key] of tables) {
+        for (const [index, row] of after[key].entries()) {
+          const previous = before[key][index].fields;
+          const columns = Object.keys(row.fields);
+          if (columns.every(column => row.fields[column] === previous[column])) continue;
+
+          const result = await this.db.run(
+            `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')}
+             WHERE id = ? AND user_id = ? AND ${columns.map(column => `${column} = ?`).join(' AND ')}`,
+            [...columns.map(column => row.fields[column]), row.id, userId, ...columns.map(column => previous[column])]
+          );
+          replaced += result.changes;
+        }
+      }
+    });
+    return replaced;
+  }
+
   // Diary methods
   async saveDiaryEntry(entry: Omit<DiaryEntry, 'id'>): Promise<string> {
     const id = crypto.randomUUID();
-    console.log('Saving diary entry to database:', {
-      id,
-      userId: entry.userId,
-      content: entry.content,
-      type: entry.type,
-      entryMode: entry.entryMode,
-      linkedItemId: entry.linkedItemId,
-      createdAt: entry.createdAt,
-      updatedAt: entry.updatedAt
+    log.debug('Saving diary entry', { id, type: entry.type, entryMode: entry.entryMode });
+
+    await this.transaction(async () => {
+      await this.db.run(
+        'INSERT INTO diary_entries (id, user_id, title, content, type, entry_mode, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, entry.userId, entry.title, entry.content, entry.type, entry.entryMode, entry.createdAt, entry.updatedAt]
+      );
+      await this.replaceEntryFiles(id, entry.linkedFileIds);
     });
-    
-    await this.db.run(
-      'INSERT INTO diary_entries (id, user_id, title, content, type, entry_mode, linked_item_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [id, entry.userId, entry.title, entry.content, entry.type, entry.entryMode, entry.linkedItemId || null, entry.createdAt, entry.updatedAt]
-    );
     return id;
   }
 
   async getDiaryEntries(userId: string): Promise<DiaryEntry[]> {
-    console.log('Fetching diary entries from database for user:', userId);
-    const entries = await this.db.all('SELECT * FROM diary_entries WHERE user_id = ? ORDER BY created_at DESC', [userId]);
-    console.log('Retrieved diary entries:', entries);
-    return entries.map((entry: any) => ({
+    const entries = await this.db.all(
+      'SELECT * FROM diary_entries WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
+      [userId]
+    );
+    log.debug('Retrieved diary entries', { count: entries.length });
+
+    const filesByEntry = new Map<string, string[]>();
+    for (const link of await this.getEntryFileLinks(userId)) {
+      filesByEntry.set(link.entryId, [...(filesByEntry.get(link.entryId) || []), link.fileId]);
+    }
+    return entries.map((entry: any) => this.toDiaryEntry(entry, filesByEntry.get(entry.id)));
+  }
+
+  async queryDiaryEntries(userId: string, query: ItemPageQuery): Promise<StoredPage<DiaryEntry>> {
+    const { rows, total, nextCursor } = await this.queryPage('diary_entries', 'diary_entry_tags', 'entry_id', userId, query);
+
+    const filesByEntry = new Map<string, string[]>();
+    for (const link of await this.getEntryFileLinks(userId, { entryIds: rows.map(row => row.id) })) {
+      filesByEntry.set(link.entryId, [...(filesByEntry.get(link.entryId) || []), link.fileId]);
+    }
+    return { items: rows.map(row => this.toDiaryEntry(row, filesByEntry.get(row.id))), total, nextCursor };
+  }
+
+  async getTrashedDiaryEntries(userId: string): Promise<DiaryEntry[]> {
+    const entries = await this.db.all(
+      'SELECT * FROM diary_entries WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+      [userId]
+    );
+    return entries.map((entry: any) => this.toDiaryEntry(entry));
+  }
+
+  async getDiaryEntry(id: string, userId: string): Promise<DiaryEntry | undefined> {
+    const entry = await this.db.get('SELECT * FROM diary_entries WHERE id = ? AND user_id = ?', [id, userId]);
+    return entry ? this.toDiaryEntry(entry) : undefined;
+  }
+
+  private toDiaryEntry(entry: any, linkedFileIds: string[] = []): DiaryEntry {
+    return {
       id: entry.id,
       userId: entry.user_id,
       title: entry.title,
       content: entry.content,
       type: entry.type,
       entryMode: entry.entry_mode || 'standalone',
-      linkedItemId: entry.linked_item_id || undefined,
+      linkedFileIds,
       createdAt: entry.created_at,
-      updatedAt: entry.updated_at
-    }));
+      updatedAt: entry.updated_at,
+      deletedAt: entry.deleted_at || undefined
+    };
   }
 
-  async updateDiaryEntry(id: string, entry: { 
+  async updateDiaryEntry(id: string, userId: string, entry: { 
     title: string; 
     content: string;
-    entryMode?: 'standalone' | 'linked';
-    linkedItemId?: string;
+    entryMode: 'standalone' | 'linked';
+    linkedFileIds: string[];
     createdAt?: string;
-  }): Promise<void> {
+  }, keepRevision: boolean = false): Promise<void> {
     const updatedAt = new Date().toISOString();
-    console.log('Updating diary entry:', { id, ...entry, updatedAt });
-    
-    if (entry.createdAt) {
-      // Обновляем с изменением даты создания
-      await this.db.run(
-        'UPDATE diary_entries SET title = ?, content = ?, entry_mode = ?, linked_item_id = ?, created_at = ?, updated_at = ? WHERE id = ?',
-        [entry.title, entry.content, entry.entryMode || 'standalone', entry.linkedItemId || null, entry.createdAt, updatedAt, id]
-      );
-    } else {
-      // Обновляем без изменения даты создания
-      await this.db.run(
-        'UPDATE diary_entries SET title = ?, content = ?, entry_mode = ?, linked_item_id = ?, updated_at = ? WHERE id = ?',
-        [entry.title, entry.content, entry.entryMode || 'standalone', entry.linkedItemId || null, updatedAt, id]
-      );
+    log.debug('Updating diary entry', { id, keepRevision });
+
+    await this.transaction(async () => {
+      if (keepRevision) {
+        // The stored wording is copied before it is overwritten
+        await this.db.run(
+          `INSERT INTO diary_revisions (id, entry_id, user_id, title, content, saved_at, replaced_at)
+           SELECT ?, id, user_id, title, content, updated_at, ? FROM diary_entries WHERE id = ? AND user_id = ?`,
+          [crypto.randomUUID(), updatedAt, id, userId]
+        );
+      }
+
+      if (entry.createdAt) {
+        // Обновляем с изменением даты создания
+        this.assertChanged(await this.db.run(
+          'UPDATE diary_entries SET title = ?, content = ?, entry_mode = ?, created_at = ?, updated_at = ? WHERE id = ? AND user_id = ?',
+          [entry.title, entry.content, entry.entryMode, entry.createdAt, updatedAt, id, userId]
+        ));
+      } else {
+        // Обновляем без изменения даты создания
+        this.assertChanged(await this.db.run(
+          'UPDATE diary_entries SET title = ?, content = ?, entry_mode = ?, updated_at = ? WHERE id = ? AND user_id = ?',
+          [entry.title, entry.content, entry.entryMode, updatedAt, id, userId]
+        ));
+      }
+
+      if (entry.entryMode === 'standalone') {
+        await this.db.run('DELETE FROM diary_entry_files WHERE entry_id = ?', [id]);
+      } else {
+        await this.replaceEntryFiles(id, entry.linkedFileIds);
+      }
+    });
+  }
+
+  // Revisions, newest first; title and content are encrypted like those of the entry
+  async getDiaryRevisions(entryId: string, userId: string): Promise<DiaryRevision[]> {
+    const rows: any[] = await this.db.all(
+      'SELECT * FROM diary_revisions WHERE entry_id = ? AND user_id = ? ORDER BY replaced_at DESC',
+      [entryId, userId]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      entryId: row.entry_id,
+      title: row.title,
+      content: row.content,
+      savedAt: row.saved_at,
+      replacedAt: row.replaced_at
+    }));
+  }
+
+  // Links between entries and files. Only links where neither side is in the trash are returned;
+  // the caller checks that linked files are the user's.
+  private async getEntryFileLinks(
+    userId: string,
+    only: { entryIds?: string[]; fileIds?: string[] } = {}
+  ): Promise<Array<{ entryId: string; fileId: string }>> {
+    let filter = '';
+    const params = [userId, userId];
+    if (only.entryIds) {
+      filter += ` AND l.entry_id IN (${only.entryIds.map(() => '?').join(', ')})`;
+      params.push(...only.entryIds);
+    }
+    if (only.fileIds) {
+      filter += ` AND l.file_id IN (${only.fileIds.map(() => '?').join(', ')})`;
+      params.push(...only.fileIds);
+    }
+    return this.db.all(
+      `SELECT l.entry_id as entryId, l.file_id as fileId FROM diary_entry_files l
+         JOIN diary_entries e ON e.id = l.entry_id
+         JOIN files f ON f.id = l.file_id
+       WHERE e.user_id = ? AND f.user_id = ? AND e.deleted_at IS NULL AND f.deleted_at IS NULL${filter}`,
+      params
+    );
+  }
+
+  // Links to trashed files aren't shown in the editor, so they are kept until the file is purged
+  private async replaceEntryFiles(entryId: string, fileIds: string[]): Promise<void> {
+    await this.db.run(
+      'DELETE FROM diary_entry_files WHERE entry_id = ? AND file_id NOT IN (SELECT id FROM files WHERE deleted_at IS NOT NULL)',
+      [entryId]
+    );
+    for (const fileId of new Set(fileIds)) {
+      await this.db.run('INSERT OR IGNORE INTO diary_entry_files (entry_id, file_id) VALUES (?, ?)', [entryId, fileId]);
     }
   }
 
@@ -285,50 +606,205 @@ export class Database {
   }
 
   async getFileItems(userId: string): Promise<FileItem[]> {
-    console.log('Fetching file items from database for user:', userId);
     const items: any[] = await this.db.all(
-      'SELECT * FROM files WHERE user_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM files WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [userId]
     );
-    console.log('Retrieved file items:', items);
-    return items.map((item: any) => ({
+    log.debug('Retrieved file items', { count: items.length });
+
+    const entriesByFile = new Map<string, string[]>();
+    for (const link of await this.getEntryFileLinks(userId)) {
+      entriesByFile.set(link.fileId, [...(entriesByFile.get(link.fileId) || []), link.entryId]);
+    }
+    return items.map((item: any) => ({ ...this.toFileItem(item), linkedEntryIds: entriesByFile.get(item.id) || [] }));
+  }
+
+  async queryFileItems(userId: string, query: ItemPageQuery): Promise<StoredPage<FileItem>> {
+    const { rows, total, nextCursor } = await this.queryPage('files', 'file_tags', 'file_id', userId, query);
+
+    const entriesByFile = new Map<string, string[]>();
+    for (const link of await this.getEntryFileLinks(userId, { fileIds: rows.map(row => row.id) })) {
+      entriesByFile.set(link.fileId, [...(entriesByFile.get(link.fileId) || []), link.entryId]);
+    }
+    return {
+      items: rows.map(row => ({ ...this.toFileItem(row), linkedEntryIds: entriesByFile.get(row.id) || [] })),
+      total,
+      nextCursor
+    };
+  }
+
+  async getTrashedFileItems(userId: string): Promise<FileItem[]> {
+    const items: any[] = await this.db.all(
+      'SELECT * FROM files WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+      [userId]
+    );
+    return items.map((item: any) => this.toFileItem(item));
+  }
+
+  async getFileItem(id: string, userId: string): Promise<FileItem | undefined> {
+    const item = await this.db.get('SELECT * FROM files WHERE id = ? AND user_id = ?', [id, userId]);
+    return item ? this.toFileItem(item) : undefined;
+  }
+
+  async getFileItemByPath(userId: string, filePath: string): Promise<FileItem | undefined> {
+    const item = await this.db.get('SELECT * FROM files WHERE user_id = ? AND path = ?', [userId, filePath]);
+    return item ? this.toFileItem(item) : undefined;
+  }
+
+  private toFileItem(item: any): FileItem {
+    return {
       id: item.id,
       userId: item.user_id,
       name: item.name,
       path: item.path,
       type: item.type,
       createdAt: item.created_at,
-      metadata: item.metadata ? JSON.parse(item.metadata) : {}
-    }));
+      metadata: item.metadata ? JSON.parse(item.metadata) : {},
+      deletedAt: item.deleted_at || undefined
+    };
   }
 
-  // Delete methods
-  async deleteDiaryEntry(id: string): Promise<void> {
-    console.log('Deleting diary entry:', id);
-    await this.db.run('DELETE FROM diary_entries WHERE id = ?', [id]);
+  // Blob paths of every user, used to tell orphaned blobs from referenced ones
+  async getAllFilePaths(): Promise<string[]> {
+    const rows: any[] = await this.db.all('SELECT path FROM files');
+    return rows.map(row => row.path);
+  }
+
+  async updateFilePath(id: string, userId: string, filePath: string): Promise<void> {
+    this.assertChanged(await this.db.run('UPDATE files SET path = ? WHERE id = ? AND user_id = ?', [filePath, id, userId]));
+  }
+
+  async updateFileStorage(id: string, userId: string, filePath: string, name: string, metadata: any): Promise<void> {
+    this.assertChanged(await this.db.run(
+      'UPDATE files SET path = ?, name = ?, metadata = ? WHERE id = ? AND user_id = ?',
+      [filePath, name, JSON.stringify(metadata), id, userId]
+    ));
+  }
+
+  // Trash methods; trashed rows stay until purged, with their blobs still on disk
+  async trashDiaryEntry(id: string, userId: string): Promise<void> {
+    this.assertChanged(await this.db.run(
+      'UPDATE diary_entries SET deleted_at = ? WHERE id = ? AND user_id = ? AND deleted_at IS NULL',
+      [new Date().toISOString(), id, userId]
+    ));
   }
 
-  async deleteFileItem(id: string): Promise<void> {
-    console.log('Deleting file item:', id);
-    await this.db.run('DELETE FROM files WHERE id = ?', [id]);
+  async trashFileItem(id: string, userId: string): Promise<void> {
+    this.assertChanged(await this.db.run(
+      'UPDATE files SET deleted_at = ? WHERE id = ? AND user_id = ? AND deleted_at IS NULL',
+      [new Date().toISOString(), id, userId]
+    ));
   }
 
-  async updateFileItem(id: string, metadata: any): Promise<void> {
-    console.log('Updating file item metadata:', { id, metadata });
+  async restoreDiaryEntry(id: string, userId: string): Promise<void> {
+    this.assertChanged(await this.db.run(
+      'UPDATE diary_entries SET deleted_at = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL',
+      [id, userId]
+    ));
+  }
+
+  async restoreFileItem(id: string, userId: string): Promise<void> {
+    this.assertChanged(await this.db.run(
+      'UPDATE files SET deleted_at = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL',
+      [id, userId]
+    ));
+  }
+
+  // Tag methods; names are encrypted, name_hash is their blind index
+  async getTags(userId: string): Promise<Array<{ id: string; name: string; nameHash: string }>> {
+    return this.db.all('SELECT id, name, name_hash as nameHash FROM tags WHERE user_id = ?', [userId]);
+  }
+
+  async createTag(userId: string, name: string, nameHash: string): Promise<string> {
+    const id = crypto.randomUUID();
     await this.db.run(
-      'UPDATE files SET name = ?, metadata = ? WHERE id = ?',
-      [metadata.title, JSON.stringify(metadata), id]
+      'INSERT INTO tags (id, user_id, name, name_hash, created_at) VALUES (?, ?, ?, ?, ?)',
+      [id, userId, name, nameHash, new Date().toISOString()]
     );
+    return id;
+  }
+
+  // Every link of the user's tags, trashed items included
+  async getTagLinks(userId: string): Promise<Array<{ kind: ItemKind; itemId: string; tagId: string }>> {
+    return this.db.all(
+      `SELECT 'diary' as kind, l.entry_id as itemId, l.tag_id as tagId
+         FROM diary_entry_tags l JOIN tags t ON t.id = l.tag_id WHERE t.user_id = ?
+       UNION ALL
+       SELECT 'file' as kind, l.file_id as itemId, l.tag_id as tagId
+         FROM file_tags l JOIN tags t ON t.id = l.tag_id WHERE t.user_id = ?`,
+      [userId, userId]
+    );
+  }
+
+  /**
+   * Replace the tags of an item; tags left without any item are deleted.
+   * The caller checks that the item and the tags are the user's.
+   */
+  async setItemTags(userId: string, kind: ItemKind, itemId: string, tagIds: string[]): Promise<void> {
+    const [table, column] = kind === 'diary' ? ['diary_entry_tags', 'entry_id'] : ['file_tags', 'file_id'];
+    await this.transaction(async () => {
+      await this.db.run(`DELETE FROM ${table} WHERE ${column} = ?`, [itemId]);
+      for (const tagId of tagIds) {
+        await this.db.run(`INSERT INTO ${table} (${column}, tag_id) VALUES (?, ?)`, [itemId, tagId]);
+      }
+      await this.deleteUnusedTags(userId);
+    });
   }
 
-  async updateFileItemDate(id: string, date: string): Promise<void> {
-    console.log('Updating file item date:', { id, date });
+  private async deleteUnusedTags(userId: string): Promise<void> {
     await this.db.run(
-      'UPDATE files SET created_at = ? WHERE id = ?',
-      [date, id]
+      `DELETE FROM tags WHERE user_id = ?
+         AND id NOT IN (SELECT tag_id FROM diary_entry_tags)
+         AND id NOT IN (SELECT tag_id FROM file_tags)`,
+      [userId]
     );
   }
 
+  // Delete methods
+  async deleteDiaryEntry(id: string, userId: string): Promise<void> {
+    log.debug('Deleting diary entry', { id });
+    await this.transaction(async () => {
+      this.assertChanged(await this.db.run('DELETE FROM diary_entries WHERE id = ? AND user_id = ?', [id, userId]));
+      await this.db.run('DELETE FROM diary_revisions WHERE entry_id = ? AND user_id = ?', [id, userId]);
+      await this.db.run('DELETE FROM diary_entry_files WHERE entry_id = ?', [id]);
+      await this.db.run('DELETE FROM diary_entry_tags WHERE entry_id = ?', [id]);
+      await this.deleteUnusedTags(userId);
+    });
+  }
+
+  async deleteFileItem(id: string, userId: string): Promise<void> {
+    log.debug('Deleting file item', { id });
+    await this.transaction(async () => {
+      this.assertChanged(await this.db.run('DELETE FROM files WHERE id = ? AND user_id = ?', [id, userId]));
+      await this.db.run('DELETE FROM file_tags WHERE file_id = ?', [id]);
+      await this.db.run('DELETE FROM diary_entry_files WHERE file_id = ?', [id]);
+      // Entries that were linked only to this file become standalone
+      await this.db.run(
+        `UPDATE diary_entries SET entry_mode = 'standalone'
+           WHERE user_id = ? AND entry_mode = 'linked' AND id NOT IN (SELECT entry_id FROM diary_entry_files)`,
+        [userId]
+      );
+      await this.deleteUnusedTags(userId);
+    });
+  }
+
+  // The name column is left alone: the original file name lives only in encrypted metadata
+  async updateFileItem(id: string, userId: string, metadata: any): Promise<void> {
+    log.debug('Updating file item metadata', { id });
+    this.assertChanged(await this.db.run(
+      'UPDATE files SET metadata = ? WHERE id = ? AND user_id = ?',
+      [JSON.stringify(metadata), id, userId]
+    ));
+  }
+
+  async updateFileItemDate(id: string, userId: string, date: string): Promise<void> {
+    log.debug('Updating file item date', { id });
+    this.assertChanged(await this.db.run(
+      'UPDATE files SET created_at = ? WHERE id = ? AND user_id = ?',
+      [date, id, userId]
+    ));
+  }
+
   // Deprecated methods for backward compatibility
   async saveMediaItem(item: Omit<FileItem, 'id'>): Promise<string> {
     return this.saveFileItem(item);
@@ -338,15 +814,15 @@ export class Database {
     return this.getFileItems(userId);
   }
 
-  async deleteMediaItem(id: string): Promise<void> {
-    return this.deleteFileItem(id);
+  async trashMediaItem(id: string, userId: string): Promise<void> {
+    return this.trashFileItem(id, userId);
   }
 
-  async updateMediaItem(id: string, metadata: any): Promise<void> {
-    return this.updateFileItem(id, metadata);
+  async updateMediaItem(id: string, userId: string, metadata: any): Promise<void> {
+    return this.updateFileItem(id, userId, metadata);
   }
 
-  async updateMediaItemDate(id: string, date: string): Promise<void> {
-    return this.updateFileItemDate(id, date);
+  async updateMediaItemDate(id: string, userId: string, date: string): Promise<void> {
+    return this.updateFileItemDate(id, userId, date);
   }
 }
\ No newline at end of file
@@ -0,0 +1,369 @@
+import fs from 'fs';
+import { Database as SqliteDatabase } from 'sqlite';
+import { getLogger } from '../main/logger';
+
+const log = getLogger('migrations');
+
+/**
+ * One schema change. The version is stored in PRAGMA user_version once it has run.
+ * Versions 1–6 turn any database written before versioning into the same schema,
+ * so they check what exists; later migrations can rely on the previous version.
+ */
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: SqliteDatabase) => Promise<void>;
+}
+
+async function tableExists(db: SqliteDatabase, table: string): Promise<boolean> {
+  return !!(await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [table]));
+}
+
+async function columnExists(db: SqliteDatabase, table: string, column: string): Promise<boolean> {
+  const columns: Array<{ name: string }> = await db.all(`PRAGMA table_info(${table})`);
+  return columns.some(col => col.name === column);
+}
+
+async function addColumn(db: SqliteDatabase, table: string, column: string, definition: string) {
+  if (!(await columnExists(db, table, column))) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'users, diary entries and files',
+    up: async db => {
+      const hasMediaItems = await tableExists(db, 'media_items');
+      const hasFileItems = await tableExists(db, 'file_items');
+
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          name TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS diary_entries (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          type TEXT CHECK(type IN ('text', 'audio')) NOT NULL,
+          entry_mode TEXT CHECK(entry_mode IN ('standalone', 'linked')) DEFAULT 'standalone' NOT NULL,
+          linked_item_id TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          encrypted_content BLOB,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE TABLE IF NOT EXISTS files (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          path TEXT NOT NULL,
+          type TEXT CHECK(type IN ('photo', 'video', 'audio', 'pdf', 'txt', 'docx', 'spreadsheet')) NOT NULL,
+          created_at TEXT NOT NULL,
+          metadata TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+
+      // Media and documents used to live in separate tables
+      if (hasMediaItems) {
+        log.info('Moving media_items into files');
+        await db.exec(`
+          INSERT INTO files (id, user_id, name, path, type, created_at, metadata)
+          SELECT id, user_id, title, path, type, created_at, metadata FROM media_items;
+          DROP TABLE media_items;
+        `);
+      }
+      if (hasFileItems) {
+        log.info('Moving file_items into files');
+        await db.exec(`
+          INSERT INTO files (id, user_id, name, path, type, created_at, metadata)
+          SELECT id, user_id, name, path, type, created_at, metadata FROM file_items;
+          DROP TABLE file_items;
+        `);
+      }
+
+      // Links no longer record the kind of the linked item; SQLite can't drop the column, so the table is rebuilt
+      if (await columnExists(db, 'diary_entries', 'linked_item_type')) {
+        log.info('Removing linked_item_type from diary_entries');
+        await db.exec(`
+          CREATE TABLE diary_entries_new (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            title TEXT NOT NULL,
+            content TEXT NOT NULL,
+            type TEXT CHECK(type IN ('text', 'audio')) NOT NULL,
+            entry_mode TEXT CHECK(entry_mode IN ('standalone', 'linked')) DEFAULT 'standalone' NOT NULL,
+            linked_item_id TEXT,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL,
+            encrypted_content BLOB,
+            FOREIGN KEY (user_id) REFERENCES users(id)
+          );
+
+          INSERT INTO diary_entries_new (id, user_id, title, content, type, entry_mode, linked_item_id, created_at, updated_at, encrypted_content)
+          SELECT id, user_id, title, content, type, entry_mode, linked_item_id, created_at, updated_at, encrypted_content FROM diary_entries;
+
+          DROP TABLE diary_entries;
+
+          ALTER TABLE diary_entries_new RENAME TO diary_entries;
+        `);
+      }
+    }
+  },
+  {
+    version: 2,
+    name: 'wrapped data keys',
+    up: async db => {
+      // Data-encryption key wrapped by the password, and by the recovery code
+      await addColumn(db, 'users', 'encrypted_key', 'TEXT');
+      await addColumn(db, 'users', 'recovery_key', 'TEXT');
+    }
+  },
+  {
+    version: 3,
+    name: 'user settings',
+    up: async db => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS user_settings (
+          user_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (user_id, key),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: 'login throttling and audit log',
+    up: async db => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS login_attempts (
+          user_id TEXT PRIMARY KEY,
+          failed_count INTEGER NOT NULL DEFAULT 0,
+          last_failed_at TEXT,
+          locked_until TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id TEXT PRIMARY KEY,
+          user_id TEXT,
+          event TEXT NOT NULL,
+          details TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'two-factor authentication',
+    up: async db => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS two_factor (
+          user_id TEXT PRIMARY KEY,
+          secret TEXT NOT NULL,
+          backup_codes TEXT NOT NULL,
+          last_used_step INTEGER,
+          enabled_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'encrypted append-only audit log',
+    up: async db => {
+      // Key pair that audit details are encrypted for, so they can be written while the vault is locked
+      await addColumn(db, 'users', 'audit_public_key', 'TEXT');
+      await addColumn(db, 'users', 'audit_private_key', 'TEXT');
+
+      // Details written before the user had an audit key are plaintext JSON;
+      // those may be replaced once by their encrypted form, nothing else may change
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        WHEN OLD.details NOT LIKE '{%'
+          OR NEW.id IS NOT OLD.id
+          OR NEW.user_id IS NOT OLD.user_id
+          OR NEW.event IS NOT OLD.event
+          OR NEW.created_at IS NOT OLD.created_at
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'trash',
+    up: async db => {
+      await db.exec(`
+        ALTER TABLE diary_entries ADD COLUMN deleted_at TEXT;
+        ALTER TABLE files ADD COLUMN deleted_at TEXT;
+        CREATE INDEX idx_diary_entries_deleted ON diary_entries (user_id, deleted_at);
+        CREATE INDEX idx_files_deleted ON files (user_id, deleted_at);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'diary revisions',
+    up: async db => {
+      // title and content are copied as stored, i.e. encrypted with the data key
+      await db.exec(`
+        CREATE TABLE diary_revisions (
+          id TEXT PRIMARY KEY,
+          entry_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          saved_at TEXT NOT NULL,
+          replaced_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX idx_diary_revisions_entry ON diary_revisions (entry_id, user_id);
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'tags',
+    up: async db => {
+      // name is encrypted; name_hash is its keyed hash, so a name is stored once per user
+      await db.exec(`
+        CREATE TABLE tags (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          name_hash TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          UNIQUE (user_id, name_hash),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE TABLE diary_entry_tags (
+          entry_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          PRIMARY KEY (entry_id, tag_id),
+          FOREIGN KEY (entry_id) REFERENCES diary_entries(id),
+          FOREIGN KEY (tag_id) REFERENCES tags(id)
+        );
+        CREATE TABLE file_tags (
+          file_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          PRIMARY KEY (file_id, tag_id),
+          FOREIGN KEY (file_id) REFERENCES files(id),
+          FOREIGN KEY (tag_id) REFERENCES tags(id)
+        );
+        CREATE INDEX idx_diary_entry_tags_tag ON diary_entry_tags (tag_id);
+        CREATE INDEX idx_file_tags_tag ON file_tags (tag_id);
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'links between diary entries and files',
+    up: async db => {
+      // Links to files that no longer exist or belong to someone else are dropped
+      await db.exec(`
+        CREATE TABLE diary_entry_files (
+          entry_id TEXT NOT NULL,
+          file_id TEXT NOT NULL,
+          PRIMARY KEY (entry_id, file_id),
+          FOREIGN KEY (entry_id) REFERENCES diary_entries(id),
+          FOREIGN KEY (file_id) REFERENCES files(id)
+        );
+        CREATE INDEX idx_diary_entry_files_file ON diary_entry_files (file_id);
+
+        INSERT INTO diary_entry_files (entry_id, file_id)
+          SELECT e.id, e.linked_item_id FROM diary_entries e
+          JOIN files f ON f.id = e.linked_item_id AND f.user_id = e.user_id;
+
+        UPDATE diary_entries SET entry_mode = 'standalone'
+          WHERE entry_mode = 'linked' AND id NOT IN (SELECT entry_id FROM diary_entry_files);
+
+        ALTER TABLE diary_entries DROP COLUMN linked_item_id;
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'indexes for paging by date',
+    up: async db => {
+      await db.exec(`
+        CREATE INDEX idx_diary_entries_date ON diary_entries (user_id, deleted_at, created_at, id);
+        CREATE INDEX idx_files_date ON files (user_id, deleted_at, created_at, id);
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'spreadsheets stored by extension',
+    up: async db => {
+      // Uploads used to store the extension as the type, so spreadsheets were never indexed or filtered
+      await db.exec("UPDATE files SET type = 'spreadsheet' WHERE type = 'xlsx'");
+    }
+  }
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+async function getUserVersion(db: SqliteDatabase): Promise<number> {
+  const row = await db.get('PRAGMA user_version');
+  return row.user_version;
+}
+
+/**
+ * Copy of the database file taken before migrating, kept next to it
+ */
+function backupBeforeMigration(dbPath: string, fromVersion: number): string {
+  const backupPath = `${dbPath}.v${fromVersion}-${new Date().toISOString().replace(/[:.]/g, '-')}.bak`;
+  fs.copyFileSync(dbPath, backupPath);
+  return backupPath;
+}
+
+/**
+ * Bring the database to SCHEMA_VERSION. Each migration runs in its own transaction
+ * together with the version bump, so a failure leaves the database at the last
+ * completed version; the error is rethrown and the app doesn't start on a half-migrated schema.
+ */
+export async function runMigrations(db: SqliteDatabase, dbPath: string): Promise<void> {
+  const current = await getUserVersion(db);
+  if (current > SCHEMA_VERSION) {
+    throw new Error(`Database schema version ${current} is newer than this app supports (${SCHEMA_VERSION})`);
+  }
+
+  const pending = migrations.filter(migration => migration.version > current);
+  if (pending.length === 0) return;
+
+  // A new, empty database has nothing worth backing up
+  const hasTables = !!(await db.get("SELECT name FROM sqlite_master WHERE type = 'table' LIMIT 1"));
+  if (hasTables) {
+    const backupPath = backupBeforeMigration(dbPath, current);
+    log.info('Database backed up before migrating', { from: current, to: SCHEMA_VERSION, backupPath });
+  }
+
+  for (const migration of pending) {
+    log.info('Running migration', { version: migration.version, migration: migration.name });
+    await db.exec('BEGIN TRANSACTION');
+    try {
+      await migration.up(db);
+      await db.exec(`PRAGMA user_version = ${migration.version}`);
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      log.error('Migration failed, rolled back', { version: migration.version, error });
+      throw error;
+    }
+  }
+}
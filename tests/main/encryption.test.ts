@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { encodeHeader, FORMAT_VERSION } from '../../src/main/cipherHeader';
+import {
+  decryptFile,
+  decryptFileToBuffer,
+  decryptText,
+  encryptFile,
+  encryptText,
+  generateDataKey,
+  hashPassword,
+  passwordHashNeedsUpgrade,
+  textNeedsUpgrade,
+  unwrapDataKey,
+  verifyFile,
+  verifyPassword,
+  wrapDataKey,
+  wrappedKeyNeedsUpgrade
+} from '../../src/main/encryption';
+import { reencryptPasswordFields, upgradeLegacyRows } from '../../src/main/legacyText';
+
+// Writers for the formats earlier versions produced; the app itself only reads them now
+
+function legacyPbkdf2Key(secret: string, salt: Buffer): Buffer {
+  return crypto.pbkdf2Sync(secret, salt, 100000, 32, 'sha512');
+}
+
+// salt:iv:authTag:data in hex, keyed with PBKDF2 of the password or of the data key in hex
+function legacyText(text: string, secret: string): string {
+  const salt = crypto.randomBytes(64);
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', legacyPbkdf2Key(secret, salt), iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return [salt, iv, cipher.getAuthTag(), encrypted].map(part => part.toString('hex')).join(':');
+}
+
+function textSubKey(dataKey: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', dataKey, Buffer.alloc(0), 'anamneon:text', 32));
+}
+
+// v2:base64(iv + authTag + data) with the unsalted text sub-key
+function v2Text(text: string, dataKey: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', textSubKey(dataKey), iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return `v2:${Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64')}`;
+}
+
+// Headered text written before per-record salts: an HKDF header with an empty salt
+function unsaltedHeaderText(text: string, dataKey: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const header = encodeHeader({
+    version: FORMAT_VERSION,
+    cipher: 'aes-256-gcm',
+    kdf: { id: 'hkdf', digest: 'sha256', salt: Buffer.alloc(0) },
+    iv
+  });
+  const cipher = crypto.createCipheriv('aes-256-gcm', textSubKey(dataKey), iv);
+  cipher.setAAD(header);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return Buffer.concat([header, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+// salt + iv + data + authTag, keyed with PBKDF2 of the data key in hex
+function legacyFile(data: Buffer, dataKey: Buffer): Buffer {
+  const salt = crypto.randomBytes(64);
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', legacyPbkdf2Key(dataKey.toString('hex'), salt), iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([salt, iv, encrypted, cipher.getAuthTag()]);
+}
+
+function flipLastByte(encoded: string): string {
+  const raw = Buffer.from(encoded, 'base64');
+  raw[raw.length - 1] ^= 1;
+  return raw.toString('base64');
+}
+
+describe('text encryption', () => {
+  const dataKey = generateDataKey();
+
+  it('round-trips text in the current format', () => {
+    const encrypted = encryptText('Приём у врача, 12:30', dataKey);
+    expect(decryptText(encrypted, dataKey)).toBe('Приём у врача, 12:30');
+    expect(textNeedsUpgrade(encrypted)).toBe(false);
+  });
+
+  it('uses a fresh salt and iv for every record', () => {
+    expect(encryptText('same', dataKey)).not.toBe(encryptText('same', dataKey));
+  });
+
+  it('rejects modified ciphertext and the wrong key', () => {
+    const encrypted = encryptText('secret', dataKey);
+    expect(() => decryptText(flipLastByte(encrypted), dataKey)).toThrow();
+    expect(() => decryptText(encrypted, generateDataKey())).toThrow();
+  });
+
+  it('reads the legacy PBKDF2 format', () => {
+    const encrypted = legacyText('старая запись', dataKey.toString('hex'));
+    expect(textNeedsUpgrade(encrypted)).toBe(true);
+    expect(decryptText(encrypted, dataKey)).toBe('старая запись');
+  });
+
+  it('reads the v2 format', () => {
+    const encrypted = v2Text('запись v2', dataKey);
+    expect(textNeedsUpgrade(encrypted)).toBe(true);
+    expect(decryptText(encrypted, dataKey)).toBe('запись v2');
+  });
+
+  it('reads headered text without a per-record salt', () => {
+    const encrypted = unsaltedHeaderText('без соли', dataKey);
+    expect(textNeedsUpgrade(encrypted)).toBe(false);
+    expect(decryptText(encrypted, dataKey)).toBe('без соли');
+  });
+});
+
+describe('legacy text upgrade', () => {
+  const dataKey = generateDataKey();
+
+  it('re-encrypts legacy fields and leaves current ones alone', () => {
+    const current = encryptText('новая', dataKey);
+    const rows = upgradeLegacyRows({
+      diaryEntries: [{ id: 'e1', fields: { title: legacyText('заголовок', dataKey.toString('hex')), content: current } }],
+      diaryRevisions: [{ id: 'r1', fields: { title: v2Text('ревизия', dataKey), content: current } }],
+      files: [{ id: 'f1', fields: { metadata: JSON.stringify({ title: v2Text('скан', dataKey), size: 10 }) } }]
+    }, dataKey);
+
+    const entry = rows.diaryEntries[0].fields;
+    expect(textNeedsUpgrade(entry.title)).toBe(false);
+    expect(decryptText(entry.title, dataKey)).toBe('заголовок');
+    expect(entry.content).toBe(current);
+
+    expect(decryptText(rows.diaryRevisions[0].fields.title, dataKey)).toBe('ревизия');
+
+    const metadata = JSON.parse(rows.files[0].fields.metadata);
+    expect(decryptText(metadata.title, dataKey)).toBe('скан');
+    expect(metadata.size).toBe(10);
+  });
+
+  it('keeps fields it cannot decrypt', () => {
+    const foreign = v2Text('чужая', generateDataKey());
+    const rows = upgradeLegacyRows({
+      diaryEntries: [{ id: 'e1', fields: { title: foreign } }],
+      diaryRevisions: [],
+      files: []
+    }, dataKey);
+    expect(rows.diaryEntries[0].fields.title).toBe(foreign);
+  });
+});
+
+describe('password-encrypted fields', () => {
+  it('re-encrypts them with the data key in order and keeps those it cannot decrypt', () => {
+    const dataKey = generateDataKey();
+    const orphaned = legacyText('старый пароль', 'previous password');
+    const [title, content, kept] = reencryptPasswordFields(
+      [legacyText('заголовок', 'correct horse'), legacyText('текст', 'correct horse'), orphaned],
+      'correct horse',
+      dataKey
+    );
+    expect(decryptText(title, dataKey)).toBe('заголовок');
+    expect(decryptText(content, dataKey)).toBe('текст');
+    expect(textNeedsUpgrade(content)).toBe(false);
+    expect(kept).toBe(orphaned);
+  });
+});
+
+describe('password-derived keys', () => {
+  it('wraps and unwraps the data key', () => {
+    const dataKey = generateDataKey();
+    const wrapped = wrapDataKey(dataKey, 'correct horse');
+    expect(wrappedKeyNeedsUpgrade(wrapped)).toBe(false);
+    expect(unwrapDataKey(wrapped, 'correct horse').equals(dataKey)).toBe(true);
+    expect(() => unwrapDataKey(wrapped, 'wrong horse')).toThrow();
+  });
+
+  it('unwraps a key wrapped in the legacy PBKDF2 format', () => {
+    const dataKey = generateDataKey();
+    const wrapped = legacyText(dataKey.toString('hex'), 'correct horse');
+    expect(wrappedKeyNeedsUpgrade(wrapped)).toBe(true);
+    expect(unwrapDataKey(wrapped, 'correct horse').equals(dataKey)).toBe(true);
+  });
+
+  it('verifies scrypt password hashes', () => {
+    const hash = hashPassword('correct horse');
+    expect(passwordHashNeedsUpgrade(hash)).toBe(false);
+    expect(verifyPassword('correct horse', hash)).toBe(true);
+    expect(verifyPassword('wrong horse', hash)).toBe(false);
+  });
+
+  it('verifies legacy PBKDF2 salt:hash passwords', () => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = `${salt}:${crypto.pbkdf2Sync('correct horse', salt, 100000, 64, 'sha512').toString('hex')}`;
+    expect(passwordHashNeedsUpgrade(hash)).toBe(true);
+    expect(verifyPassword('correct horse', hash)).toBe(true);
+    expect(verifyPassword('wrong horse', hash)).toBe(false);
+  });
+});
+
+describe('file encryption', () => {
+  const dataKey = generateDataKey();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'anamneon-encryption-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, data: Buffer) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, data);
+    return file;
+  };
+
+  // Spans several chunks and ends in a partial one
+  const plaintext = crypto.randomBytes(3 * 64 * 1024 + 123);
+
+  it('round-trips a file through the chunked format', async () => {
+    const source = write('plain.bin', plaintext);
+    const encrypted = path.join(dir, 'plain.bin.enc');
+    const decrypted = path.join(dir, 'plain.out');
+
+    await encryptFile(source, encrypted, dataKey);
+    await verifyFile(encrypted, dataKey);
+    await decryptFile(encrypted, decrypted, dataKey);
+
+    expect(fs.readFileSync(decrypted).equals(plaintext)).toBe(true);
+    expect((await decryptFileToBuffer(encrypted, dataKey)).equals(plaintext)).toBe(true);
+  });
+
+  it('round-trips an empty file', async () => {
+    const encrypted = path.join(dir, 'empty.enc');
+    await encryptFile(write('empty', Buffer.alloc(0)), encrypted, dataKey);
+    expect((await decryptFileToBuffer(encrypted, dataKey)).length).toBe(0);
+  });
+
+  it('detects a modified chunk and removes the partial output', async () => {
+    const encrypted = path.join(dir, 'plain.bin.enc');
+    await encryptFile(write('plain.bin', plaintext), encrypted, dataKey);
+
+    const sealed = fs.readFileSync(encrypted);
+    sealed[sealed.length - 100] ^= 1;
+    fs.writeFileSync(encrypted, sealed);
+
+    await expect(verifyFile(encrypted, dataKey)).rejects.toThrow();
+    const decrypted = path.join(dir, 'plain.out');
+    await expect(decryptFile(encrypted, decrypted, dataKey)).rejects.toThrow();
+    expect(fs.existsSync(decrypted)).toBe(false);
+  });
+
+  it('removes the partial output when aborted', async () => {
+    const controller = new AbortController();
+    const encrypted = path.join(dir, 'plain.bin.enc');
+    await expect(encryptFile(write('plain.bin', plaintext), encrypted, dataKey, {
+      signal: controller.signal,
+      onProgress: () => controller.abort()
+    })).rejects.toThrow();
+    expect(fs.existsSync(encrypted)).toBe(false);
+  });
+
+  it('reads the legacy single-shot format', async () => {
+    const encrypted = write('legacy.enc', legacyFile(plaintext, dataKey));
+    await verifyFile(encrypted, dataKey);
+    expect((await decryptFileToBuffer(encrypted, dataKey)).equals(plaintext)).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { clearAllEncryptionKeys, encryptBufferToFile, generateDataKey, setUserEncryptionKey } from '../../src/main/encryption';
+import {
+  createViewerUrl,
+  registerFileProtocol,
+  revokeFileViewerUrls,
+  revokeViewerUrl,
+  revokeViewerUrls
+} from '../../src/main/fileViewer';
+
+type StreamHandler = (request: { url: string; headers: Record<string, string> }, callback: (response: any) => void) => void;
+
+const electron = vi.hoisted(() => ({ handler: null as StreamHandler | null }));
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+  shell: {},
+  protocol: {
+    registerSchemesAsPrivileged: () => undefined,
+    registerStreamProtocol: (_scheme: string, handler: StreamHandler) => {
+      electron.handler = handler;
+    }
+  }
+}));
+
+const statusOf = (url: string) =>
+  new Promise<number>(resolve => electron.handler!({ url, headers: {} }, response => {
+    response.data?.destroy();
+    resolve(response.statusCode);
+  }));
+
+describe('viewer URLs', () => {
+  const dataKey = generateDataKey();
+  let dir: string;
+  let blobPath: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'anamneon-viewer-'));
+    blobPath = path.join(dir, 'blob.enc');
+    await encryptBufferToFile(Buffer.from('скан анализа'), blobPath, dataKey);
+    setUserEncryptionKey('u1', dataKey);
+    setUserEncryptionKey('u2', generateDataKey());
+    registerFileProtocol();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    revokeViewerUrls('u1');
+  });
+
+  afterAll(() => {
+    clearAllEncryptionKeys();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves the file until the viewer closes', async () => {
+    const url = createViewerUrl('u1', 'f1', blobPath, 'text/plain');
+    expect(await statusOf(url)).toBe(200);
+
+    revokeViewerUrl('u2', url);
+    expect(await statusOf(url)).toBe(200);
+
+    revokeViewerUrl('u1', url);
+    expect(await statusOf(url)).toBe(403);
+  });
+
+  it('stops serving a file once it is deleted', async () => {
+    const url = createViewerUrl('u1', 'f1', blobPath, 'text/plain');
+    const other = createViewerUrl('u1', 'f2', blobPath, 'text/plain');
+
+    revokeFileViewerUrls('u1', 'f1');
+    expect(await statusOf(url)).toBe(403);
+    expect(await statusOf(other)).toBe(200);
+  });
+
+  it('expires URLs that have not been used for a while', async () => {
+    vi.useFakeTimers();
+    const url = createViewerUrl('u1', 'f1', blobPath, 'text/plain');
+
+    vi.advanceTimersByTime(20 * 60 * 1000);
+    expect(await statusOf(url)).toBe(200);
+    vi.advanceTimersByTime(20 * 60 * 1000);
+    expect(await statusOf(url)).toBe(200);
+    vi.advanceTimersByTime(31 * 60 * 1000);
+    expect(await statusOf(url)).toBe(403);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { generateRecoveryCode, normalizeRecoveryCode } from '../../src/main/recoveryCode';
+
+describe('recovery codes', () => {
+  it('generates sixteen words', () => {
+    expect(generateRecoveryCode().split(' ')).toHaveLength(16);
+  });
+
+  it('normalizes case and separators', () => {
+    const code = generateRecoveryCode();
+    const typed = code.toUpperCase().split(' ').join(' -  ');
+    expect(normalizeRecoveryCode(`  ${typed}\n`)).toBe(code);
+  });
+
+  it('refuses unknown words and the wrong length', () => {
+    const words = generateRecoveryCode().split(' ');
+    expect(() => normalizeRecoveryCode(words.slice(1).join(' '))).toThrow('Invalid recovery code');
+    expect(() => normalizeRecoveryCode(['notaword', ...words.slice(1)].join(' '))).toThrow('Invalid recovery code');
+  });
+});
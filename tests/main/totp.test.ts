@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  currentTotpStep,
+  generateBackupCodes,
+  generateTotpSecret,
+  hashBackupCode,
+  isTotpCode,
+  totpUri,
+  verifyTotp
+} from '../../src/main/totp';
+
+// RFC 6238 appendix B, SHA-1: the ASCII secret "12345678901234567890" in base32.
+// The RFC lists 8-digit codes; six-digit codes are their last six digits.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: Array<[seconds: number, code: string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130']
+];
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const at = (seconds: number) => {
+  vi.useFakeTimers();
+  vi.setSystemTime(seconds * 1000);
+};
+
+describe('verifyTotp', () => {
+  it.each(RFC_VECTORS)('accepts the RFC 6238 code at %i s', (seconds, code) => {
+    at(seconds);
+    expect(verifyTotp(RFC_SECRET, code)).toBe(currentTotpStep());
+  });
+
+  it('accepts the neighbouring steps only', () => {
+    at(1111111109 + 30);
+    expect(verifyTotp(RFC_SECRET, '081804')).toBe(currentTotpStep() - 1);
+    at(1111111109 + 60);
+    expect(verifyTotp(RFC_SECRET, '081804')).toBeNull();
+  });
+
+  it('refuses a code from a step already used', () => {
+    at(1234567890);
+    const step = verifyTotp(RFC_SECRET, '005924');
+    expect(step).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '005924', step)).toBeNull();
+  });
+
+  it('ignores spaces and refuses codes of the wrong length', () => {
+    at(1234567890);
+    expect(verifyTotp(RFC_SECRET, '005 924')).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '05924')).toBeNull();
+  });
+});
+
+describe('enrolment', () => {
+  it('generates a 160-bit base32 secret', () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+
+  it('builds an otpauth URI', () => {
+    const uri = totpUri(RFC_SECRET, 'a@example.com');
+    expect(uri.startsWith('otpauth://totp/Anamneon%3Aa%40example.com?')).toBe(true);
+    const params = new URLSearchParams(uri.split('?')[1]);
+    expect(params.get('secret')).toBe(RFC_SECRET);
+    expect(params.get('digits')).toBe('6');
+    expect(params.get('period')).toBe('30');
+  });
+
+  it('tells codes from other input', () => {
+    expect(isTotpCode('123 456')).toBe(true);
+    expect(isTotpCode('k7m2-9xqp')).toBe(false);
+  });
+});
+
+describe('backup codes', () => {
+  it('generates distinct codes in the printed form', () => {
+    const codes = generateBackupCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-hjkmnp-z2-9]{4}-[a-hjkmnp-z2-9]{4}$/);
+    }
+  });
+
+  it('hashes codes regardless of case and separators', () => {
+    expect(hashBackupCode('K7M2 9XQP')).toBe(hashBackupCode('k7m2-9xqp'));
+    expect(hashBackupCode('k7m2-9xqp')).not.toBe(hashBackupCode('k7m2-9xqr'));
+  });
+});
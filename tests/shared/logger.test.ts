@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createLogger, levelEnabled, LogRecord, redact } from '../../src/shared/logger';
+
+describe('redact', () => {
+  it('replaces sensitive fields at any depth', () => {
+    expect(redact({ userId: 'u1', entry: { title: 'Диагноз', content: 'текст', size: 3 } })).toEqual({
+      userId: 'u1',
+      entry: { title: '[redacted]', content: '[redacted]', size: 3 }
+    });
+  });
+
+  it('removes absolute paths from error messages', () => {
+    const error = Object.assign(new Error("ENOENT: no such file, open '/home/anna/Anamneon/files/scan.pdf.enc'"), { code: 'ENOENT' });
+    const redacted = redact(error) as Record<string, unknown>;
+    expect(redacted.message).toBe("ENOENT: no such file, open '[path]'");
+    expect(redacted.code).toBe('ENOENT');
+    expect(JSON.stringify(redacted)).not.toContain('anna');
+  });
+
+  it('cuts long strings, arrays and deep nesting short', () => {
+    expect((redact('x'.repeat(500)) as string).length).toBe(201);
+    expect(redact(Array.from({ length: 25 }, (_, i) => i))).toHaveLength(21);
+    expect(redact({ a: { b: { c: { d: { e: 1 } } } } })).toEqual({ a: { b: { c: { d: '[…]' } } } });
+  });
+});
+
+describe('createLogger', () => {
+  it('redacts data and skips levels below the threshold', () => {
+    const records: LogRecord[] = [];
+    const log = createLogger('test', record => records.push(record), level => levelEnabled(level, 'info'));
+
+    log.debug('Hidden');
+    log.info('Uploaded', { fileId: 'f1', fileName: 'scan.pdf' });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ level: 'info', scope: 'test', message: 'Uploaded', data: { fileId: 'f1', fileName: '[redacted]' } });
+  });
+});
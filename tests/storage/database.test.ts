@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../../src/storage/database';
+
+// The database file and the logs live under userData
+let userData: string;
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+describe('Database.transaction', () => {
+  let db: Database;
+  let userId: string;
+
+  beforeEach(async () => {
+    userData = fs.mkdtempSync(path.join(os.tmpdir(), 'anamneon-database-'));
+    db = new Database();
+    await db.initialize();
+    userId = await db.createUser('a@example.com', 'hash');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  const auditEvents = async () => (await db.getAuditEntries(userId, { limit: 100 })).map(entry => entry.event).sort();
+
+  it('runs overlapping transactions one after another', async () => {
+    const order: string[] = [];
+    const step = (name: string) => new Promise<void>(resolve => setTimeout(() => {
+      order.push(name);
+      resolve();
+    }, 5));
+
+    await Promise.all([
+      db.transaction(async () => {
+        await step('a1');
+        await db.addAuditEntry(userId, 'a', '{}');
+        await step('a2');
+      }),
+      db.transaction(async () => {
+        await step('b1');
+        await db.addAuditEntry(userId, 'b', '{}');
+        await step('b2');
+      })
+    ]);
+
+    expect(order).toEqual(['a1', 'a2', 'b1', 'b2']);
+    expect(await auditEvents()).toEqual(['a', 'b']);
+  });
+
+  it('keeps statements from outside out of a transaction that rolls back', async () => {
+    let started!: () => void;
+    const running = new Promise<void>(resolve => {
+      started = resolve;
+    });
+
+    const failing = db.transaction(async () => {
+      await db.addAuditEntry(userId, 'inside', '{}');
+      started();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      throw new Error('failed');
+    });
+    await running;
+    const outside = db.addAuditEntry(userId, 'outside', '{}');
+
+    await expect(failing).rejects.toThrow('failed');
+    await outside;
+    expect(await auditEvents()).toEqual(['outside']);
+  });
+
+  it('makes a transaction started inside another part of it', async () => {
+    await db.transaction(async () => {
+      await db.addAuditEntry(userId, 'outer', '{}');
+      await db.transaction(() => db.addAuditEntry(userId, 'inner', '{}'));
+    });
+    expect(await auditEvents()).toEqual(['inner', 'outer']);
+  });
+});
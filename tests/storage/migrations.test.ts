@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Database as SqliteDatabase, open } from 'sqlite';
+import sqlite3 from 'sqlite3';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runMigrations, SCHEMA_VERSION } from '../../src/storage/migrations';
+
+// The main-process logger writes under userData; keep it in a directory of its own
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'anamneon-userdata-'));
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+afterAll(() => {
+  fs.rmSync(userData, { recursive: true, force: true });
+});
+
+describe('runMigrations', () => {
+  let dir: string;
+  let dbPath: string;
+  let db: SqliteDatabase;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'anamneon-migrations-'));
+    dbPath = path.join(dir, 'anamneon.db');
+    db = await open({ filename: dbPath, driver: sqlite3.Database });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const userVersion = async () => (await db.get('PRAGMA user_version')).user_version;
+  const columns = async (table: string) =>
+    (await db.all(`PRAGMA table_info(${table})`)).map((column: { name: string }) => column.name);
+  const backups = () => fs.readdirSync(dir).filter(name => name.endsWith('.bak'));
+
+  it('creates the current schema in a new database without a backup', async () => {
+    await runMigrations(db, dbPath);
+
+    expect(await userVersion()).toBe(SCHEMA_VERSION);
+    expect(await columns('files')).toContain('deleted_at');
+    expect(await columns('diary_entries')).not.toContain('linked_item_id');
+    expect(await db.get("SELECT name FROM sqlite_master WHERE name = 'diary_entry_files'")).toBeTruthy();
+    expect(backups()).toEqual([]);
+  });
+
+  it('brings a database written before versioning to the current schema', async () => {
+    // Layout of the first releases: separate media and document tables, linked_item_type on entries
+    await db.exec(`
+      CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT UNIQUE NOT NULL, password_hash TEXT NOT NULL, name TEXT, created_at TEXT NOT NULL);
+      CREATE TABLE diary_entries (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        type TEXT CHECK(type IN ('text', 'audio')) NOT NULL,
+        entry_mode TEXT CHECK(entry_mode IN ('standalone', 'linked')) DEFAULT 'standalone' NOT NULL,
+        linked_item_id TEXT,
+        linked_item_type TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        encrypted_content BLOB
+      );
+      CREATE TABLE media_items (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, title TEXT NOT NULL, path TEXT NOT NULL, type TEXT NOT NULL, created_at TEXT NOT NULL, metadata TEXT);
+      CREATE TABLE file_items (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, name TEXT NOT NULL, path TEXT NOT NULL, type TEXT NOT NULL, created_at TEXT NOT NULL, metadata TEXT);
+
+      INSERT INTO users VALUES ('u1', 'a@example.com', 'hash', NULL, '2023-01-01');
+      INSERT INTO users VALUES ('u2', 'b@example.com', 'hash', NULL, '2023-01-01');
+      INSERT INTO media_items VALUES ('m1', 'u1', 'photo', '/blobs/m1.enc', 'photo', '2023-01-02', '{}');
+      INSERT INTO file_items VALUES ('f1', 'u1', 'scan', '/blobs/f1.enc', 'pdf', '2023-01-03', '{}');
+      INSERT INTO file_items VALUES ('f2', 'u2', 'other', '/blobs/f2.enc', 'pdf', '2023-01-03', '{}');
+      INSERT INTO diary_entries VALUES ('e1', 'u1', 't', 'c', 'text', 'linked', 'f1', 'file', '2023-01-04', '2023-01-04', NULL);
+      INSERT INTO diary_entries VALUES ('e2', 'u1', 't', 'c', 'text', 'linked', 'missing', 'file', '2023-01-04', '2023-01-04', NULL);
+      INSERT INTO diary_entries VALUES ('e3', 'u1', 't', 'c', 'text', 'linked', 'f2', 'file', '2023-01-04', '2023-01-04', NULL);
+    `);
+
+    await runMigrations(db, dbPath);
+
+    expect(await userVersion()).toBe(SCHEMA_VERSION);
+    expect(await db.get("SELECT name FROM sqlite_master WHERE name IN ('media_items', 'file_items')")).toBeUndefined();
+    expect(await db.all('SELECT id, name, type FROM files ORDER BY id')).toEqual([
+      { id: 'f1', name: 'scan', type: 'pdf' },
+      { id: 'f2', name: 'other', type: 'pdf' },
+      { id: 'm1', name: 'photo', type: 'photo' }
+    ]);
+
+    expect(await columns('diary_entries')).not.toContain('linked_item_type');
+    expect(await columns('users')).toEqual(expect.arrayContaining(['encrypted_key', 'recovery_key', 'audit_public_key']));
+
+    // Only links to the user's own, existing files survive
+    expect(await db.all('SELECT entry_id, file_id FROM diary_entry_files')).toEqual([{ entry_id: 'e1', file_id: 'f1' }]);
+    expect(await db.all('SELECT id, entry_mode FROM diary_entries ORDER BY id')).toEqual([
+      { id: 'e1', entry_mode: 'linked' },
+      { id: 'e2', entry_mode: 'standalone' },
+      { id: 'e3', entry_mode: 'standalone' }
+    ]);
+
+    expect(backups()).toHaveLength(1);
+    expect(backups()[0]).toMatch(/^anamneon\.db\.v0-.*\.bak$/);
+  });
+
+  it('stores spreadsheets under their type instead of the extension', async () => {
+    await runMigrations(db, dbPath);
+    // The CHECK constraint keeps such rows out now, so one is forced in the way an older build could have left it
+    await db.exec(`
+      PRAGMA ignore_check_constraints = ON;
+      INSERT INTO users (id, email, password_hash, created_at) VALUES ('u1', 'a@example.com', 'hash', '2023-01-01');
+      INSERT INTO files (id, user_id, name, path, type, created_at) VALUES ('f1', 'u1', 'labs', '/blobs/f1.enc', 'xlsx', '2023-01-02');
+      PRAGMA ignore_check_constraints = OFF;
+      PRAGMA user_version = 11;
+    `);
+
+    await runMigrations(db, dbPath);
+
+    expect(await userVersion()).toBe(SCHEMA_VERSION);
+    expect(await db.get("SELECT type FROM files WHERE id = 'f1'")).toEqual({ type: 'spreadsheet' });
+    expect(backups()[0]).toMatch(/^anamneon\.db\.v11-/);
+  });
+
+  it('does nothing on an up-to-date database', async () => {
+    await runMigrations(db, dbPath);
+    await runMigrations(db, dbPath);
+    expect(await userVersion()).toBe(SCHEMA_VERSION);
+    expect(backups()).toEqual([]);
+  });
+
+  it('refuses a database from a newer version', async () => {
+    await db.exec(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+    await expect(runMigrations(db, dbPath)).rejects.toThrow(/newer than this app supports/);
+  });
+});
@@ -1,44 +1,67 @@
 const path = require('path');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 
-module.exports = {
-  mode: process.env.NODE_ENV === 'production' ? 'production' : 'development',
-  entry: './src/renderer/index.tsx',
-  target: 'electron-renderer',
-  devtool: 'source-map',
-  module: {
-    rules: [
-      {
-        test: /\.tsx?$/,
-        use: 'ts-loader',
-        exclude: /node_modules/,
-      },
-      {
-        test: /\.css$/,
-        use: ['style-loader', 'css-loader', 'postcss-loader'],
-      },
-    ],
+const mode = process.env.NODE_ENV === 'production' ? 'production' : 'development';
+
+const resolve = {
+  extensions: ['.tsx', '.ts', '.js'],
+  alias: {
+    '@': path.resolve(__dirname, 'src'),
+    '@main': path.resolve(__dirname, 'src/main'),
+    '@renderer': path.resolve(__dirname, 'src/renderer'),
+    '@shared': path.resolve(__dirname, 'src/shared'),
+    '@storage': path.resolve(__dirname, 'src/storage'),
   },
-  resolve: {
-    extensions: ['.tsx', '.ts', '.js'],
-    alias: {
-      '@': path.resolve(__dirname, 'src'),
-      '@main': path.resolve(__dirname, 'src/main'),
-      '@renderer': path.resolve(__dirname, 'src/renderer'),
-      '@shared': path.resolve(__dirname, 'src/shared'),
-      '@storage': path.resolve(__dirname, 'src/storage'),
+};
+
+const tsRule = {
+  test: /\.tsx?$/,
+  use: 'ts-loader',
+  exclude: /node_modules/,
+};
+
+module.exports = [
+  {
+    mode,
+    entry: './src/renderer/index.tsx',
+    target: 'electron-renderer',
+    devtool: 'source-map',
+    module: {
+      rules: [
+        tsRule,
+        {
+          test: /\.css$/,
+          use: ['style-loader', 'css-loader', 'postcss-loader'],
+        },
+      ],
     },
+    resolve,
+    output: {
+      filename: 'renderer/renderer.js',
+      path: path.resolve(__dirname, 'dist'),
+      publicPath: './'
+    },
+    plugins: [
+      new HtmlWebpackPlugin({
+        template: './index.html',
+        inject: 'body',
+        scriptLoading: 'defer'
+      }),
+    ],
   },
-  output: {
-    filename: 'renderer/renderer.js',
-    path: path.resolve(__dirname, 'dist'),
-    publicPath: './'
+  // A sandboxed preload can't require local modules, so the shared IPC contract is bundled into it
+  {
+    mode,
+    entry: './src/main/preload.ts',
+    target: 'electron-preload',
+    devtool: 'source-map',
+    module: {
+      rules: [tsRule],
+    },
+    resolve,
+    output: {
+      filename: 'main/preload.bundle.js',
+      path: path.resolve(__dirname, 'dist'),
+    },
   },
-  plugins: [
-    new HtmlWebpackPlugin({
-      template: './index.html',
-      inject: 'body',
-      scriptLoading: 'defer'
-    }),
-  ],
-};
\ No newline at end of file
+];